@@ -1,18 +1,48 @@
 import type { Component } from 'solid-js'
+import type { BatchOptions } from './lib/batches'
+import type { FontMapping, FontSlot } from './lib/fonts'
+import type { GlossaryIssue } from './lib/glossary'
+import type { MtProgress } from './lib/mt'
+import type { RevisionHandling } from './lib/revisions'
+import type { TranslationMemory } from './lib/tm'
+import type { MergeResult, TranslationConflict, TranslationStore } from './lib/translation-store'
 import type { ParagraphSegment } from './lib/types'
-import { createMemo, createSignal, For, Show } from 'solid-js'
+import type { XliffVersion } from './lib/xliff'
+import { createMemo, createSignal, For, Index, onMount, Show } from 'solid-js'
+import { measureText, splitIntoBatches } from './lib/batches'
+import { createBilingualDocx, parseBilingualDocx } from './lib/bilingual'
 import {
   createDocxBytes,
   downloadFile,
   extractDocxFromFile,
-  getTranslatableFiles,
-  getXmlContent,
-  setXmlContent,
 } from './lib/docx-utils'
-import { extractParagraphSegments, replaceParagraphText } from './lib/xml-utils'
+import { FONT_SLOTS, getFontMapping } from './lib/fonts'
+import { formatTxt, parseTxtTranslations } from './lib/formats'
+import { checkGlossary, findGlossaryTerms, formatGlossaryPrompt, parseGlossary } from './lib/glossary'
+import { buildTranslationPrompt, translateSegments } from './lib/mt'
+import { formatPo, isPo, parsePo } from './lib/po'
+import { groupQaIssues, runQaChecks } from './lib/qa'
+import { extractSegments, findRevisions, injectTranslations as injectIntoDocx, restoreOuterWhitespace } from './lib/segments'
+import {
+  addToMemory,
+  applyMemory,
+  createTranslationMemory,
+  formatTmx,
+  getPairEntries,
+  importTmx,
+} from './lib/tm'
+import { loadMemory, saveMemory } from './lib/tm-store'
+import { getCoverage, getStoreTranslations, mergeTranslations } from './lib/translation-store'
+import { formatXliff, isXliff, parseXliff } from './lib/xliff'
 
 type AppState = 'upload' | 'extracted' | 'ready-to-inject'
 
+// Origin of the translations pre-filled from the translation memory
+const MEMORY_ORIGIN = 'Translation memory'
+
+// Origin of translations imported from a reviewed bilingual DOCX
+const REVIEW_ORIGIN = 'Bilingual review'
+
 const LANGUAGES = [
   { code: 'hu', name: 'Hungarian' },
   { code: 'ro', name: 'Romanian' },
@@ -28,66 +58,213 @@ const LANGUAGES = [
   { code: 'zh', name: 'Chinese' },
   { code: 'ja', name: 'Japanese' },
   { code: 'ko', name: 'Korean' },
+  { code: 'ar', name: 'Arabic' },
+  { code: 'he', name: 'Hebrew' },
+  { code: 'fa', name: 'Persian' },
+  { code: 'ur', name: 'Urdu' },
 ]
 
-function getSavedLanguage() {
+function getSavedLanguage(key = 'translate-docx-lang', fallback = 'hu') {
   try {
-    return localStorage.getItem('translate-docx-lang') || 'hu'
+    return localStorage.getItem(key) || fallback
   }
   catch {
-    return 'hu'
+    return fallback
   }
 }
 
-function saveLanguage(lang: string) {
+function saveLanguage(lang: string, key = 'translate-docx-lang') {
   try {
-    localStorage.setItem('translate-docx-lang', lang)
+    localStorage.setItem(key, lang)
   }
   catch {
     // ignore
   }
 }
 
+interface MtSettings {
+  endpoint: string
+  model: string
+  apiKey: string
+}
+
+function getSavedMtSettings(): MtSettings {
+  const defaults = { endpoint: 'http://localhost:11434/v1', model: '', apiKey: '' }
+  try {
+    return { ...defaults, ...JSON.parse(localStorage.getItem('translate-docx-mt') || '{}') }
+  }
+  catch {
+    return defaults
+  }
+}
+
+function saveMtSettings(settings: MtSettings) {
+  try {
+    localStorage.setItem('translate-docx-mt', JSON.stringify(settings))
+  }
+  catch {
+    // ignore
+  }
+}
+
+function getSavedBatchOptions(): BatchOptions {
+  const defaults: BatchOptions = { budget: 3000, unit: 'tokens' }
+  try {
+    return { ...defaults, ...JSON.parse(localStorage.getItem('translate-docx-batch') || '{}') }
+  }
+  catch {
+    return defaults
+  }
+}
+
+function saveBatchOptions(options: BatchOptions) {
+  try {
+    localStorage.setItem('translate-docx-batch', JSON.stringify(options))
+  }
+  catch {
+    // ignore
+  }
+}
+
+function getSavedFontOverrides(): Record<string, FontMapping> {
+  try {
+    return JSON.parse(localStorage.getItem('translate-docx-fonts') || '{}')
+  }
+  catch {
+    return {}
+  }
+}
+
+function saveFontOverrides(overrides: Record<string, FontMapping>) {
+  try {
+    localStorage.setItem('translate-docx-fonts', JSON.stringify(overrides))
+  }
+  catch {
+    // ignore
+  }
+}
+
+// Labels of the w:rFonts slots in the font settings
+const FONT_SLOT_LABELS: Record<FontSlot, string> = {
+  ascii: 'Latin',
+  hAnsi: 'Latin (other characters)',
+  eastAsia: 'East Asian',
+  cs: 'Complex script',
+}
+
 const App: Component = () => {
   const [state, setState] = createSignal<AppState>('upload')
   const [file, setFile] = createSignal<File | null>(null)
   const [docxFiles, setDocxFiles] = createSignal<Record<string, Uint8Array> | null>(null)
   const [segments, setSegments] = createSignal<ParagraphSegment[]>([])
   const [isDragging, setIsDragging] = createSignal(false)
-  const [copied, setCopied] = createSignal(false)
-  const [translatedText, setTranslatedText] = createSignal('')
+  const [copiedBatch, setCopiedBatch] = createSignal<number | null>(null)
+  // Pasted translation of each batch
+  const [batchTexts, setBatchTexts] = createSignal<string[]>([])
+  const [batchOptions, setBatchOptions] = createSignal(getSavedBatchOptions())
+  // Last merge of each paste box into the store
+  const [batchResults, setBatchResults] = createSignal<(MergeResult | undefined)[]>([])
+  // All translations so far, accumulated over every paste
+  const [store, setStore] = createSignal<TranslationStore>(new Map())
+  const [conflicts, setConflicts] = createSignal<TranslationConflict[]>([])
   const [error, setError] = createSignal<string | null>(null)
   const [targetLang, setTargetLang] = createSignal(getSavedLanguage())
-
-  // Page/range selection (0-indexed, end is exclusive)
-  const [startParagraph, setStartParagraph] = createSignal(0)
-  const [endParagraph, setEndParagraph] = createSignal(0)
+  const [sourceLang, setSourceLang] = createSignal(getSavedLanguage('translate-docx-source-lang', 'en'))
+  // The memory is updated in place, so every set must notify
+  const [memory, setMemory] = createSignal<TranslationMemory>(createTranslationMemory(), { equals: false })
+  const [memoryMatches, setMemoryMatches] = createSignal({ exact: 0, fuzzy: 0 })
+  const [glossaryFile, setGlossaryFile] = createSignal<{ name: string, content: string } | null>(null)
+  const [glossaryIssues, setGlossaryIssues] = createSignal<GlossaryIssue[]>([])
+  const [mtSettings, setMtSettings] = createSignal(getSavedMtSettings())
+  const [fontOverrides, setFontOverrides] = createSignal(getSavedFontOverrides())
+  const [trackChanges, setTrackChanges] = createSignal(false)
+  const [revisionAuthor, setRevisionAuthor] = createSignal('Translator')
+  const [mtProgress, setMtProgress] = createSignal<MtProgress | null>(null)
+  const [mtAbort, setMtAbort] = createSignal<AbortController | null>(null)
+  const [includeProperties, setIncludeProperties] = createSignal(true)
+  const [includeAltText, setIncludeAltText] = createSignal(true)
+  // One segment per sentence instead of per paragraph
+  const [splitSentences, setSplitSentences] = createSignal(false)
+  // How the tracked changes of the document were resolved, injection does the same
+  const [revisionHandling, setRevisionHandling] = createSignal<RevisionHandling>('fail')
+  // A document with tracked changes, waiting for the user to accept or reject them
+  const [pendingRevisions, setPendingRevisions] = createSignal<{ file: File, count: number } | null>(null)
 
   const handleLanguageChange = (lang: string) => {
     setTargetLang(lang)
     saveLanguage(lang)
   }
 
+  const handleSourceLanguageChange = (lang: string) => {
+    setSourceLang(lang)
+    saveLanguage(lang, 'translate-docx-source-lang')
+  }
+
+  onMount(async () => {
+    try {
+      setMemory(await loadMemory())
+    }
+    catch {
+      // IndexedDB is unavailable (e.g. private browsing), keep the memory for this session only
+    }
+  })
+
+  // Fonts of the target language, defaults with the user's changes
+  const fonts = createMemo(() => getFontMapping(targetLang(), fontOverrides()))
+
+  const updateFont = (slot: FontSlot, font: string) => {
+    const overrides = { ...fontOverrides() }
+    overrides[targetLang()] = { ...overrides[targetLang()], [slot]: font.trim() }
+    setFontOverrides(overrides)
+    saveFontOverrides(overrides)
+  }
+
+  const memoryEntryCount = createMemo(() => getPairEntries(memory(), sourceLang(), targetLang()).length)
+
   const getLanguageName = () => {
     return LANGUAGES.find(l => l.code === targetLang())?.name || 'Hungarian'
   }
 
-  const getPrompt = () => {
-    return `Translate the following text to ${getLanguageName()}. Keep the [pN] markers exactly as they are, only reply with the translated text, and keep all formating the same.`
+  // Glossary entries for the selected language pair
+  const glossary = createMemo(() => {
+    const glossaryContent = glossaryFile()?.content
+    return glossaryContent
+      ? parseGlossary(glossaryContent, { sourceLanguage: sourceLang(), targetLanguage: targetLang() })
+      : []
+  })
+
+  // Prompt for a batch, with the glossary terms that appear in it
+  const getPrompt = (batch: ParagraphSegment[]) => {
+    const prompt = buildTranslationPrompt(getLanguageName())
+    const terms = findGlossaryTerms(glossary(), batch.map(seg => seg.text))
+    return terms.length > 0 ? `${prompt}\n\n${formatGlossaryPrompt(terms)}` : prompt
   }
 
-  // Filtered segments based on range
-  const filteredSegments = createMemo(() => {
-    const all = segments()
-    return all.slice(startParagraph(), endParagraph())
-  })
+  // Segments pre-filled from the translation memory
+  const prefilledSegments = createMemo(() => segments().filter(seg => seg.translation))
 
-  // Format segments as [pN]\ntext\n for LLM
-  const formattedText = createMemo(() => {
-    return filteredSegments()
-      .map(seg => `[${seg.id}]\n${seg.text}\n`)
-      .join('\n')
-  })
+  // Segments with fuzzy suggestions from the translation memory
+  const suggestedSegments = createMemo(() => segments().filter(seg => seg.suggestions?.length))
+
+  // Segments left to translate, split into batches that fit the budget
+  const batches = createMemo(() => splitIntoBatches(segments().filter(seg => !seg.translation), batchOptions()))
+
+  const updateBatchOptions = (changes: Partial<BatchOptions>) => {
+    const options = { ...batchOptions(), ...changes }
+    setBatchOptions(options)
+    saveBatchOptions(options)
+  }
+
+  const setBatchText = (index: number, text: string) => {
+    setBatchTexts((texts) => {
+      const next = [...texts]
+      next[index] = text
+      return next
+    })
+  }
+
+  // Batches can only be resized before anything is pasted, the pasted text belongs to its batch
+  const hasPastedText = createMemo(() => batchTexts().some(text => text?.trim()))
 
   const handleDrop = (e: DragEvent) => {
     e.preventDefault()
@@ -106,33 +283,45 @@ const App: Component = () => {
     }
   }
 
-  const processFile = async (uploadedFile: File) => {
+  const processFile = async (uploadedFile: File, revisions: RevisionHandling = 'fail') => {
     setError(null)
+    setPendingRevisions(null)
     setFile(uploadedFile)
 
     try {
       // Extract DOCX
       const files = await extractDocxFromFile(uploadedFile)
-      setDocxFiles(files)
 
-      // Get translatable files
-      const translatableFiles = getTranslatableFiles(files)
+      // Tracked changes must be accepted or rejected before the text can be segmented
+      const revised = findRevisions(files)
+      if (revised.length > 0 && revisions === 'fail') {
+        setPendingRevisions({ file: uploadedFile, count: revised.reduce((sum, part) => sum + part.count, 0) })
+        return
+      }
+      setDocxFiles(files)
+      setRevisionHandling(revisions)
 
       // Extract all segments
-      const allSegments: ParagraphSegment[] = []
-      let nextId = 0
-
-      for (const filePath of translatableFiles) {
-        const xml = getXmlContent(files, filePath)
-        const result = extractParagraphSegments(xml, filePath, nextId)
-        allSegments.push(...result.segments)
-        nextId = result.nextId
-      }
+      const allSegments = extractSegments(files, {
+        properties: includeProperties(),
+        altText: includeAltText(),
+        revisions,
+        segmentation: splitSentences() ? 'sentence' : 'paragraph',
+        sourceLanguage: sourceLang(),
+      })
+
+      // Pre-fill exact matches and attach fuzzy suggestions
+      setMemoryMatches(applyMemory(allSegments, memory(), sourceLang(), targetLang()))
+
+      const prefilled = new Map(allSegments
+        .filter(seg => seg.translation)
+        .map(seg => [seg.id, seg.translation!]))
 
       setSegments(allSegments)
-      // Default to all paragraphs (0-indexed)
-      setStartParagraph(0)
-      setEndParagraph(allSegments.length)
+      setStore(mergeTranslations(new Map(), prefilled, MEMORY_ORIGIN).store)
+      setConflicts([])
+      setBatchTexts([])
+      setBatchResults([])
       setState('extracted')
     }
     catch (err) {
@@ -140,81 +329,172 @@ const App: Component = () => {
     }
   }
 
-  const copyToClipboard = async () => {
+  const copyToClipboard = async (index: number) => {
     try {
-      const textToCopy = `${getPrompt()}\n\n${formattedText()}`
+      const batch = batches()[index]!
+      const textToCopy = `${getPrompt(batch)}\n\n${formatTxt(batch)}`
       await navigator.clipboard.writeText(textToCopy)
-      setCopied(true)
-      setTimeout(() => setCopied(false), 2000)
+      setCopiedBatch(index)
+      setTimeout(() => setCopiedBatch(current => current === index ? null : current), 2000)
     }
     catch {
       setError('Failed to copy to clipboard')
     }
   }
 
-  const parseTxtTranslations = (content: string): Map<string, string> => {
-    const translations = new Map<string, string>()
-    const lines = content.split('\n')
+  // Parse a pasted translation, either [pN] blocks or a returned XLIFF or PO file
+  const parseTranslations = (translated: string) => {
+    return isXliff(translated)
+      ? parseXliff(translated).translations
+      : isPo(translated) ? parsePo(translated).translations : parseTxtTranslations(translated)
+  }
+
+  // Pasted translations are trimmed, they get the whitespace around their source back
+  const translations = createMemo(() => restoreOuterWhitespace(segments(), getStoreTranslations(store())))
 
-    let currentId: string | null = null
-    let currentText: string[] = []
+  const coverage = createMemo(() => getCoverage(segments(), store()))
 
-    for (const line of lines) {
-      const idMatch = line.match(/^\[(p\d+)\]$/)
-      if (idMatch) {
-        if (currentId !== null && currentText.length > 0) {
-          translations.set(currentId, currentText.join('\n').trim())
-        }
-        currentId = idMatch[1]!
-        currentText = []
-      }
-      else if (currentId !== null) {
-        currentText.push(line)
-      }
+  // Merge the text of a paste box into the store
+  const mergeBatchText = (index: number) => {
+    const text = batchTexts()[index]
+    if (!text?.trim()) {
+      return
+    }
+
+    let incoming: Map<string, string>
+    try {
+      incoming = parseTranslations(text)
+    }
+    catch (err) {
+      setError(`Failed to read batch ${index + 1}: ${err instanceof Error ? err.message : 'Unknown error'}`)
+      return
+    }
+
+    const result = mergeTranslations(store(), incoming, `Batch ${index + 1}`, {
+      knownIds: new Set(segments().map(seg => seg.id)),
+      weakOrigins: [MEMORY_ORIGIN],
+    })
+    setStore(result.store)
+    setBatchResults((results) => {
+      const next = [...results]
+      next[index] = result
+      return next
+    })
+    // A newer translation of a segment replaces its open conflict
+    setConflicts(current => [...current.filter(c => !result.updated.includes(c.id)), ...result.conflicts])
+  }
+
+  const resolveConflict = (conflict: TranslationConflict, keepPrevious: boolean) => {
+    if (keepPrevious) {
+      const next = new Map(store())
+      next.set(conflict.id, conflict.previous)
+      setStore(next)
+    }
+    setConflicts(current => current.filter(c => c !== conflict))
+  }
+
+  // Number of translated segments of a batch
+  const translatedInBatch = (batch: ParagraphSegment[]) => {
+    return batch.filter(seg => translations().get(seg.id)?.trim()).length
+  }
+
+  const finishedBatchCount = createMemo(() => batches().filter(batch => translatedInBatch(batch) === batch.length).length)
+
+  // QA problems of the pasted translations, by segment
+  const qaIssues = createMemo(() => groupQaIssues(runQaChecks(segments(), translations())))
+
+  // Whether there is anything to inject
+  const hasTranslations = createMemo(() => [...translations().values()].some(text => text.trim()))
+
+  const updateMtSettings = (changes: Partial<MtSettings>) => {
+    const settings = { ...mtSettings(), ...changes }
+    setMtSettings(settings)
+    saveMtSettings(settings)
+  }
+
+  // Translate the batches through the API and put the replies in their paste boxes as [pN] blocks
+  // Paragraphs already pasted are kept, so translating again only retries the missing ones
+  const translateWithApi = async () => {
+    const existing = translations()
+    const pending = batches().flat().filter(seg => !existing.get(seg.id)?.trim())
+    const settings = mtSettings()
+    if (!settings.endpoint || !settings.model) {
+      setError('Please set the API endpoint and model first')
+      return
     }
 
-    if (currentId !== null && currentText.length > 0) {
-      translations.set(currentId, currentText.join('\n').trim())
+    const showTranslations = (received: Map<string, string>) => {
+      const merged = new Map([...existing, ...received])
+      batches().forEach((batch, index) => {
+        const text = formatTxt(batch
+          .filter(seg => merged.has(seg.id))
+          .map(seg => ({ ...seg, text: merged.get(seg.id)! })))
+        if (text && text !== batchTexts()[index]) {
+          setBatchText(index, text)
+          mergeBatchText(index)
+        }
+      })
     }
 
-    return translations
+    const abort = new AbortController()
+    setMtAbort(abort)
+    setError(null)
+    setMtProgress({ done: 0, total: pending.length, translations: new Map() })
+
+    try {
+      const result = await translateSegments(pending, {
+        endpoint: settings.endpoint,
+        model: settings.model,
+        apiKey: settings.apiKey || undefined,
+        prompt: getPrompt(pending),
+        signal: abort.signal,
+        onProgress: (progress) => {
+          setMtProgress({ ...progress })
+          showTranslations(progress.translations)
+        },
+      })
+      showTranslations(result.translations)
+      if (result.failed.length > 0 && !abort.signal.aborted) {
+        setError(`${result.failed.length} paragraphs could not be translated (${result.errors[0] ?? 'incomplete reply'}). Translate again to retry them.`)
+      }
+    }
+    catch (err) {
+      setError(`Failed to translate: ${err instanceof Error ? err.message : 'Unknown error'}`)
+    }
+    finally {
+      setMtAbort(null)
+    }
   }
 
   const injectTranslations = async () => {
-    const files = docxFiles()
+    const originalFiles = docxFiles()
     const originalSegments = segments()
-    const translated = translatedText()
 
-    if (!files || !translated.trim()) {
+    if (!originalFiles || !hasTranslations()) {
       setError('Please paste the translated text first')
       return
     }
 
     try {
-      // Parse the translated text
-      const idToTranslation = parseTxtTranslations(translated)
-
-      // Build original text -> translated text mapping
-      const textMap = new Map<string, string>()
-      for (const segment of originalSegments) {
-        const translation = idToTranslation.get(segment.id)
-        if (translation && translation.trim().length > 0) {
-          textMap.set(segment.text, translation)
-        }
-      }
+      const idToTranslation = translations()
+
+      const translatedCount = originalSegments
+        .filter(segment => idToTranslation.get(segment.id)?.trim())
+        .length
 
-      if (textMap.size === 0) {
+      if (translatedCount === 0) {
         setError('No translations found. Make sure the format is [pN]\\ntext\\n')
         return
       }
 
-      // Get translatable files and replace text
-      const translatableFiles = getTranslatableFiles(files)
-      for (const filePath of translatableFiles) {
-        const xml = getXmlContent(files, filePath)
-        const newXml = replaceParagraphText(xml, textMap)
-        setXmlContent(files, filePath, newXml)
-      }
+      // Replace text in a copy of the files, so every download starts from the original document
+      const files = Object.fromEntries(Object.entries(originalFiles).map(([path, data]) => [path, data.slice()]))
+      const result = injectIntoDocx(files, originalSegments, idToTranslation, {
+        targetLanguage: targetLang(),
+        fonts: fontOverrides(),
+        trackChanges: trackChanges() ? { author: revisionAuthor() } : undefined,
+        revisions: revisionHandling(),
+      })
 
       // Create and download the new DOCX
       const newDocx = await createDocxBytes(files)
@@ -222,6 +502,17 @@ const App: Component = () => {
       const newName = originalName.replace('.docx', '_translated.docx')
       downloadFile(newDocx, newName)
 
+      // Report terms that are not translated as the glossary requires
+      setGlossaryIssues(checkGlossary(originalSegments, idToTranslation, glossary()))
+
+      // Remember the confirmed translations
+      const tm = memory()
+      addToMemory(tm, sourceLang(), targetLang(), originalSegments
+        .filter(segment => !result.mismatched.includes(segment.id))
+        .map(segment => ({ source: segment.text, target: idToTranslation.get(segment.id) ?? '' })))
+      setMemory(tm)
+      await saveMemory(tm)
+
       // Reset state
       setState('ready-to-inject')
     }
@@ -230,16 +521,109 @@ const App: Component = () => {
     }
   }
 
+  const downloadXliff = (version: XliffVersion) => {
+    const originalName = file()?.name || 'document.docx'
+    const xliff = formatXliff(segments(), {
+      version,
+      originalFile: originalName,
+      targetLanguage: targetLang(),
+    })
+    downloadFile(xliff, originalName.replace('.docx', '.xlf'), 'application/xliff+xml')
+  }
+
+  const downloadPo = () => {
+    const originalName = file()?.name || 'document.docx'
+    const po = formatPo(segments(), {
+      originalFile: originalName,
+      targetLanguage: targetLang(),
+    })
+    downloadFile(po, originalName.replace('.docx', '.po'), 'text/x-gettext-translation')
+  }
+
+  const downloadBilingual = async () => {
+    const originalName = file()?.name || 'document.docx'
+    const bilingual = createBilingualDocx(segments(), translations(), {
+      originalFile: originalName,
+      sourceLanguage: sourceLang(),
+      targetLanguage: targetLang(),
+    })
+    downloadFile(await createDocxBytes(bilingual), originalName.replace('.docx', '_bilingual.docx'))
+  }
+
+  const handleBilingualInput = async (e: Event) => {
+    const input = e.target as HTMLInputElement
+    const selectedFile = input.files?.[0]
+    input.value = ''
+    if (!selectedFile) {
+      return
+    }
+
+    try {
+      const incoming = parseBilingualDocx(await extractDocxFromFile(selectedFile))
+      const result = mergeTranslations(store(), incoming, REVIEW_ORIGIN, {
+        knownIds: new Set(segments().map(seg => seg.id)),
+        weakOrigins: [MEMORY_ORIGIN],
+      })
+      setStore(result.store)
+      setConflicts(current => [...current.filter(c => !result.updated.includes(c.id)), ...result.conflicts])
+      setError(incoming.size === 0 ? 'The DOCX does not contain any reviewed translations' : null)
+    }
+    catch (err) {
+      setError(`Failed to import the bilingual DOCX: ${err instanceof Error ? err.message : 'Unknown error'}`)
+    }
+  }
+
+  const downloadTmx = () => {
+    const tmx = formatTmx(memory(), sourceLang(), targetLang())
+    downloadFile(tmx, `translation-memory-${sourceLang()}-${targetLang()}.tmx`, 'application/x-tmx+xml')
+  }
+
+  const handleTmxInput = async (e: Event) => {
+    const input = e.target as HTMLInputElement
+    const selectedFile = input.files?.[0]
+    input.value = ''
+    if (!selectedFile) {
+      return
+    }
+
+    try {
+      const tm = memory()
+      const changed = importTmx(tm, await selectedFile.text())
+      setMemory(tm)
+      await saveMemory(tm)
+      setError(changed === 0 ? 'The TMX file did not contain any new translations' : null)
+    }
+    catch (err) {
+      setError(`Failed to import TMX: ${err instanceof Error ? err.message : 'Unknown error'}`)
+    }
+  }
+
+  const handleGlossaryInput = async (e: Event) => {
+    const input = e.target as HTMLInputElement
+    const selectedFile = input.files?.[0]
+    input.value = ''
+    if (selectedFile) {
+      setGlossaryFile({ name: selectedFile.name, content: await selectedFile.text() })
+    }
+  }
+
   const reset = () => {
     setState('upload')
     setFile(null)
     setDocxFiles(null)
     setSegments([])
-    setTranslatedText('')
+    setBatchTexts([])
+    setBatchResults([])
+    setStore(new Map())
+    setConflicts([])
     setError(null)
-    setCopied(false)
-    setStartParagraph(0)
-    setEndParagraph(0)
+    setCopiedBatch(null)
+    setMemoryMatches({ exact: 0, fuzzy: 0 })
+    setGlossaryIssues([])
+    setRevisionHandling('fail')
+    setPendingRevisions(null)
+    mtAbort()?.abort()
+    setMtProgress(null)
   }
 
   const formatFileSize = (bytes: number) => {
@@ -250,17 +634,6 @@ const App: Component = () => {
     return `${(bytes / (1024 * 1024)).toFixed(1)} MB`
   }
 
-  // Quick select buttons
-  const selectAll = () => {
-    setStartParagraph(0)
-    setEndParagraph(segments().length)
-  }
-
-  const selectFirst = (n: number) => {
-    setStartParagraph(0)
-    setEndParagraph(Math.min(n, segments().length))
-  }
-
   return (
     <div class="min-h-screen">
       {/* Header */}
@@ -301,7 +674,22 @@ const App: Component = () => {
             </p>
           </div>
 
-          {/* Language selector */}
+          {/* Language selectors */}
+          <div class="mb-6">
+            <label class="block text-sm font-medium text-gray-700 mb-2">Translate from</label>
+            <select
+              value={sourceLang()}
+              onChange={e => handleSourceLanguageChange(e.currentTarget.value)}
+              class="w-full border border-gray-300 rounded-lg px-4 py-2.5 text-gray-900 bg-white focus:outline-none focus:ring-2 focus:ring-gray-900 focus:border-transparent"
+            >
+              <For each={LANGUAGES}>
+                {lang => (
+                  <option value={lang.code}>{lang.name}</option>
+                )}
+              </For>
+            </select>
+          </div>
+
           <div class="mb-6">
             <label class="block text-sm font-medium text-gray-700 mb-2">Translate to</label>
             <select
@@ -317,6 +705,116 @@ const App: Component = () => {
             </select>
           </div>
 
+          {/* Extra segment kinds */}
+          <div class="mb-6 flex flex-wrap gap-6">
+            <label class="flex items-center gap-2 text-sm text-gray-700">
+              <input
+                type="checkbox"
+                checked={includeProperties()}
+                onChange={e => setIncludeProperties(e.currentTarget.checked)}
+              />
+              Document properties (title, subject, keywords)
+            </label>
+            <label class="flex items-center gap-2 text-sm text-gray-700">
+              <input
+                type="checkbox"
+                checked={includeAltText()}
+                onChange={e => setIncludeAltText(e.currentTarget.checked)}
+              />
+              Image alt text
+            </label>
+            <label class="flex items-center gap-2 text-sm text-gray-700">
+              <input
+                type="checkbox"
+                checked={splitSentences()}
+                onChange={e => setSplitSentences(e.currentTarget.checked)}
+              />
+              Split paragraphs into sentences
+            </label>
+          </div>
+
+          {/* Translation memory */}
+          <div class="mb-6 flex flex-wrap items-center gap-2">
+            <span class="text-sm text-gray-700">
+              Translation memory:
+              {' '}
+              {memoryEntryCount()}
+              {' '}
+              entries for this language pair
+            </span>
+            <button
+              onClick={downloadTmx}
+              disabled={memoryEntryCount() === 0}
+              class="px-3 py-1.5 text-sm bg-gray-100 hover:bg-gray-200 rounded-lg transition-colors disabled:opacity-50"
+            >
+              Export TMX
+            </button>
+            <label class="px-3 py-1.5 text-sm bg-gray-100 hover:bg-gray-200 rounded-lg transition-colors cursor-pointer">
+              Import TMX
+              <input type="file" accept=".tmx" onChange={handleTmxInput} class="hidden" />
+            </label>
+          </div>
+
+          {/* Glossary */}
+          <div class="mb-6 flex flex-wrap items-center gap-2">
+            <span class="text-sm text-gray-700">
+              Glossary:
+              {' '}
+              {glossaryFile() ? `${glossaryFile()!.name} (${glossary().length} terms)` : 'none'}
+            </span>
+            <label class="px-3 py-1.5 text-sm bg-gray-100 hover:bg-gray-200 rounded-lg transition-colors cursor-pointer">
+              Load CSV or TBX
+              <input type="file" accept=".csv,.tsv,.tbx" onChange={handleGlossaryInput} class="hidden" />
+            </label>
+            <Show when={glossaryFile()}>
+              <button
+                onClick={() => setGlossaryFile(null)}
+                class="px-3 py-1.5 text-sm bg-gray-100 hover:bg-gray-200 rounded-lg transition-colors"
+              >
+                Remove
+              </button>
+            </Show>
+          </div>
+
+          {/* Tracked changes in the uploaded document */}
+          <Show when={pendingRevisions()}>
+            {pending => (
+              <div class="mb-6 p-4 bg-yellow-50 border border-yellow-200 rounded-lg text-sm text-yellow-800">
+                <p class="mb-3">
+                  {pending().file.name}
+                  {' '}
+                  has
+                  {' '}
+                  {pending().count}
+                  {' '}
+                  tracked changes. Accept or reject them all before extracting the text; the translated document
+                  {' '}
+                  will have them resolved the same way.
+                </p>
+                <div class="flex flex-wrap gap-2">
+                  <button
+                    onClick={() => processFile(pending().file, 'accept')}
+                    class="px-3 py-1.5 bg-gray-900 text-white rounded-lg hover:bg-gray-800 transition-colors"
+                  >
+                    Accept all
+                  </button>
+                  <button
+                    onClick={() => processFile(pending().file, 'reject')}
+                    class="px-3 py-1.5 bg-gray-100 hover:bg-gray-200 rounded-lg transition-colors"
+                  >
+                    Reject all
+                  </button>
+                  <button
+                    onClick={() => setPendingRevisions(null)}
+                    class="px-3 py-1.5 bg-gray-100 hover:bg-gray-200 rounded-lg transition-colors"
+                  >
+                    Cancel
+                  </button>
+                </div>
+              </div>
+            )}
+          </Show>
+
           <div
             class={`drop-zone relative border-2 border-dashed rounded-xl p-12 text-center cursor-pointer ${
               isDragging() ? 'dragging border-gray-900' : 'border-gray-300'
@@ -369,99 +867,158 @@ const App: Component = () => {
               </div>
             </div>
 
-            {/* Paragraph range selector */}
+            {/* Batch size and progress */}
             <div class="bg-white border border-gray-200 rounded-xl p-6">
               <h2 class="font-semibold text-gray-900 mb-4">
-                Select paragraphs to translate
+                Batches
               </h2>
 
-              <div class="flex flex-wrap items-center gap-4 mb-4">
-                <div class="flex items-center gap-2">
-                  <label class="text-sm text-gray-600">From</label>
-                  <input
-                    type="number"
-                    min={0}
-                    max={segments().length - 1}
-                    value={startParagraph()}
-                    onInput={(e: InputEvent & { currentTarget: HTMLInputElement }) => {
-                      const val = Number.parseInt(e.currentTarget.value) || 0
-                      setStartParagraph(Math.max(0, Math.min(val, segments().length - 1)))
-                      if (val >= endParagraph())
-                        setEndParagraph(val + 1)
-                    }}
-                    class="w-20 px-3 py-1.5 border border-gray-300 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-gray-900"
-                  />
-                </div>
-                <div class="flex items-center gap-2">
-                  <label class="text-sm text-gray-600">to</label>
-                  <input
-                    type="number"
-                    min={1}
-                    max={segments().length}
-                    value={endParagraph()}
-                    onInput={(e: InputEvent & { currentTarget: HTMLInputElement }) => {
-                      const val = Number.parseInt(e.currentTarget.value) || 1
-                      setEndParagraph(Math.max(startParagraph() + 1, Math.min(val, segments().length)))
-                    }}
-                    class="w-20 px-3 py-1.5 border border-gray-300 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-gray-900"
-                  />
-                </div>
-                <span class="text-sm text-gray-500">
-                  (
-                  {filteredSegments().length}
-                  {' '}
-                  paragraphs selected)
-                </span>
+              <div class="flex flex-wrap items-center gap-2 mb-4">
+                <label class="text-sm text-gray-600">Split into batches of at most</label>
+                <input
+                  type="number"
+                  min={100}
+                  step={100}
+                  value={batchOptions().budget}
+                  disabled={hasPastedText()}
+                  onChange={(e) => {
+                    const budget = Number.parseInt(e.currentTarget.value)
+                    if (budget > 0)
+                      updateBatchOptions({ budget })
+                  }}
+                  class="w-24 px-3 py-1.5 border border-gray-300 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-gray-900 disabled:opacity-50"
+                />
+                <select
+                  value={batchOptions().unit}
+                  disabled={hasPastedText()}
+                  onChange={e => updateBatchOptions({ unit: e.currentTarget.value as BatchOptions['unit'] })}
+                  class="px-3 py-1.5 border border-gray-300 rounded-lg text-sm bg-white focus:outline-none focus:ring-2 focus:ring-gray-900 disabled:opacity-50"
+                >
+                  <option value="tokens">tokens</option>
+                  <option value="chars">characters</option>
+                </select>
+                <Show when={hasPastedText()}>
+                  <span class="text-xs text-gray-500">(fixed once translations are pasted)</span>
+                </Show>
               </div>
 
-              {/* Quick select buttons */}
-              <div class="flex flex-wrap gap-2">
-                <button
-                  onClick={selectAll}
-                  class="px-3 py-1.5 text-sm bg-gray-100 hover:bg-gray-200 rounded-lg transition-colors"
-                >
-                  All
-                </button>
+              <p class="text-sm text-gray-500 mb-2">
+                {coverage().translated}
+                {' of '}
+                {coverage().total}
+                {' paragraphs translated ('}
+                {coverage().total > 0 ? Math.round(coverage().translated / coverage().total * 100) : 0}
+                {'%), '}
+                {finishedBatchCount()}
+                {' of '}
+                {batches().length}
+                {' '}
+                batches done
+              </p>
+              <div class="h-2 mb-3 bg-gray-100 rounded-full overflow-hidden">
+                <div
+                  class="h-full bg-green-500 transition-all"
+                  style={{ width: `${coverage().total > 0 ? coverage().translated / coverage().total * 100 : 0}%` }}
+                />
+              </div>
+              <div class="flex flex-wrap gap-1">
+                <Index each={batches()}>
+                  {(batch, index) => (
+                    <span
+                      title={`Batch ${index + 1}: ${translatedInBatch(batch())} of ${batch().length} paragraphs translated`}
+                      class={`w-6 h-2 rounded-full ${
+                        translatedInBatch(batch()) === batch().length
+                          ? 'bg-green-500'
+                          : translatedInBatch(batch()) > 0 ? 'bg-yellow-400' : 'bg-gray-200'
+                      }`}
+                    />
+                  )}
+                </Index>
+              </div>
+            </div>
+
+            {/* Step 1: Copy text */}
+            <div class="bg-white border border-gray-200 rounded-xl p-6">
+              <h2 class="font-semibold text-gray-900 mb-2">
+                Step 1: Copy a batch
+              </h2>
+              <p class="text-sm text-gray-500">
+                Each batch below has its own copy button and paste box. Translate them one by one, they are merged into one document.
+              </p>
+              <Show when={memoryMatches().exact > 0 || memoryMatches().fuzzy > 0}>
+                <p class="text-sm text-gray-500 mt-4">
+                  {prefilledSegments().length}
+                  {' '}
+                  paragraphs were translated from the translation memory and are left out of the batches.
+                </p>
+              </Show>
+              <Show when={suggestedSegments().length > 0}>
+                <details class="mt-4 text-sm">
+                  <summary class="text-gray-700 cursor-pointer">
+                    {suggestedSegments().length}
+                    {' '}
+                    paragraphs have similar translations in the memory
+                  </summary>
+                  <div class="mt-2 space-y-3 max-h-64 overflow-auto">
+                    <For each={suggestedSegments()}>
+                      {seg => (
+                        <div class="p-3 bg-gray-50 rounded-lg">
+                          <p class="font-mono text-gray-500">
+                            [
+                            {seg.id}
+                            ]
+                            {' '}
+                            {seg.text}
+                          </p>
+                          <For each={seg.suggestions}>
+                            {suggestion => (
+                              <p class="mt-1 text-gray-700">
+                                {Math.round(suggestion.score * 100)}
+                                %:
+                                {' '}
+                                {suggestion.translation}
+                              </p>
+                            )}
+                          </For>
+                        </div>
+                      )}
+                    </For>
+                  </div>
+                </details>
+              </Show>
+              <div class="flex flex-wrap items-center gap-2 mt-4">
+                <span class="text-sm text-gray-500">Using a CAT tool or Poedit?</span>
                 <button
-                  onClick={() => selectFirst(10)}
+                  onClick={() => downloadXliff('1.2')}
                   class="px-3 py-1.5 text-sm bg-gray-100 hover:bg-gray-200 rounded-lg transition-colors"
                 >
-                  First 10
+                  Download XLIFF 1.2
                 </button>
                 <button
-                  onClick={() => selectFirst(25)}
+                  onClick={() => downloadXliff('2.0')}
                   class="px-3 py-1.5 text-sm bg-gray-100 hover:bg-gray-200 rounded-lg transition-colors"
                 >
-                  First 25
+                  Download XLIFF 2.0
                 </button>
                 <button
-                  onClick={() => selectFirst(50)}
+                  onClick={downloadPo}
                   class="px-3 py-1.5 text-sm bg-gray-100 hover:bg-gray-200 rounded-lg transition-colors"
                 >
-                  First 50
+                  Download PO
                 </button>
               </div>
-            </div>
-
-            {/* Step 1: Copy text */}
-            <div class="bg-white border border-gray-200 rounded-xl p-6">
-              <div class="flex items-center justify-between mb-4">
-                <h2 class="font-semibold text-gray-900">
-                  Step 1: Copy the text below
-                </h2>
+              <div class="flex flex-wrap items-center gap-2 mt-2">
+                <span class="text-sm text-gray-500">Reviewing side by side?</span>
                 <button
-                  onClick={copyToClipboard}
-                  class={`px-4 py-2 rounded-lg text-sm font-medium transition-colors ${
-                    copied()
-                      ? 'bg-green-100 text-green-700'
-                      : 'bg-gray-900 text-white hover:bg-gray-800'
-                  }`}
+                  onClick={downloadBilingual}
+                  class="px-3 py-1.5 text-sm bg-gray-100 hover:bg-gray-200 rounded-lg transition-colors"
                 >
-                  {copied() ? '✓ Copied!' : 'Copy to clipboard'}
+                  Download bilingual DOCX
                 </button>
-              </div>
-              <div class="bg-gray-50 rounded-lg p-4 max-h-64 overflow-auto font-mono text-sm text-gray-700 whitespace-pre-wrap">
-                {formattedText()}
+                <label class="px-3 py-1.5 text-sm bg-gray-100 hover:bg-gray-200 rounded-lg transition-colors cursor-pointer">
+                  Import reviewed DOCX
+                  <input type="file" accept=".docx" onChange={handleBilingualInput} class="hidden" />
+                </label>
               </div>
             </div>
 
@@ -471,34 +1028,259 @@ const App: Component = () => {
                 Step 2: Paste in your LLM
               </h2>
               <p class="text-sm text-gray-500">
-                The clipboard contains the prompt and text. Just paste it into your LLM.
+                The clipboard contains the prompt and the text of the batch. Just paste it into your LLM.
               </p>
+
+              <details class="mt-4">
+                <summary class="text-sm text-gray-700 cursor-pointer">
+                  Or translate through an OpenAI-compatible API (OpenAI, llama.cpp, Ollama)
+                </summary>
+                <div class="mt-4 grid gap-3 sm:grid-cols-3">
+                  <input
+                    type="url"
+                    value={mtSettings().endpoint}
+                    onChange={e => updateMtSettings({ endpoint: e.currentTarget.value })}
+                    placeholder="http://localhost:11434/v1"
+                    class="px-3 py-1.5 border border-gray-300 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-gray-900"
+                  />
+                  <input
+                    type="text"
+                    value={mtSettings().model}
+                    onChange={e => updateMtSettings({ model: e.currentTarget.value })}
+                    placeholder="Model"
+                    class="px-3 py-1.5 border border-gray-300 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-gray-900"
+                  />
+                  <input
+                    type="password"
+                    value={mtSettings().apiKey}
+                    onChange={e => updateMtSettings({ apiKey: e.currentTarget.value })}
+                    placeholder="API key (optional)"
+                    class="px-3 py-1.5 border border-gray-300 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-gray-900"
+                  />
+                </div>
+                <p class="mt-2 text-xs text-gray-500">
+                  The endpoint must allow requests from this page (CORS), e.g. OLLAMA_ORIGINS for Ollama.
+                </p>
+                <div class="mt-4 flex items-center gap-3">
+                  <Show
+                    when={mtAbort()}
+                    fallback={(
+                      <button
+                        onClick={translateWithApi}
+                        class="px-4 py-2 rounded-lg text-sm font-medium bg-gray-900 text-white hover:bg-gray-800 transition-colors"
+                      >
+                        Translate
+                      </button>
+                    )}
+                  >
+                    <button
+                      onClick={() => mtAbort()?.abort()}
+                      class="px-4 py-2 rounded-lg text-sm font-medium bg-gray-100 hover:bg-gray-200 transition-colors"
+                    >
+                      Cancel
+                    </button>
+                  </Show>
+                  <Show when={mtProgress()}>
+                    <span class="text-sm text-gray-500">
+                      {mtProgress()!.done}
+                      {' / '}
+                      {mtProgress()!.total}
+                      {' '}
+                      paragraphs translated
+                    </span>
+                  </Show>
+                </div>
+              </details>
             </div>
 
             {/* Step 3: Paste translation */}
             <div class="bg-white border border-gray-200 rounded-xl p-6">
               <h2 class="font-semibold text-gray-900 mb-4">
-                Step 3: Paste the translated text
+                Step 3: Paste the translation of each batch
               </h2>
-              <textarea
-                value={translatedText()}
-                onInput={e => setTranslatedText(e.currentTarget.value)}
-                placeholder="Paste the translated text here..."
-                class="w-full h-64 p-4 bg-gray-50 rounded-lg border border-gray-200 font-mono text-sm resize-none focus:outline-none focus:ring-2 focus:ring-gray-900 focus:border-transparent"
-              />
+              <div class="space-y-6">
+                <Index each={batches()}>
+                  {(batch, index) => (
+                    <div>
+                      <div class="flex flex-wrap items-center justify-between gap-2 mb-2">
+                        <p class="text-sm text-gray-700">
+                          <span class="font-medium">
+                            Batch
+                            {' '}
+                            {index + 1}
+                          </span>
+                          {` · ${batch()[0]!.id}–${batch().at(-1)!.id} · ${batch().length} paragraphs · ~${measureText(formatTxt(batch()), batchOptions().unit)} ${batchOptions().unit === 'chars' ? 'characters' : 'tokens'} · `}
+                          {translatedInBatch(batch())}
+                          {' translated'}
+                        </p>
+                        <button
+                          onClick={() => copyToClipboard(index)}
+                          class={`px-4 py-2 rounded-lg text-sm font-medium transition-colors ${
+                            copiedBatch() === index
+                              ? 'bg-green-100 text-green-700'
+                              : 'bg-gray-900 text-white hover:bg-gray-800'
+                          }`}
+                        >
+                          {copiedBatch() === index ? '✓ Copied!' : 'Copy to clipboard'}
+                        </button>
+                      </div>
+                      <details class="mb-2">
+                        <summary class="text-sm text-gray-500 cursor-pointer">Show text</summary>
+                        <div class="mt-2 bg-gray-50 rounded-lg p-4 max-h-64 overflow-auto font-mono text-sm text-gray-700 whitespace-pre-wrap">
+                          {formatTxt(batch())}
+                        </div>
+                      </details>
+                      <textarea
+                        value={batchTexts()[index] ?? ''}
+                        onInput={e => setBatchText(index, e.currentTarget.value)}
+                        onChange={() => mergeBatchText(index)}
+                        placeholder="Paste the translated text or the returned XLIFF or PO file here..."
+                        class="w-full h-32 p-4 bg-gray-50 rounded-lg border border-gray-200 font-mono text-sm resize-y focus:outline-none focus:ring-2 focus:ring-gray-900 focus:border-transparent"
+                      />
+                      <Show when={batchResults()[index]}>
+                        {result => (
+                          <p class="mt-1 text-xs text-gray-500">
+                            {`Last paste: ${result().added.length} added, ${result().updated.length} updated`}
+                            <Show when={result().conflicts.length > 0}>
+                              <span class="text-red-600">{`, ${result().conflicts.length} conflicting with other batches`}</span>
+                            </Show>
+                            <Show when={result().unknown.length > 0}>
+                              {`, ${result().unknown.length} unknown IDs ignored`}
+                            </Show>
+                          </p>
+                        )}
+                      </Show>
+                    </div>
+                  )}
+                </Index>
+              </div>
+              <Show when={qaIssues().size > 0}>
+                <div class="mt-4 p-4 bg-yellow-50 border border-yellow-200 rounded-lg text-sm text-yellow-800">
+                  <p class="font-medium mb-2">
+                    Quality check:
+                    {' '}
+                    {qaIssues().size}
+                    {' '}
+                    paragraphs need a look
+                  </p>
+                  <ul class="space-y-1 max-h-64 overflow-auto">
+                    <For each={[...qaIssues()]}>
+                      {([id, issues]) => (
+                        <li>
+                          <span class="font-mono">
+                            [
+                            {id}
+                            ]
+                          </span>
+                          {' '}
+                          {issues.map(issue => issue.message).join('; ')}
+                        </li>
+                      )}
+                    </For>
+                  </ul>
+                </div>
+              </Show>
+            </div>
+
+            {/* Conflicting translations */}
+            <Show when={conflicts().length > 0}>
+              <div class="p-4 bg-red-50 border border-red-200 rounded-lg text-sm text-red-800">
+                <p class="font-medium mb-2">
+                  {conflicts().length}
+                  {' '}
+                  paragraphs were translated differently in different batches. The newer translation is used unless you keep the previous one.
+                </p>
+                <div class="space-y-3 max-h-64 overflow-auto">
+                  <For each={conflicts()}>
+                    {conflict => (
+                      <div class="p-3 bg-white rounded-lg">
+                        <p class="font-mono text-gray-500">
+                          [
+                          {conflict.id}
+                          ]
+                        </p>
+                        <p class="mt-1 text-gray-700">
+                          {`${conflict.previous.origin}: ${conflict.previous.translation}`}
+                        </p>
+                        <p class="mt-1 text-gray-900">
+                          {`${conflict.incoming.origin}: ${conflict.incoming.translation}`}
+                        </p>
+                        <div class="mt-2 flex gap-2">
+                          <button
+                            onClick={() => resolveConflict(conflict, true)}
+                            class="px-3 py-1 text-xs bg-gray-100 hover:bg-gray-200 rounded-lg transition-colors"
+                          >
+                            Keep previous
+                          </button>
+                          <button
+                            onClick={() => resolveConflict(conflict, false)}
+                            class="px-3 py-1 text-xs bg-gray-100 hover:bg-gray-200 rounded-lg transition-colors"
+                          >
+                            Keep newer
+                          </button>
+                        </div>
+                      </div>
+                    )}
+                  </For>
+                </div>
+              </div>
+            </Show>
+
+            <details class="mb-4 text-sm">
+              <summary class="text-gray-700 cursor-pointer">
+                {`Fonts for ${getLanguageName()}`}
+              </summary>
+              <div class="mt-3 grid gap-3 sm:grid-cols-2">
+                <For each={FONT_SLOTS}>
+                  {slot => (
+                    <label class="flex flex-col gap-1 text-xs text-gray-500">
+                      {FONT_SLOT_LABELS[slot]}
+                      <input
+                        type="text"
+                        value={fonts()[slot] ?? ''}
+                        onChange={e => updateFont(slot, e.currentTarget.value)}
+                        placeholder="Keep the document's font"
+                        class="px-3 py-1.5 border border-gray-300 rounded-lg text-sm text-gray-900 focus:outline-none focus:ring-2 focus:ring-gray-900"
+                      />
+                    </label>
+                  )}
+                </For>
+              </div>
+            </details>
+
+            <div class="mb-4 flex flex-wrap items-center gap-3 text-sm">
+              <label class="flex items-center gap-2 text-gray-700">
+                <input
+                  type="checkbox"
+                  checked={trackChanges()}
+                  onChange={e => setTrackChanges(e.currentTarget.checked)}
+                />
+                Show the translation as tracked changes
+              </label>
+              <Show when={trackChanges()}>
+                <input
+                  type="text"
+                  value={revisionAuthor()}
+                  onChange={e => setRevisionAuthor(e.currentTarget.value.trim() || 'Translator')}
+                  placeholder="Author"
+                  class="px-3 py-1.5 border border-gray-300 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-gray-900"
+                />
+              </Show>
             </div>
 
             {/* Download button */}
             <button
               onClick={injectTranslations}
-              disabled={!translatedText().trim()}
+              disabled={!hasTranslations()}
               class={`w-full py-3 rounded-lg font-medium transition-colors ${
-                translatedText().trim()
+                hasTranslations()
                   ? 'bg-gray-900 text-white hover:bg-gray-800'
                   : 'bg-gray-200 text-gray-400 cursor-not-allowed'
               }`}
             >
-              Download translated document
+              {coverage().translated < coverage().total
+                ? `Download translated document (${coverage().translated} of ${coverage().total} paragraphs)`
+                : 'Download translated document'}
             </button>
           </div>
         </Show>
@@ -515,12 +1297,44 @@ const App: Component = () => {
             <p class="text-gray-500 mb-6">
               Your translated document has been saved.
             </p>
-            <button
-              onClick={reset}
-              class="px-6 py-2.5 bg-gray-900 text-white rounded-lg font-medium hover:bg-gray-800 transition-colors"
-            >
-              Translate another document
-            </button>
+            <Show when={glossaryIssues().length > 0}>
+              <div class="mb-6 p-4 bg-yellow-50 border border-yellow-200 rounded-lg text-left text-sm text-yellow-800">
+                <p class="font-medium mb-2">
+                  {glossaryIssues().length}
+                  {' '}
+                  glossary terms are not translated as required:
+                </p>
+                <ul class="space-y-1 max-h-64 overflow-auto">
+                  <For each={glossaryIssues()}>
+                    {issue => (
+                      <li>
+                        [
+                        {issue.id}
+                        ]
+                        {' '}
+                        {`"${issue.source}" should be "${issue.target}"`}
+                      </li>
+                    )}
+                  </For>
+                </ul>
+              </div>
+            </Show>
+            <div class="flex justify-center gap-3">
+              <Show when={coverage().translated < coverage().total}>
+                <button
+                  onClick={() => setState('extracted')}
+                  class="px-6 py-2.5 bg-gray-100 text-gray-900 rounded-lg font-medium hover:bg-gray-200 transition-colors"
+                >
+                  Continue translating
+                </button>
+              </Show>
+              <button
+                onClick={reset}
+                class="px-6 py-2.5 bg-gray-900 text-white rounded-lg font-medium hover:bg-gray-800 transition-colors"
+              >
+                Translate another document
+              </button>
+            </div>
           </div>
         </Show>
       </main>
@@ -0,0 +1,56 @@
+import { describe, expect, it } from 'bun:test'
+import { CliError, EXIT_CODES, getOutputOptions, parseChoice, parseCommandArgs } from './command'
+
+/**
+ * Run a function that should throw a CliError and return the error
+ */
+function catchCliError(fn: () => unknown): CliError {
+  try {
+    fn()
+  }
+  catch (err) {
+    if (err instanceof CliError) {
+      return err
+    }
+    throw err
+  }
+  throw new Error('Expected a CliError')
+}
+
+describe('EXIT_CODES', () => {
+  it('keeps the codes scripts rely on', () => {
+    expect(EXIT_CODES).toEqual({ success: 0, error: 1, usage: 2, problems: 3 })
+    expect(new CliError('Failed').exitCode).toBe(EXIT_CODES.error)
+  })
+})
+
+describe('parseCommandArgs', () => {
+  const options = { format: { type: 'string', short: 'f', default: 'txt' }, sentences: { type: 'boolean' } } as const
+
+  it('parses the options of the command and the common ones', () => {
+    const { values, positionals } = parseCommandArgs(['report.docx', '-f', 'json,po', '--json', '--sentences'], options)
+    expect(positionals).toEqual(['report.docx'])
+    expect(values).toMatchObject({ format: 'json,po', sentences: true, json: true, quiet: false, help: false })
+  })
+
+  it('turns unknown options and missing values into usage errors', () => {
+    expect(catchCliError(() => parseCommandArgs(['--colour'], options)).exitCode).toBe(EXIT_CODES.usage)
+    expect(catchCliError(() => parseCommandArgs(['--format'], options)).exitCode).toBe(EXIT_CODES.usage)
+  })
+})
+
+describe('parseChoice', () => {
+  it('accepts allowed values and lists them otherwise', () => {
+    expect(parseChoice('revisions', 'accept', ['accept', 'reject'])).toBe('accept')
+    const error = catchCliError(() => parseChoice('revisions', 'keep', ['accept', 'reject']))
+    expect(error.message).toBe('Invalid --revisions: keep (use accept, reject)')
+    expect(error.exitCode).toBe(EXIT_CODES.usage)
+  })
+})
+
+describe('getOutputOptions', () => {
+  it('finds --quiet and --json before the command parses its arguments', () => {
+    expect(getOutputOptions(['extract', 'a.docx', '-q', '--json'])).toEqual({ quiet: true, json: true })
+    expect(getOutputOptions(['extract', 'a.docx'])).toEqual({ quiet: false, json: false })
+  })
+})
@@ -0,0 +1,128 @@
+import type { ParseArgsOptionsConfig } from 'node:util'
+import process from 'node:process'
+import { parseArgs } from 'node:util'
+
+/**
+ * Exit codes of the CLI, stable so scripts can rely on them
+ */
+export const EXIT_CODES = {
+  /** The command did what it was asked */
+  success: 0,
+  /** The command failed: unreadable input, missing extraction, unexpected errors */
+  error: 1,
+  /** Unknown command or option, missing argument or invalid value */
+  usage: 2,
+  /** The command ran but found problems: QA issues, paragraphs that no longer match the extraction... */
+  problems: 3,
+} as const
+
+export type ExitCode = typeof EXIT_CODES[keyof typeof EXIT_CODES]
+
+/**
+ * An expected failure, reported without a stack trace
+ */
+export class CliError extends Error {
+  constructor(message: string, readonly exitCode: ExitCode = EXIT_CODES.error, readonly hint?: string) {
+    super(message)
+    this.name = 'CliError'
+  }
+}
+
+/**
+ * Where a command reports progress
+ * With --json only the result is printed to stdout, so progress and warnings go to stderr
+ */
+export interface Output {
+  /** Progress, hidden by --quiet */
+  log: (message: string) => void
+  /** Warnings, hidden by --quiet */
+  warn: (message: string) => void
+  /** Errors, always shown */
+  error: (message: string) => void
+}
+
+export interface CommandResult {
+  exitCode: ExitCode
+  /** Printed as JSON with --json */
+  result: Record<string, unknown>
+}
+
+export interface Command {
+  /** One line for the command list */
+  summary: string
+  /** Usage, arguments and options */
+  help: string
+  run: (args: string[], output: Output) => Promise<CommandResult>
+}
+
+// Options every command takes
+const COMMON_OPTIONS = {
+  help: { type: 'boolean', short: 'h', default: false },
+  // Only print warnings and errors
+  quiet: { type: 'boolean', short: 'q', default: false },
+  // Print the result as JSON on stdout, progress goes to stderr
+  json: { type: 'boolean', default: false },
+} as const
+
+export const COMMON_HELP = `Common options:
+  -q, --quiet          Only print warnings and errors
+      --json           Print a machine-readable result on stdout
+  -h, --help           Show this help`
+
+/**
+ * Create the output for the common options
+ */
+export function createOutput(options: { quiet?: boolean, json?: boolean }): Output {
+  const log = options.json ? console.error : console.log
+  return {
+    log: options.quiet ? () => {} : log,
+    warn: options.quiet ? () => {} : console.warn,
+    error: console.error,
+  }
+}
+
+/**
+ * Parse the arguments of a command, with the common options added
+ * Unknown options and missing values become usage errors
+ */
+export function parseCommandArgs<T extends ParseArgsOptionsConfig>(args: string[], options: T) {
+  try {
+    return parseArgs({ args, options: { ...COMMON_OPTIONS, ...options }, allowPositionals: true })
+  }
+  catch (err) {
+    if (err instanceof TypeError && 'code' in err && String(err.code).startsWith('ERR_PARSE_ARGS')) {
+      throw new CliError(err.message, EXIT_CODES.usage)
+    }
+    throw err
+  }
+}
+
+/**
+ * Check an option against its allowed values
+ */
+export function parseChoice<T extends string>(name: string, value: string, choices: readonly T[]): T {
+  if (!choices.includes(value as T)) {
+    throw new CliError(`Invalid --${name}: ${value} (use ${choices.join(', ')})`, EXIT_CODES.usage)
+  }
+  return value as T
+}
+
+/**
+ * Whether the common --quiet and --json options are set, before the command parses its arguments
+ */
+export function getOutputOptions(args: string[]): { quiet: boolean, json: boolean } {
+  return {
+    quiet: args.includes('--quiet') || args.includes('-q'),
+    json: args.includes('--json'),
+  }
+}
+
+/**
+ * Print the result of a command and exit with its code
+ */
+export function finish(result: CommandResult, json: boolean): never {
+  if (json) {
+    console.log(JSON.stringify({ exitCode: result.exitCode, ...result.result }, null, 2))
+  }
+  process.exit(result.exitCode)
+}
@@ -0,0 +1,128 @@
+import type { TranslationFile } from '../lib/types'
+import type { XliffVersion } from '../lib/xliff'
+import type { Command } from './command'
+import { extname, resolve } from 'node:path'
+import { formatTxt, formatTxtHeader } from '../lib/formats'
+import { formatPo } from '../lib/po'
+import { formatXliff } from '../lib/xliff'
+import { loadTranslationsFile, readTranslationFile } from '../translations-file'
+import { CliError, COMMON_HELP, EXIT_CODES, parseChoice, parseCommandArgs } from './command'
+import { findExtraction, FORMAT_EXTENSIONS, getOutputPath, parseFormats, RANGE_HELP, requireFile, selectRange } from './options'
+
+export const convertCommand: Command = {
+  summary: 'Convert translations between TXT, JSON, XLIFF and PO',
+  help: `Usage: translate-docx convert <translations.json|.txt|.xlf|.po|_bilingual.docx> --format <list> [options]
+
+Writes <name>.<format> into --out, or next to the input. The source text comes from the
+extraction: the input itself if it is a JSON, otherwise --extraction or <name>.json next to it
+(report.fr.txt also finds report.json).
+A converted TXT holds the translations with the header of the extraction, ready to inject.
+A converted JSON always holds every segment, --range only limits the translations taken over.
+
+Options:
+  -f, --format <list>      Formats to write, comma-separated: txt, json, xliff, po
+      --xliff-version <v>  XLIFF 1.2 or 2.0 (default 1.2)
+      --extraction <file>  The extraction JSON the translations belong to
+      --range <range>      Only convert these segments: ${RANGE_HELP}
+  -o, --out <dir>          Output directory
+      --include-fuzzy      Use PO entries flagged as fuzzy
+
+${COMMON_HELP}`,
+
+  async run(args, output) {
+    const { values, positionals } = parseCommandArgs(args, {
+      'format': { type: 'string', short: 'f' },
+      'xliff-version': { type: 'string', default: '1.2' },
+      'extraction': { type: 'string' },
+      'range': { type: 'string' },
+      'out': { type: 'string', short: 'o' },
+      'include-fuzzy': { type: 'boolean', default: false },
+    })
+
+    if (positionals.length !== 1) {
+      throw new CliError('Expected one translations file', EXIT_CODES.usage)
+    }
+    if (!values.format) {
+      throw new CliError('Missing --format', EXIT_CODES.usage)
+    }
+    const formats = parseFormats(values.format)
+    const xliffVersion = parseChoice<XliffVersion>('xliff-version', values['xliff-version'], ['1.2', '2.0'])
+
+    const inputPath = positionals[0]!
+    await requireFile(inputPath)
+    const isJson = extname(inputPath).toLowerCase() === '.json'
+    const extractionPath = values.extraction ?? (isJson ? inputPath : await findExtraction(inputPath))
+    if (!extractionPath || !(await Bun.file(extractionPath).exists())) {
+      throw new CliError(`Original extraction not found for ${inputPath}`, EXIT_CODES.error, 'Pass --extraction <original.json>')
+    }
+    const extraction = await readTranslationFile(extractionPath)
+
+    const { translations, statuses, format } = await loadTranslationsFile(inputPath, extraction, {
+      includeFuzzy: values['include-fuzzy'],
+    })
+    output.log(`📖 Parsed ${translations.size} translations from ${format}`)
+
+    // The extraction with the translations of the range filled in, a changed translation takes the status of the input
+    const inRange = new Set(selectRange(extraction.segments, values.range).map(segment => segment.id))
+    const now = new Date().toISOString()
+    const allSegments = extraction.segments.map((segment) => {
+      const translation = translations.get(segment.id)?.trim() ? translations.get(segment.id) : undefined
+      if (!inRange.has(segment.id) || translation === segment.translation) {
+        return segment
+      }
+      return {
+        ...segment,
+        translation,
+        status: translation ? statuses.get(segment.id) ?? 'translated' : undefined,
+        updatedAt: now,
+      }
+    })
+    const converted: TranslationFile = { ...extraction, segments: allSegments }
+    const segments = allSegments.filter(segment => inRange.has(segment.id))
+    const fileOptions = {
+      originalFile: extraction.originalFile,
+      sourceLanguage: extraction.sourceLanguage,
+      targetLanguage: extraction.targetLanguage,
+    }
+
+    const paths = formats.map(target => getOutputPath(inputPath, FORMAT_EXTENSIONS[target], values.out))
+    const overwritten = paths.find(path => resolve(path) === resolve(inputPath) || resolve(path) === resolve(extractionPath))
+    if (overwritten) {
+      throw new CliError(`Converting would overwrite ${overwritten}`, EXIT_CODES.usage, 'Pick another directory with --out')
+    }
+
+    const written: Record<string, string> = {}
+    for (const [index, target] of formats.entries()) {
+      const path = paths[index]!
+      if (target === 'txt') {
+        const translated = segments
+          .filter(segment => segment.translation)
+          .map(segment => ({ ...segment, text: segment.translation! }))
+        // The header identifies the DOCX, translations outside the range stay in the extraction
+        const { segments: _segments, ...header } = converted
+        const prefilled = allSegments.filter(segment => segment.translation && !inRange.has(segment.id)).length
+        await Bun.write(path, formatTxt(translated, formatTxtHeader({ ...header, prefilled: prefilled || undefined })))
+      }
+      else if (target === 'json') {
+        await Bun.write(path, JSON.stringify(converted, null, 2))
+      }
+      else if (target === 'xliff') {
+        await Bun.write(path, formatXliff(segments, { ...fileOptions, version: xliffVersion }))
+      }
+      else {
+        await Bun.write(path, formatPo(segments, fileOptions))
+      }
+      written[target] = path
+      output.log(`📁 ${target.toUpperCase()} saved to: ${path}`)
+    }
+
+    return {
+      exitCode: EXIT_CODES.success,
+      result: {
+        files: written,
+        segments: segments.length,
+        translated: segments.filter(segment => segment.translation).length,
+      },
+    }
+  },
+}
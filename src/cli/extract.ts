@@ -0,0 +1,197 @@
+import type { TranslationFile } from '../lib/types'
+import type { XliffVersion } from '../lib/xliff'
+import type { Command } from './command'
+import { basename } from 'node:path'
+import { extractDocxWithFingerprint } from '../docx-utils'
+import { getTranslatableFiles } from '../lib/docx-utils'
+import { formatTxt, formatTxtHeader } from '../lib/formats'
+import { findGlossaryTerms, formatGlossaryPrompt, parseGlossary } from '../lib/glossary'
+import { formatPo } from '../lib/po'
+import { TRANSLATION_FILE_VERSION } from '../lib/schema'
+import { extractSegments, findRevisions, getSegmentKind } from '../lib/segments'
+import { applyMemory } from '../lib/tm'
+import { formatXliff } from '../lib/xliff'
+import { loadMemoryFile } from '../tm-file'
+import { CliError, COMMON_HELP, EXIT_CODES, parseChoice, parseCommandArgs } from './command'
+import { FORMAT_EXTENSIONS, getOutputPath, parseFormats, RANGE_HELP, requireFile, selectRange } from './options'
+
+export const extractCommand: Command = {
+  summary: 'Extract the text of a DOCX into files to translate',
+  help: `Usage: translate-docx extract <input.docx> [options]
+
+Writes <name>.json (the extraction) and the files to translate into --out, or next to
+the DOCX. Both record a fingerprint of the DOCX, so a translated TXT can be injected
+without the JSON as long as the DOCX is unchanged.
+
+Options:
+  -f, --format <list>      Files to translate, comma-separated: txt, json, xliff, po (default txt)
+      --xliff-version <v>  XLIFF 1.2 or 2.0 (default 1.2)
+      --range <range>      Only put these segments in the files to translate: ${RANGE_HELP}
+  -o, --out <dir>          Output directory
+      --from <lang>        Source language
+  -t, --to <lang>          Target language
+      --sentences          One segment per sentence instead of per paragraph
+      --revisions <mode>   Tracked changes: accept, reject or fail (default fail)
+      --no-properties      Skip the document properties
+      --no-alt-text        Skip the alt text of images and shapes
+      --tm <memory.json>   Pre-fill exact matches from a translation memory, needs --from and --to
+      --glossary <file>    CSV or TBX glossary; matching terms go into the TXT header
+
+${COMMON_HELP}`,
+
+  async run(args, output) {
+    const { values, positionals } = parseCommandArgs(args, {
+      'format': { type: 'string', short: 'f', default: 'txt' },
+      'xliff-version': { type: 'string', default: '1.2' },
+      'range': { type: 'string' },
+      'out': { type: 'string', short: 'o' },
+      'from': { type: 'string' },
+      'to': { type: 'string', short: 't' },
+      'sentences': { type: 'boolean', default: false },
+      'revisions': { type: 'string', default: 'fail' },
+      'no-properties': { type: 'boolean', default: false },
+      'no-alt-text': { type: 'boolean', default: false },
+      'tm': { type: 'string' },
+      'glossary': { type: 'string' },
+    })
+
+    if (positionals.length !== 1) {
+      throw new CliError('Expected one input DOCX', EXIT_CODES.usage)
+    }
+    const formats = parseFormats(values.format)
+    const xliffVersion = parseChoice<XliffVersion>('xliff-version', values['xliff-version'], ['1.2', '2.0'])
+    const revisions = parseChoice('revisions', values.revisions, ['accept', 'reject', 'fail'])
+
+    const inputPath = positionals[0]!
+    await requireFile(inputPath)
+    if (values.glossary) {
+      await requireFile(values.glossary)
+    }
+    output.log(`📄 Extracting text from: ${inputPath}`)
+
+    const { files, fingerprint } = await extractDocxWithFingerprint(inputPath)
+    const translatableFiles = getTranslatableFiles(files)
+    output.log(`📝 Translatable files: ${translatableFiles.join(', ')}`)
+
+    const revised = findRevisions(files)
+    if (revised.length > 0) {
+      const total = revised.reduce((sum, part) => sum + part.count, 0)
+      if (revisions === 'fail') {
+        throw new CliError(
+          `The document has ${total} tracked changes (${revised.map(part => `${part.path}: ${part.count}`).join(', ')})`,
+          EXIT_CODES.error,
+          'Use --revisions accept or --revisions reject to resolve them before extracting.',
+        )
+      }
+      output.log(`🔍 ${revisions === 'accept' ? 'Accepting' : 'Rejecting'} ${total} tracked changes`)
+    }
+
+    const segments = extractSegments(files, {
+      properties: !values['no-properties'],
+      altText: !values['no-alt-text'],
+      revisions,
+      segmentation: values.sentences ? 'sentence' : 'paragraph',
+      sourceLanguage: values.from,
+    })
+
+    for (const filePath of translatableFiles) {
+      const count = segments
+        .filter(seg => seg.source === filePath && getSegmentKind(seg) === 'paragraph')
+        .length
+      output.log(`  - ${filePath}: ${count} ${values.sentences ? 'sentences' : 'paragraphs'}`)
+    }
+    const altTextCount = segments.filter(seg => getSegmentKind(seg) === 'alt-text').length
+    const propertyCount = segments.filter(seg => getSegmentKind(seg) === 'property').length
+    output.log(`  - Alt text: ${altTextCount}, document properties: ${propertyCount}`)
+
+    // Pre-fill from the translation memory
+    let memory: { exact: number, fuzzy: number } | undefined
+    if (values.tm) {
+      if (values.from && values.to) {
+        memory = applyMemory(segments, await loadMemoryFile(values.tm), values.from, values.to)
+        output.log(`🧠 Translation memory: ${memory.exact} exact matches, ${memory.fuzzy} segments with fuzzy suggestions`)
+      }
+      else {
+        output.warn('  ⚠️  Skipping the translation memory, it needs --from and --to')
+      }
+    }
+
+    const translationFile: TranslationFile = {
+      version: TRANSLATION_FILE_VERSION,
+      sourceLanguage: values.from,
+      targetLanguage: values.to,
+      originalFile: basename(inputPath),
+      extractedAt: new Date().toISOString(),
+      revisions: revisions === 'fail' ? undefined : revisions,
+      segmentation: values.sentences ? 'sentence' : undefined,
+      fingerprint,
+      segments,
+    }
+
+    const selected = selectRange(segments, values.range)
+
+    const written: Record<string, string> = {}
+    written.json = getOutputPath(inputPath, FORMAT_EXTENSIONS.json, values.out)
+    await Bun.write(written.json, JSON.stringify(translationFile, null, 2))
+    output.log(`\n✅ Extracted ${segments.length} segments`)
+    output.log(`📁 Extraction saved to: ${written.json}`)
+    if (values.range) {
+      output.log(`✂️  Range ${values.range}: ${selected.length} segments`)
+    }
+
+    for (const format of formats.filter(format => format !== 'json')) {
+      const path = getOutputPath(inputPath, FORMAT_EXTENSIONS[format], values.out)
+      const fileOptions = {
+        originalFile: translationFile.originalFile,
+        sourceLanguage: translationFile.sourceLanguage,
+        targetLanguage: translationFile.targetLanguage,
+      }
+
+      if (format === 'txt') {
+        // The simple format for LLMs only holds what is left to translate
+        const untranslated = selected.filter(seg => !seg.translation)
+        // The header identifies the DOCX, so the file can be injected without the JSON
+        const { segments: _segments, ...fileHeader } = translationFile
+        const prefilled = segments.filter(seg => seg.translation).length
+        let header = formatTxtHeader({ ...fileHeader, prefilled: prefilled || undefined })
+        if (values.glossary) {
+          const glossary = parseGlossary(await Bun.file(values.glossary).text(), {
+            sourceLanguage: values.from,
+            targetLanguage: values.to,
+          })
+          const terms = findGlossaryTerms(glossary, untranslated.map(seg => seg.text))
+          const prompt = formatGlossaryPrompt(terms)
+          header = prompt ? `${header}\n\n${prompt}` : header
+          output.log(`📚 Glossary: ${terms.length} of ${glossary.length} terms appear in the text`)
+        }
+        await Bun.write(path, formatTxt(untranslated, header))
+      }
+      else if (format === 'xliff') {
+        await Bun.write(path, formatXliff(selected, { ...fileOptions, version: xliffVersion }))
+      }
+      else {
+        await Bun.write(path, formatPo(selected, fileOptions))
+      }
+      written[format] = path
+      output.log(`📁 ${format.toUpperCase()} saved to: ${path}`)
+    }
+
+    output.log(`
+📋 Next steps:
+   1. Translate ${formats.map(format => basename(written[format]!)).join(' or ')}
+   2. Run: translate-docx inject ${inputPath} <translated file>${values.out ? ` --extraction ${written.json}` : ''}
+`)
+
+    return {
+      exitCode: EXIT_CODES.success,
+      result: {
+        files: written,
+        segments: segments.length,
+        selected: selected.length,
+        altText: altTextCount,
+        properties: propertyCount,
+        memory,
+      },
+    }
+  },
+}
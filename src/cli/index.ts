@@ -0,0 +1,89 @@
+#!/usr/bin/env bun
+import type { Command } from './command'
+import process from 'node:process'
+import { TrackedChangesError } from '../lib/revisions'
+import { TranslationFileError } from '../lib/schema'
+import { CliError, createOutput, EXIT_CODES, finish, getOutputOptions } from './command'
+import { convertCommand } from './convert'
+import { extractCommand } from './extract'
+import { injectCommand } from './inject'
+import { statsCommand } from './stats'
+import { translateCommand } from './translate'
+import { updateCommand } from './update'
+import { validateCommand } from './validate'
+
+const COMMANDS: Record<string, Command> = {
+  extract: extractCommand,
+  inject: injectCommand,
+  stats: statsCommand,
+  validate: validateCommand,
+  convert: convertCommand,
+  update: updateCommand,
+  translate: translateCommand,
+}
+
+const HELP = `Usage: translate-docx <command> [options]
+
+Commands:
+${Object.entries(COMMANDS).map(([name, command]) => `  ${name.padEnd(10)} ${command.summary}`).join('\n')}
+
+Run 'translate-docx <command> --help' for the options of a command.
+
+Exit codes:
+  ${EXIT_CODES.success}  Success
+  ${EXIT_CODES.error}  Failure: unreadable input, missing extraction, unexpected errors
+  ${EXIT_CODES.usage}  Usage error: unknown command or option, missing argument, invalid value
+  ${EXIT_CODES.problems}  Problems found: validation or QA issues, paragraphs that no longer match`
+
+// Inject and validate resolve tracked changes the way the extraction did
+const TRACKED_CHANGES_HINT = 'Pass --revisions accept or --revisions reject (to extract or stats; inject and validate follow the extraction)'
+
+async function main() {
+  const [name, ...args] = process.argv.slice(2)
+
+  if (!name || name === '--help' || name === '-h' || name === 'help') {
+    console.log(HELP)
+    process.exit(name ? EXIT_CODES.success : EXIT_CODES.usage)
+  }
+
+  const command = COMMANDS[name]
+  if (!command) {
+    console.error(`Unknown command: ${name}\n\n${HELP}`)
+    process.exit(EXIT_CODES.usage)
+  }
+
+  if (args.includes('--help') || args.includes('-h')) {
+    console.log(command.help)
+    process.exit(EXIT_CODES.success)
+  }
+
+  const options = getOutputOptions(args)
+  const output = createOutput(options)
+  try {
+    finish(await command.run(args, output), options.json)
+  }
+  catch (caught) {
+    // Invalid translation files and unresolved tracked changes are known failures, no need for a stack trace
+    const err = caught instanceof TranslationFileError
+      ? new CliError(caught.message)
+      : caught instanceof TrackedChangesError
+        ? new CliError(caught.message, EXIT_CODES.error, TRACKED_CHANGES_HINT)
+        : caught
+    if (!(err instanceof CliError)) {
+      throw err
+    }
+    output.error(`❌ ${err.message}`)
+    if (err.hint) {
+      output.error(`   ${err.hint}`)
+    }
+    if (err.exitCode === EXIT_CODES.usage) {
+      output.error(`   Run 'translate-docx ${name} --help' for usage.`)
+    }
+    finish({ exitCode: err.exitCode, result: { error: err.message } }, options.json)
+  }
+}
+
+main().catch((err) => {
+  console.error('Error:', err)
+  process.exit(EXIT_CODES.error)
+})
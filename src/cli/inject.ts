@@ -0,0 +1,264 @@
+import type { GlossaryIssue } from '../lib/glossary'
+import type { Command } from './command'
+import { basename } from 'node:path'
+import { createDocx, extractDocxWithFingerprint } from '../docx-utils'
+import { createBilingualDocx } from '../lib/bilingual'
+import { checkGlossary, parseGlossary } from '../lib/glossary'
+import { groupQaIssues, runQaChecks } from '../lib/qa'
+import { injectTranslations, isStatusAtLeast, SEGMENT_STATUSES } from '../lib/segments'
+import { addToMemory } from '../lib/tm'
+import { loadMemoryFile, saveMemoryFile } from '../tm-file'
+import { loadTranslationsFile } from '../translations-file'
+import { CliError, COMMON_HELP, EXIT_CODES, parseChoice, parseCommandArgs } from './command'
+import { getOutputPath, RANGE_HELP, readFontsFile, requireFile, resolveExtraction, selectRange } from './options'
+
+export const injectCommand: Command = {
+  summary: 'Write translations into a copy of the original DOCX',
+  help: `Usage: translate-docx inject <original.docx> <translations.json|.txt|.xlf|.po|_bilingual.docx> [options]
+
+Writes <name>_translated.docx into --out, or next to the original.
+Refuses a DOCX that differs from the one the translations were extracted from, and exits with ${EXIT_CODES.problems}
+if some paragraphs no longer match the extraction or some translation IDs are not in it, and were skipped.
+
+Options:
+  -o, --out <dir>          Output directory
+      --extraction <file>  The extraction JSON (default: the translations file if it is a JSON,
+                           <name>.json next to the DOCX or the translations file, or the header
+                           of a .txt file)
+      --force              Inject into a changed DOCX, skipping the paragraphs that no longer match
+      --range <range>      Only inject the translations of these segments: ${RANGE_HELP}
+      --min-status <s>     Only inject translations with this status or a later one:
+                           ${SEGMENT_STATUSES.join(', ')} (default all). Needs a JSON or XLIFF file,
+                           the other formats have no statuses
+      --from <lang>        Source language (default from the extraction)
+  -t, --to <lang>          Target language, sets the language tags, direction and fonts (default from the extraction)
+      --by-text            Match paragraphs by their original text instead of by ID and position
+      --no-properties      Leave the document properties untranslated
+      --no-alt-text        Leave the alt text untranslated
+      --include-fuzzy      Use PO entries flagged as fuzzy
+      --tm <memory.json>   Add the injected translations to a translation memory
+      --glossary <file>    CSV or TBX glossary to check the translations against
+      --fonts <file>       JSON of fonts by language code, e.g. {"zh": {"eastAsia": "SimSun"}}
+      --bilingual          Also write a bilingual review DOCX (ID, source, translation)
+      --track-changes      Write the translations as tracked changes
+      --author <name>      Author of the tracked changes (default Translator)
+      --date <iso>         Date of the tracked changes (default now)
+      --strict             Do not write the DOCX if the QA or glossary checks find problems (exits with ${EXIT_CODES.problems})
+
+${COMMON_HELP}`,
+
+  async run(args, output) {
+    const { values, positionals } = parseCommandArgs(args, {
+      'out': { type: 'string', short: 'o' },
+      'extraction': { type: 'string' },
+      'range': { type: 'string' },
+      'min-status': { type: 'string' },
+      'from': { type: 'string' },
+      'to': { type: 'string', short: 't' },
+      'by-text': { type: 'boolean', default: false },
+      'no-properties': { type: 'boolean', default: false },
+      'no-alt-text': { type: 'boolean', default: false },
+      'include-fuzzy': { type: 'boolean', default: false },
+      'tm': { type: 'string' },
+      'glossary': { type: 'string' },
+      'fonts': { type: 'string' },
+      'bilingual': { type: 'boolean', default: false },
+      'track-changes': { type: 'boolean', default: false },
+      'author': { type: 'string', default: 'Translator' },
+      'date': { type: 'string' },
+      'strict': { type: 'boolean', default: false },
+      'force': { type: 'boolean', default: false },
+    })
+
+    if (positionals.length !== 2) {
+      throw new CliError('Expected the original DOCX and a translations file', EXIT_CODES.usage)
+    }
+    const [inputDocxPath, translationsPath] = positionals as [string, string]
+    const minStatus = values['min-status'] ? parseChoice('min-status', values['min-status'], SEGMENT_STATUSES) : undefined
+    await requireFile(inputDocxPath)
+    await requireFile(translationsPath)
+    if (values.glossary) {
+      await requireFile(values.glossary)
+    }
+    const fonts = values.fonts ? await readFontsFile(values.fonts) : undefined
+    const outputPath = getOutputPath(inputDocxPath, '_translated.docx', values.out)
+
+    output.log(`📄 Original DOCX: ${inputDocxPath}`)
+    output.log(`📝 Translations: ${translationsPath}`)
+
+    const docx = await extractDocxWithFingerprint(inputDocxPath)
+    const { extraction: original, origin, changedParts, missingPrefilled } = await resolveExtraction(
+      inputDocxPath,
+      translationsPath,
+      docx,
+      values.extraction,
+    )
+    output.log(`🗂️  Segments from: ${origin}`)
+    if (missingPrefilled > 0) {
+      output.warn(`  ⚠️  ${missingPrefilled} segments translated in the extraction JSON are not in the .txt and stay untranslated, pass --extraction to include them`)
+    }
+    if (changedParts.length > 0) {
+      if (!values.force) {
+        throw new CliError(
+          `${inputDocxPath} is not the document the translations were extracted from (${original.originalFile}), ${changedParts.join(', ')} changed`,
+          EXIT_CODES.problems,
+          'Use the original DOCX, run \'translate-docx update\' for a new version of it, or pass --force to inject the paragraphs that still match',
+        )
+      }
+      output.warn(`  ⚠️  ${changedParts.join(', ')} changed since the extraction, only paragraphs that still match are translated`)
+    }
+    const sourceLanguage = values.from ?? original.sourceLanguage
+    const targetLanguage = values.to ?? original.targetLanguage
+
+    const loaded = await loadTranslationsFile(translationsPath, original, {
+      includeFuzzy: values['include-fuzzy'],
+    })
+    output.log(`📖 Parsed ${loaded.translations.size} translations from ${loaded.format}`)
+    if (loaded.skipped.length > 0) {
+      output.log(loaded.format === 'PO'
+        ? `   Skipped ${loaded.skipped.length} fuzzy entries (use --include-fuzzy to keep them)`
+        : `   Skipped ${loaded.skipped.length} units that are not translated yet`)
+    }
+
+    // Translations the extraction has no segment for cannot be placed
+    const known = new Set(original.segments.map(segment => segment.id))
+    const unknown = [...loaded.translations.keys()].filter(id => !known.has(id))
+    if (unknown.length > 0) {
+      output.warn(`  ⚠️  Skipped ${unknown.length} translations whose IDs are not in the extraction: ${unknown.join(', ')}`)
+    }
+
+    if (minStatus && !loaded.hasStatuses) {
+      throw new CliError(
+        `--min-status needs statuses, ${loaded.format} translations do not have any`,
+        EXIT_CODES.usage,
+        'Use the extraction JSON or an XLIFF file, or leave out --min-status',
+      )
+    }
+
+    // Segments outside the range, or not far enough along, keep their original text
+    const selected = selectRange(original.segments, values.range)
+    const belowStatus = new Set(minStatus
+      ? selected
+          .filter(segment => loaded.translations.has(segment.id)
+            && !isStatusAtLeast(loaded.statuses.get(segment.id) ?? 'translated', minStatus))
+          .map(segment => segment.id)
+      : [])
+    const translations = new Map(selected
+      .filter(segment => loaded.translations.has(segment.id) && !belowStatus.has(segment.id))
+      .map(segment => [segment.id, loaded.translations.get(segment.id)!]))
+    if (values.range) {
+      output.log(`✂️  Range ${values.range}: ${selected.length} segments`)
+    }
+    if (minStatus) {
+      output.log(`🏷️  Left out ${belowStatus.size} translations that are not ${minStatus} yet`)
+    }
+
+    const translatedCount = selected.filter(segment => translations.get(segment.id)?.trim()).length
+    output.log(`📊 Found ${translatedCount} translations (${selected.length - translatedCount} segments without translation)`)
+
+    // Check the translations before writing anything
+    const qaIssues = runQaChecks(selected, translations)
+    if (qaIssues.length > 0) {
+      output.warn(`  ⚠️  QA found ${qaIssues.length} problems:`)
+      for (const [id, issues] of groupQaIssues(qaIssues)) {
+        output.warn(`     [${id}] ${issues.map(issue => issue.message).join('; ')}`)
+      }
+    }
+    else {
+      output.log(`🔍 QA found no problems`)
+    }
+
+    let glossaryIssues: GlossaryIssue[] = []
+    if (values.glossary) {
+      const glossary = parseGlossary(await Bun.file(values.glossary).text(), { sourceLanguage, targetLanguage })
+      glossaryIssues = checkGlossary(selected, translations, glossary)
+      if (glossaryIssues.length > 0) {
+        output.warn(`  ⚠️  ${glossaryIssues.length} glossary terms are not translated as required:`)
+        for (const issue of glossaryIssues) {
+          output.warn(`     [${issue.id}] "${issue.source}" should be "${issue.target}"`)
+        }
+      }
+      else {
+        output.log(`📚 Glossary terms are translated as required`)
+      }
+    }
+
+    const problemCount = qaIssues.length + glossaryIssues.length
+    if (values.strict && problemCount > 0) {
+      output.error(`❌ Not writing the DOCX in strict mode, fix the ${problemCount} problems above first`)
+      return {
+        exitCode: EXIT_CODES.problems,
+        result: { written: false, translated: translatedCount, qa: qaIssues, glossary: glossaryIssues },
+      }
+    }
+
+    const { files } = docx
+    const result = injectTranslations(files, original.segments, translations, {
+      byText: values['by-text'],
+      properties: !values['no-properties'],
+      altText: !values['no-alt-text'],
+      targetLanguage,
+      fonts,
+      trackChanges: values['track-changes'] ? { author: values.author, date: values.date } : undefined,
+      // Resolve tracked changes the way the extraction did, so the paragraphs line up
+      revisions: original.revisions ?? 'fail',
+    })
+
+    for (const filePath of result.updatedFiles) {
+      output.log(`  - Updated: ${filePath}`)
+    }
+    if (result.mismatched.length > 0) {
+      output.warn(`  ⚠️  Skipped ${result.mismatched.length} segments that no longer match the extraction (${result.mismatched.join(', ')})`)
+    }
+
+    await createDocx(files, outputPath)
+
+    let bilingualPath: string | undefined
+    if (values.bilingual) {
+      bilingualPath = getOutputPath(inputDocxPath, '_bilingual.docx', values.out)
+      const bilingual = createBilingualDocx(selected, translations, {
+        originalFile: basename(inputDocxPath),
+        sourceLanguage,
+        targetLanguage,
+        mismatched: result.mismatched,
+      })
+      await createDocx(bilingual, bilingualPath)
+      output.log(`📑 Bilingual review document saved to: ${bilingualPath}`)
+    }
+
+    // Remember the injected translations
+    if (values.tm) {
+      if (sourceLanguage && targetLanguage) {
+        const tm = await loadMemoryFile(values.tm)
+        const pairs = selected
+          .filter(segment => !result.mismatched.includes(segment.id))
+          .map(segment => ({ source: segment.text, target: translations.get(segment.id) ?? '' }))
+        const changed = addToMemory(tm, sourceLanguage, targetLanguage, pairs)
+        await saveMemoryFile(values.tm, tm)
+        output.log(`🧠 Added or updated ${changed} translation memory entries in ${values.tm}`)
+      }
+      else {
+        output.warn('  ⚠️  Not updating the translation memory, it needs --from and --to')
+      }
+    }
+
+    output.log(`\n✅ Translation complete!`)
+    output.log(`📁 Output saved to: ${outputPath}`)
+
+    return {
+      exitCode: result.mismatched.length > 0 || unknown.length > 0 ? EXIT_CODES.problems : EXIT_CODES.success,
+      result: {
+        written: true,
+        output: outputPath,
+        bilingual: bilingualPath,
+        translated: translatedCount,
+        untranslated: selected.length - translatedCount,
+        belowStatus: [...belowStatus],
+        mismatched: result.mismatched,
+        unknown,
+        qa: qaIssues,
+        glossary: glossaryIssues,
+      },
+    }
+  },
+}
@@ -0,0 +1,233 @@
+import type { FontMapping, FontSlot } from '../lib/fonts'
+import type { TranslationFileHeader } from '../lib/formats'
+import type { DocumentFingerprint, ParagraphSegment, TranslationFile } from '../lib/types'
+import { basename, dirname, extname, join } from 'node:path'
+import { compareFingerprints } from '../lib/fingerprint'
+import { FONT_SLOTS } from '../lib/fonts'
+import { extractSegments } from '../lib/segments'
+import { readTranslationFile, readTranslationsHeader } from '../translations-file'
+import { CliError, EXIT_CODES } from './command'
+
+export const TRANSLATION_FORMATS = ['txt', 'json', 'xliff', 'po'] as const
+
+export type TranslationFormat = typeof TRANSLATION_FORMATS[number]
+
+export const FORMAT_EXTENSIONS: Record<TranslationFormat, string> = {
+  txt: '.txt',
+  json: '.json',
+  xliff: '.xlf',
+  po: '.po',
+}
+
+export const RANGE_HELP = 'positions like 1-50, 10- or -20 (from 1), or segment IDs like p10-p20'
+
+/**
+ * Parse a comma-separated --format list
+ */
+export function parseFormats(value: string): TranslationFormat[] {
+  const formats = value.split(',').map(format => format.trim().toLowerCase())
+  for (const format of formats) {
+    if (!TRANSLATION_FORMATS.includes(format as TranslationFormat)) {
+      throw new CliError(`Invalid --format: ${format} (use ${TRANSLATION_FORMATS.join(', ')})`, EXIT_CODES.usage)
+    }
+  }
+  return [...new Set(formats as TranslationFormat[])]
+}
+
+/**
+ * Select the segments in a --range, all of them without one
+ */
+export function selectRange(segments: ParagraphSegment[], range?: string): ParagraphSegment[] {
+  if (!range) {
+    return segments
+  }
+
+  const ends = range.split('-')
+  if (ends.length > 2 || ends.every(end => !end)) {
+    throw new CliError(`Invalid --range: ${range} (use ${RANGE_HELP})`, EXIT_CODES.usage)
+  }
+
+  // Index of a range end, a position from 1 or a segment ID
+  const toIndex = (value: string): number => {
+    if (/^\d+$/.test(value)) {
+      return Number(value) - 1
+    }
+    const index = segments.findIndex(segment => segment.id === value)
+    if (index === -1) {
+      throw new CliError(`Invalid --range: there is no segment ${value}`, EXIT_CODES.usage)
+    }
+    return index
+  }
+
+  const [first, last] = ends
+  const start = first ? toIndex(first) : 0
+  const end = last === undefined ? start : last ? toIndex(last) : segments.length - 1
+  if (start < 0 || end < start) {
+    throw new CliError(`Invalid --range: ${range} is empty`, EXIT_CODES.usage)
+  }
+  return segments.slice(start, end + 1)
+}
+
+/**
+ * Path of an output file named after the input, in --out or next to the input
+ */
+export function getOutputPath(inputPath: string, suffix: string, outDir?: string): string {
+  const name = basename(inputPath, extname(inputPath)).replace(/_bilingual$/, '')
+  return join(outDir ?? dirname(inputPath), `${name}${suffix}`)
+}
+
+/**
+ * The extraction translations belong to, and how the DOCX compares to it
+ */
+export interface ResolvedExtraction {
+  extraction: TranslationFile
+  /** Where the segments came from, for messages */
+  origin: string
+  /** Parts of the DOCX that differ from the fingerprints the translations were made for */
+  changedParts: string[]
+  /** Translations that are only in an extraction JSON that was not found */
+  missingPrefilled: number
+}
+
+/**
+ * Header fields that differ between the header of a .txt file and an extraction,
+ * when they do the segment IDs of one mean nothing in the other
+ */
+function compareHeaders(header: TranslationFileHeader, extraction: TranslationFile): string[] {
+  const fields = ['extractedAt', 'segmentation', 'revisions'] as const
+  return fields.filter(field => header[field] !== extraction[field])
+}
+
+/**
+ * Find the extraction translations belong to, in order: --extraction, the translations file itself
+ * if it is a JSON, <name>.json next to the DOCX or next to the translations file, or the same
+ * extraction done again on the DOCX following the header of a .txt file. An extraction that the header does not match is refused.
+ * The DOCX is compared to the fingerprints of both the header and the extraction
+ */
+export async function resolveExtraction(
+  docxPath: string,
+  translationsPath: string,
+  docx: { files: Record<string, Uint8Array>, fingerprint: DocumentFingerprint },
+  extractionPath?: string,
+): Promise<ResolvedExtraction> {
+  const header = await readTranslationsHeader(translationsPath)
+  const isJson = extname(translationsPath).toLowerCase() === '.json'
+  let extraction: TranslationFile | undefined
+  let origin = extractionPath ?? translationsPath
+  let missingPrefilled = 0
+
+  if (extractionPath) {
+    await requireFile(extractionPath)
+    extraction = await readTranslationFile(extractionPath)
+  }
+  else if (isJson) {
+    extraction = await readTranslationFile(translationsPath)
+  }
+  else {
+    const docxSibling = getOutputPath(docxPath, '.json')
+    const siblingPath = await Bun.file(docxSibling).exists() ? docxSibling : await findExtraction(translationsPath)
+    if (siblingPath) {
+      extraction = await readTranslationFile(siblingPath)
+      origin = siblingPath
+    }
+  }
+
+  const differences = header && extraction ? compareHeaders(header, extraction) : []
+  if (differences.length > 0) {
+    throw new CliError(
+      `${translationsPath} does not belong to ${origin}: ${differences.join(', ')} differ`,
+      EXIT_CODES.problems,
+      `Pass the extraction it comes from with --extraction${extractionPath ? '' : `, or move ${origin} away to extract again following the header`}`,
+    )
+  }
+
+  if (!extraction && header) {
+    // Without the extraction the original text is only known while the DOCX is unchanged
+    const changed = header.fingerprint ? compareFingerprints(header.fingerprint, docx.fingerprint) : []
+    if (changed.length > 0) {
+      throw new CliError(
+        `${docxPath} is not the document ${translationsPath} was extracted from (${header.originalFile}), ${changed.join(', ')} changed`,
+        EXIT_CODES.problems,
+        'Use the original DOCX, or pass its extraction with --extraction to inject what still matches',
+      )
+    }
+    extraction = {
+      ...header,
+      segments: extractSegments(docx.files, {
+        revisions: header.revisions ?? 'fail',
+        segmentation: header.segmentation,
+        sourceLanguage: header.sourceLanguage,
+      }),
+    }
+    origin = `the header of ${translationsPath}`
+    missingPrefilled = header.prefilled ?? 0
+  }
+
+  if (!extraction) {
+    throw new CliError(
+      `Original extraction not found: ${getOutputPath(docxPath, '.json')}`,
+      EXIT_CODES.error,
+      `Run 'translate-docx extract ${docxPath}' first, or pass --extraction <original.json>`,
+    )
+  }
+
+  const changedParts = new Set<string>()
+  for (const expected of [header?.fingerprint, extraction.fingerprint]) {
+    if (expected) {
+      compareFingerprints(expected, docx.fingerprint).forEach(path => changedParts.add(path))
+    }
+  }
+  return { extraction, origin, changedParts: [...changedParts], missingPrefilled }
+}
+
+/**
+ * Find the extraction a translations file belongs to: <name>.json next to it,
+ * dropping extra suffixes like the ".fr" of "report.fr.txt" until one exists
+ */
+export async function findExtraction(translationsPath: string): Promise<string | undefined> {
+  let name = basename(translationsPath, extname(translationsPath)).replace(/_bilingual$/, '')
+  while (true) {
+    const path = join(dirname(translationsPath), `${name}.json`)
+    if (path !== translationsPath && await Bun.file(path).exists()) {
+      return path
+    }
+    if (!extname(name)) {
+      return undefined
+    }
+    name = basename(name, extname(name))
+  }
+}
+
+/**
+ * Read a --fonts file: fonts by language code, e.g. {"zh": {"eastAsia": "SimSun"}}
+ */
+export async function readFontsFile(path: string): Promise<Record<string, FontMapping>> {
+  await requireFile(path)
+  let fonts: unknown
+  try {
+    fonts = JSON.parse(await Bun.file(path).text())
+  }
+  catch (err) {
+    throw new CliError(`${path} is not valid JSON: ${err instanceof Error ? err.message : String(err)}`)
+  }
+  const valid = typeof fonts === 'object' && fonts !== null && !Array.isArray(fonts)
+    && Object.values(fonts).every(mapping => typeof mapping === 'object' && mapping !== null
+      && Object.entries(mapping).every(([slot, font]) => FONT_SLOTS.includes(slot as FontSlot) && typeof font === 'string'))
+  if (!valid) {
+    throw new CliError(
+      `${path} is not a fonts file`,
+      EXIT_CODES.error,
+      `Map language codes to fonts by slot (${FONT_SLOTS.join(', ')}), e.g. {"zh": {"eastAsia": "SimSun"}}`,
+    )
+  }
+  return fonts as Record<string, FontMapping>
+}
+
+/**
+ * Check that a file exists before reading it
+ */
+export async function requireFile(path: string): Promise<void> {
+  if (!(await Bun.file(path).exists())) {
+    throw new CliError(`File not found: ${path}`)
+  }
+}
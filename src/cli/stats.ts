@@ -0,0 +1,91 @@
+import type { SegmentCounts } from '../lib/stats'
+import type { ParagraphSegment } from '../lib/types'
+import type { Command } from './command'
+import { extname } from 'node:path'
+import { extractDocx } from '../docx-utils'
+import { extractSegments } from '../lib/segments'
+import { getDocumentStats } from '../lib/stats'
+import { loadTranslationsFile, readTranslationFile } from '../translations-file'
+import { CliError, COMMON_HELP, EXIT_CODES, parseChoice, parseCommandArgs } from './command'
+import { RANGE_HELP, requireFile, selectRange } from './options'
+
+/**
+ * Format counts for a line of the report
+ */
+function formatCounts(counts: SegmentCounts): string {
+  return `${counts.segments} segments, ${counts.words} words, ${counts.characters} characters`
+}
+
+export const statsCommand: Command = {
+  summary: 'Count the segments, words and characters of a DOCX or an extraction',
+  help: `Usage: translate-docx stats <input.docx|extraction.json> [options]
+
+A DOCX is extracted on the fly; an extraction JSON also reports how much is translated.
+
+Options:
+      --translations <file>  Count the translations of a .txt, .xlf, .po or _bilingual.docx file (with a JSON)
+      --range <range>        Only count these segments: ${RANGE_HELP}
+      --from <lang>          Source language, for word counts and sentences (default from the extraction)
+      --sentences            Count sentences instead of paragraphs (DOCX only)
+      --revisions <mode>     Tracked changes: accept, reject or fail (default fail, DOCX only)
+      --include-fuzzy        Count PO entries flagged as fuzzy as translated
+
+${COMMON_HELP}`,
+
+  async run(args, output) {
+    const { values, positionals } = parseCommandArgs(args, {
+      'translations': { type: 'string' },
+      'range': { type: 'string' },
+      'from': { type: 'string' },
+      'sentences': { type: 'boolean', default: false },
+      'revisions': { type: 'string', default: 'fail' },
+      'include-fuzzy': { type: 'boolean', default: false },
+    })
+
+    if (positionals.length !== 1) {
+      throw new CliError('Expected one DOCX or extraction JSON', EXIT_CODES.usage)
+    }
+    const inputPath = positionals[0]!
+    await requireFile(inputPath)
+    const revisions = parseChoice('revisions', values.revisions, ['accept', 'reject', 'fail'])
+
+    let segments: ParagraphSegment[]
+    let translations = new Map<string, string>()
+    let language = values.from
+    if (extname(inputPath).toLowerCase() === '.docx') {
+      if (values.translations) {
+        throw new CliError('--translations needs an extraction JSON, not a DOCX', EXIT_CODES.usage)
+      }
+      segments = extractSegments(await extractDocx(inputPath), {
+        revisions,
+        segmentation: values.sentences ? 'sentence' : 'paragraph',
+        sourceLanguage: language,
+      })
+    }
+    else {
+      const extraction = await readTranslationFile(inputPath)
+      segments = extraction.segments
+      language ??= extraction.sourceLanguage
+      translations = values.translations
+        ? (await loadTranslationsFile(values.translations, extraction, { includeFuzzy: values['include-fuzzy'] })).translations
+        : new Map(segments.filter(seg => seg.translation).map(seg => [seg.id, seg.translation!]))
+    }
+
+    const stats = getDocumentStats(selectRange(segments, values.range), translations, language)
+    const percent = stats.words > 0 ? Math.round(stats.translated.words / stats.words * 100) : 100
+
+    output.log(`📊 ${inputPath}${values.range ? ` (range ${values.range})` : ''}`)
+    output.log(`   Total: ${formatCounts(stats)}`)
+    output.log(`   Translated: ${formatCounts(stats.translated)} (${percent}% of the words)`)
+    output.log('   By kind:')
+    for (const [kind, counts] of Object.entries(stats.byKind)) {
+      output.log(`     - ${kind}: ${formatCounts(counts)}`)
+    }
+    output.log('   By part:')
+    for (const [part, counts] of Object.entries(stats.byPart)) {
+      output.log(`     - ${part}: ${formatCounts(counts)}`)
+    }
+
+    return { exitCode: EXIT_CODES.success, result: { ...stats, translatedPercent: percent } }
+  },
+}
@@ -0,0 +1,154 @@
+import type { Command } from './command'
+import process from 'node:process'
+import { findGlossaryTerms, formatGlossaryPrompt, parseGlossary } from '../lib/glossary'
+import { buildTranslationPrompt, translateSegments } from '../lib/mt'
+import { readTranslationFile } from '../translations-file'
+import { CliError, COMMON_HELP, EXIT_CODES, parseCommandArgs } from './command'
+import { requireFile } from './options'
+
+/**
+ * Parse a whole number option, at least `min`
+ */
+function parseCount(name: string, value: string, min: number): number {
+  const count = Number(value)
+  if (!Number.isInteger(count) || count < min) {
+    throw new CliError(`Invalid --${name}: ${value} (use a whole number from ${min})`, EXIT_CODES.usage)
+  }
+  return count
+}
+
+export const translateCommand: Command = {
+  summary: 'Fill in an extraction JSON with machine translation',
+  help: `Usage: translate-docx translate <extraction.json> --model <name> [options]
+
+Sends the untranslated segments to an OpenAI-compatible chat API, e.g. a local llama.cpp
+or Ollama server, and saves the JSON after every batch. Segments that are already translated
+are kept, so running the command again continues where it stopped.
+
+Options:
+      --model <name>       Model name (default OPENAI_MODEL)
+      --endpoint <url>     API base URL (default OPENAI_BASE_URL or http://localhost:11434/v1)
+      --api-key <key>      API key (default OPENAI_API_KEY)
+  -t, --to <lang>          Target language (default from the extraction)
+      --batch-size <n>     Segments per request (default 20)
+      --concurrency <n>    Requests at the same time (default 4)
+      --retries <n>        Retries of a failed request (default 3)
+      --glossary <file>    CSV or TBX glossary; matching terms go into the prompt
+
+${COMMON_HELP}`,
+
+  async run(args, output) {
+    const { values, positionals } = parseCommandArgs(args, {
+      'model': { type: 'string', default: process.env.OPENAI_MODEL },
+      'endpoint': { type: 'string', default: process.env.OPENAI_BASE_URL ?? 'http://localhost:11434/v1' },
+      'api-key': { type: 'string', default: process.env.OPENAI_API_KEY },
+      'to': { type: 'string', short: 't' },
+      'batch-size': { type: 'string', default: '20' },
+      'concurrency': { type: 'string', default: '4' },
+      'retries': { type: 'string', default: '3' },
+      'glossary': { type: 'string' },
+    })
+
+    if (positionals.length !== 1) {
+      throw new CliError('Expected one extraction JSON', EXIT_CODES.usage)
+    }
+    if (!values.model) {
+      throw new CliError('Missing --model', EXIT_CODES.usage, 'Pass --model <name> or set OPENAI_MODEL')
+    }
+    const batchSize = parseCount('batch-size', values['batch-size'], 1)
+    const concurrency = parseCount('concurrency', values.concurrency, 1)
+    const retries = parseCount('retries', values.retries, 0)
+
+    const jsonPath = positionals[0]!
+    await requireFile(jsonPath)
+    if (values.glossary) {
+      await requireFile(values.glossary)
+    }
+    const translationFile = await readTranslationFile(jsonPath)
+    const targetLanguage = values.to ?? translationFile.targetLanguage
+    if (!targetLanguage) {
+      throw new CliError('No target language', EXIT_CODES.usage, 'Pass --to <lang> or extract with --to')
+    }
+
+    // Segments translated by an earlier (interrupted) run or the translation memory are kept
+    const pending = translationFile.segments.filter(seg => !seg.translation)
+    output.log(`📄 Translating ${pending.length} of ${translationFile.segments.length} segments from ${jsonPath}`)
+    output.log(`🌐 ${values.endpoint} (${values.model})`)
+
+    if (pending.length === 0) {
+      output.log('\n✅ Nothing to translate')
+      return { exitCode: EXIT_CODES.success, result: { translated: 0, failed: [] } }
+    }
+
+    const languageName = new Intl.DisplayNames(['en'], { type: 'language' }).of(targetLanguage) ?? targetLanguage
+    let prompt = buildTranslationPrompt(languageName)
+
+    if (values.glossary) {
+      const glossary = parseGlossary(await Bun.file(values.glossary).text(), {
+        sourceLanguage: translationFile.sourceLanguage,
+        targetLanguage,
+      })
+      const terms = findGlossaryTerms(glossary, pending.map(seg => seg.text))
+      if (terms.length > 0) {
+        prompt += `\n\n${formatGlossaryPrompt(terms)}`
+      }
+    }
+
+    // Save after every batch, so an interrupted run continues where it stopped
+    let saving = Promise.resolve()
+    const save = (translations: Map<string, string>) => {
+      const now = new Date().toISOString()
+      for (const segment of pending) {
+        const translation = translations.get(segment.id)
+        if (!segment.translation && translation) {
+          segment.translation = translation
+          segment.status = 'translated'
+          segment.updatedAt = now
+        }
+      }
+      const json = JSON.stringify({ ...translationFile, targetLanguage }, null, 2)
+      saving = saving.then(async () => {
+        await Bun.write(jsonPath, json)
+      })
+    }
+
+    const result = await translateSegments(pending, {
+      endpoint: values.endpoint,
+      model: values.model,
+      apiKey: values['api-key'],
+      prompt,
+      batchSize,
+      concurrency,
+      retries,
+      onProgress: ({ done, total, translations }) => {
+        output.log(`  - ${done}/${total} segments translated`)
+        save(translations)
+      },
+    })
+
+    save(result.translations)
+    await saving
+
+    for (const error of new Set(result.errors)) {
+      output.warn(`  ⚠️  ${error}`)
+    }
+
+    if (result.failed.length > 0) {
+      output.error(`\n❌ ${result.failed.length} segments were not translated (${result.failed.join(', ')})`)
+      output.error(`   Run the same command again to retry them.`)
+    }
+    else {
+      output.log(`\n✅ Translated ${result.translations.size} segments`)
+    }
+    output.log(`📁 Saved to: ${jsonPath}`)
+
+    return {
+      exitCode: result.failed.length > 0 ? EXIT_CODES.error : EXIT_CODES.success,
+      result: {
+        translated: result.translations.size,
+        failed: result.failed,
+        errors: [...new Set(result.errors)],
+      },
+    }
+  },
+}
@@ -0,0 +1,152 @@
+import type { TranslationFile } from '../lib/types'
+import type { Command } from './command'
+import { basename, resolve } from 'node:path'
+import { extractDocxWithFingerprint } from '../docx-utils'
+import { formatTxt, formatTxtHeader } from '../lib/formats'
+import { TRANSLATION_FILE_VERSION } from '../lib/schema'
+import { extractSegments } from '../lib/segments'
+import { formatUpdateReport, updateSegments } from '../lib/update'
+import { loadTranslationsFile, readTranslationFile } from '../translations-file'
+import { CliError, COMMON_HELP, EXIT_CODES, parseChoice, parseCommandArgs } from './command'
+import { getOutputPath, requireFile } from './options'
+
+export const updateCommand: Command = {
+  summary: 'Carry the translations of a previous extraction over to a new version of the DOCX',
+  help: `Usage: translate-docx update <new.docx> <previous.json> [output.json] [options]
+
+Extracts the new DOCX the way the previous extraction was made, and keeps the translations
+of unchanged, moved and edited paragraphs. Writes output.json (default <name>.json next to the
+new DOCX), <name>.txt with the new segments and the changed ones to review, and <name>_changes.txt.
+Refuses to overwrite the previous extraction.
+
+Options:
+      --translations <file>  Translations of the previous version, if they are not in its JSON
+                             (.txt, .xlf, .po or _bilingual.docx)
+      --include-fuzzy        Use PO entries flagged as fuzzy
+      --min-score <0-1>      Lowest similarity for an edited paragraph to keep its translation (default 0.75)
+      --revisions <mode>     Tracked changes of the new DOCX: accept, reject or fail
+                             (default the choice of the previous extraction)
+      --no-properties        Skip the document properties
+      --no-alt-text          Skip the alt text of images and shapes
+
+${COMMON_HELP}`,
+
+  async run(args, output) {
+    const { values, positionals } = parseCommandArgs(args, {
+      'translations': { type: 'string' },
+      'include-fuzzy': { type: 'boolean', default: false },
+      'min-score': { type: 'string', default: '0.75' },
+      'revisions': { type: 'string' },
+      'no-properties': { type: 'boolean', default: false },
+      'no-alt-text': { type: 'boolean', default: false },
+    })
+
+    if (positionals.length < 2 || positionals.length > 3) {
+      throw new CliError('Expected the new DOCX, the previous extraction and optionally the output JSON', EXIT_CODES.usage)
+    }
+    const minScore = Number(values['min-score'])
+    if (Number.isNaN(minScore) || minScore < 0 || minScore > 1) {
+      throw new CliError(`Invalid --min-score: ${values['min-score']} (use a number from 0 to 1)`, EXIT_CODES.usage)
+    }
+
+    const [inputPath, previousPath] = positionals as [string, string]
+    const outputPath = positionals[2] ?? getOutputPath(inputPath, '.json')
+    const txtPath = getOutputPath(outputPath, '.txt')
+    const reportPath = getOutputPath(outputPath, '_changes.txt')
+    await requireFile(inputPath)
+    await requireFile(previousPath)
+    if (values.translations) {
+      await requireFile(values.translations)
+    }
+
+    // A revised DOCX often keeps its name, its extraction would replace the previous one
+    const inputs = [previousPath, values.translations].filter(path => path !== undefined).map(path => resolve(path))
+    const overwritten = [outputPath, txtPath, reportPath].find(path => inputs.includes(resolve(path)))
+    if (overwritten) {
+      throw new CliError(`Updating would overwrite ${overwritten}`, EXIT_CODES.usage, 'Pass another output JSON')
+    }
+
+    output.log(`📄 New DOCX: ${inputPath}`)
+    output.log(`📝 Previous extraction: ${previousPath}`)
+
+    const previous = await readTranslationFile(previousPath)
+
+    // Translations kept outside the JSON
+    if (values.translations) {
+      const loaded = await loadTranslationsFile(values.translations, previous, {
+        includeFuzzy: values['include-fuzzy'],
+      })
+      for (const segment of previous.segments) {
+        const translation = loaded.translations.get(segment.id)
+        if (translation?.trim() && translation !== segment.translation) {
+          segment.translation = translation
+          segment.status = loaded.statuses.get(segment.id) ?? 'translated'
+        }
+      }
+      output.log(`📖 Parsed ${loaded.translations.size} previous translations from ${loaded.format}`)
+    }
+
+    const revisions = parseChoice('revisions', values.revisions ?? previous.revisions ?? 'fail', ['accept', 'reject', 'fail'])
+
+    const { files, fingerprint } = await extractDocxWithFingerprint(inputPath)
+    const segments = extractSegments(files, {
+      properties: !values['no-properties'],
+      altText: !values['no-alt-text'],
+      revisions,
+      segmentation: previous.segmentation,
+      sourceLanguage: previous.sourceLanguage,
+    })
+
+    const summary = updateSegments(segments, previous.segments, { minScore })
+    output.log(`📊 ${summary.unchanged} unchanged, ${summary.moved} moved, ${summary.changed} changed, ${summary.new} new, ${summary.removed.length} removed`)
+    output.log(`🧠 Carried over ${summary.carried} translations`)
+
+    const translationFile: TranslationFile = {
+      version: TRANSLATION_FILE_VERSION,
+      sourceLanguage: previous.sourceLanguage,
+      targetLanguage: previous.targetLanguage,
+      originalFile: basename(inputPath),
+      extractedAt: new Date().toISOString(),
+      revisions: revisions === 'fail' ? undefined : revisions,
+      segmentation: previous.segmentation,
+      fingerprint,
+      segments,
+    }
+    await Bun.write(outputPath, JSON.stringify(translationFile, null, 2))
+    output.log(`\n✅ Updated ${segments.length} segments`)
+    output.log(`📁 Output saved to: ${outputPath}`)
+
+    // What is left to translate: new segments with their source, and changed ones with the translation to review
+    const todo = segments
+      .filter(seg => !seg.translation || seg.change?.status === 'changed')
+      .map(seg => seg.translation ? { ...seg, text: seg.translation } : seg)
+    const { segments: _segments, ...header } = translationFile
+    const prefilled = segments.filter(seg => seg.translation && seg.change?.status !== 'changed').length
+    await Bun.write(txtPath, formatTxt(todo, formatTxtHeader({ ...header, prefilled: prefilled || undefined })))
+    output.log(`📁 ${todo.length} segments to translate or review saved to: ${txtPath}`)
+
+    await Bun.write(reportPath, formatUpdateReport(segments, summary))
+    output.log(`📁 Change report saved to: ${reportPath}`)
+
+    output.log(`
+📋 Next steps:
+   1. Translate the new segments and review the changed ones in ${basename(txtPath)},
+      they hold their previous translation (${basename(reportPath)} shows what changed in the source)
+   2. Run: translate-docx inject ${inputPath} ${txtPath} --extraction ${outputPath}
+`)
+
+    return {
+      exitCode: EXIT_CODES.success,
+      result: {
+        files: { json: outputPath, txt: txtPath, report: reportPath },
+        segments: segments.length,
+        unchanged: summary.unchanged,
+        moved: summary.moved,
+        changed: summary.changed,
+        new: summary.new,
+        removed: summary.removed.map(segment => segment.id),
+        carried: summary.carried,
+      },
+    }
+  },
+}
@@ -0,0 +1,148 @@
+import type { GlossaryIssue } from '../lib/glossary'
+import type { Command } from './command'
+import { extractDocxWithFingerprint } from '../docx-utils'
+import { checkGlossary, parseGlossary } from '../lib/glossary'
+import { groupQaIssues, runQaChecks } from '../lib/qa'
+import { extractSegments } from '../lib/segments'
+import { loadTranslationsFile } from '../translations-file'
+import { CliError, COMMON_HELP, EXIT_CODES, parseCommandArgs } from './command'
+import { RANGE_HELP, requireFile, resolveExtraction, selectRange } from './options'
+
+export const validateCommand: Command = {
+  summary: 'Check translations against a DOCX and its extraction without writing anything',
+  help: `Usage: translate-docx validate <original.docx> <translations.json|.txt|.xlf|.po|_bilingual.docx> [options]
+
+Checks that the DOCX is the one the translations were extracted from, that every translated ID exists,
+and runs the QA checks (numbers, tags, placeholders, URLs, length...).
+Exits with ${EXIT_CODES.problems} if it finds problems.
+
+Options:
+      --extraction <file>  The extraction JSON (default: the translations file if it is a JSON,
+                           <name>.json next to the DOCX, or the header of a .txt file)
+      --range <range>      Only check these segments: ${RANGE_HELP}
+      --complete           Also count segments without a translation as problems
+      --glossary <file>    CSV or TBX glossary to check the translations against
+      --from <lang>        Source language of the glossary (default from the extraction)
+  -t, --to <lang>          Target language of the glossary (default from the extraction)
+      --include-fuzzy      Use PO entries flagged as fuzzy
+
+${COMMON_HELP}`,
+
+  async run(args, output) {
+    const { values, positionals } = parseCommandArgs(args, {
+      'extraction': { type: 'string' },
+      'range': { type: 'string' },
+      'complete': { type: 'boolean', default: false },
+      'glossary': { type: 'string' },
+      'from': { type: 'string' },
+      'to': { type: 'string', short: 't' },
+      'include-fuzzy': { type: 'boolean', default: false },
+    })
+
+    if (positionals.length !== 2) {
+      throw new CliError('Expected the original DOCX and a translations file', EXIT_CODES.usage)
+    }
+    const [docxPath, translationsPath] = positionals as [string, string]
+    await requireFile(docxPath)
+    await requireFile(translationsPath)
+    if (values.glossary) {
+      await requireFile(values.glossary)
+    }
+
+    const docx = await extractDocxWithFingerprint(docxPath)
+    const { extraction: original, origin, changedParts } = await resolveExtraction(docxPath, translationsPath, docx, values.extraction)
+    const { translations, format } = await loadTranslationsFile(translationsPath, original, {
+      includeFuzzy: values['include-fuzzy'],
+    })
+    const selected = selectRange(original.segments, values.range)
+    output.log(`🔍 Validating ${translations.size} translations from ${format} against ${docxPath}`)
+    output.log(`🗂️  Segments from: ${origin}`)
+
+    // The document has to be the one the translations were made for, and give the same segments
+    const documentErrors = changedParts.length > 0
+      ? [`${changedParts.join(', ')} changed since the extraction from ${original.originalFile}`]
+      : []
+    const mismatched: string[] = []
+    try {
+      const current = new Map(extractSegments(docx.files, {
+        revisions: original.revisions ?? 'fail',
+        segmentation: original.segmentation,
+        sourceLanguage: original.sourceLanguage,
+      }).map(segment => [segment.id, segment.text]))
+      mismatched.push(...selected
+        .filter(segment => current.get(segment.id) !== segment.text)
+        .map(segment => segment.id))
+    }
+    catch (err) {
+      documentErrors.push(err instanceof Error ? err.message : String(err))
+    }
+
+    const known = new Set(original.segments.map(segment => segment.id))
+    const unknown = [...translations.keys()].filter(id => !known.has(id))
+    const missing = selected.filter(segment => !translations.get(segment.id)?.trim()).map(segment => segment.id)
+    const qaIssues = runQaChecks(selected, translations)
+
+    let glossaryIssues: GlossaryIssue[] = []
+    if (values.glossary) {
+      const glossary = parseGlossary(await Bun.file(values.glossary).text(), {
+        sourceLanguage: values.from ?? original.sourceLanguage,
+        targetLanguage: values.to ?? original.targetLanguage,
+      })
+      glossaryIssues = checkGlossary(selected, translations, glossary)
+    }
+
+    for (const message of documentErrors) {
+      output.warn(`  ⚠️  ${message}`)
+    }
+    if (mismatched.length > 0) {
+      output.warn(`  ⚠️  ${mismatched.length} segments no longer match the DOCX: ${mismatched.join(', ')}`)
+    }
+    if (unknown.length > 0) {
+      output.warn(`  ⚠️  ${unknown.length} translations have IDs that are not in the extraction: ${unknown.join(', ')}`)
+    }
+    if (missing.length > 0) {
+      const message = `${missing.length} segments have no translation: ${missing.join(', ')}`
+      if (values.complete) {
+        output.warn(`  ⚠️  ${message}`)
+      }
+      else {
+        output.log(`📝 ${message}`)
+      }
+    }
+    if (qaIssues.length > 0) {
+      output.warn(`  ⚠️  QA found ${qaIssues.length} problems:`)
+      for (const [id, issues] of groupQaIssues(qaIssues)) {
+        output.warn(`     [${id}] ${issues.map(issue => issue.message).join('; ')}`)
+      }
+    }
+    if (glossaryIssues.length > 0) {
+      output.warn(`  ⚠️  ${glossaryIssues.length} glossary terms are not translated as required:`)
+      for (const issue of glossaryIssues) {
+        output.warn(`     [${issue.id}] "${issue.source}" should be "${issue.target}"`)
+      }
+    }
+
+    const problemCount = documentErrors.length + mismatched.length + unknown.length + qaIssues.length
+      + glossaryIssues.length + (values.complete ? missing.length : 0)
+    if (problemCount === 0) {
+      output.log(`✅ No problems found`)
+    }
+    else {
+      output.error(`❌ Found ${problemCount} problems`)
+    }
+
+    return {
+      exitCode: problemCount > 0 ? EXIT_CODES.problems : EXIT_CODES.success,
+      result: {
+        valid: problemCount === 0,
+        problems: problemCount,
+        documentErrors,
+        mismatched,
+        unknown,
+        missing,
+        qa: qaIssues,
+        glossary: glossaryIssues,
+      },
+    }
+  },
+}
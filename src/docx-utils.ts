@@ -1,5 +1,7 @@
+import type { DocumentFingerprint } from './lib/types'
 import { promisify } from 'node:util'
 import { unzip, zip } from 'fflate'
+import { fingerprintDocx } from './lib/fingerprint'
 
 const unzipAsync = promisify(
   (
@@ -27,6 +29,17 @@ export async function extractDocx(
   return await unzipAsync(data)
 }
 
+/**
+ * Extract all files from a DOCX and fingerprint it, to check later that translations belong to it
+ */
+export async function extractDocxWithFingerprint(
+  docxPath: string,
+): Promise<{ files: Record<string, Uint8Array>, fingerprint: DocumentFingerprint }> {
+  const data = new Uint8Array(await Bun.file(docxPath).arrayBuffer())
+  const files = await unzipAsync(data)
+  return { files, fingerprint: await fingerprintDocx(data, files) }
+}
+
 /**
  * Create a DOCX file from the extracted files
  */
@@ -37,48 +50,3 @@ export async function createDocx(
   const zipped = await zipAsync(files)
   await Bun.write(outputPath, zipped)
 }
-
-/**
- * Get text content from an XML file in the DOCX
- */
-export function getXmlContent(
-  files: Record<string, Uint8Array>,
-  path: string,
-): string {
-  const file = files[path]
-  if (!file) {
-    throw new Error(`File not found in DOCX: ${path}`)
-  }
-  return new TextDecoder().decode(file)
-}
-
-/**
- * Set text content for an XML file in the DOCX
- */
-export function setXmlContent(
-  files: Record<string, Uint8Array>,
-  path: string,
-  content: string,
-): void {
-  files[path] = new TextEncoder().encode(content)
-}
-
-/**
- * List all XML files in the DOCX that may contain translatable text
- */
-export function getTranslatableFiles(
-  files: Record<string, Uint8Array>,
-): string[] {
-  const translatablePatterns = [
-    /^word\/document\.xml$/,
-    /^word\/header\d*\.xml$/,
-    /^word\/footer\d*\.xml$/,
-    /^word\/footnotes\.xml$/,
-    /^word\/endnotes\.xml$/,
-    /^word\/comments\.xml$/,
-  ]
-
-  return Object.keys(files).filter(path =>
-    translatablePatterns.some(pattern => pattern.test(path)),
-  )
-}
@@ -0,0 +1,41 @@
+import { describe, expect, it } from 'bun:test'
+import { estimateTokens, measureText, splitIntoBatches } from './batches'
+import { segment } from './test-helpers'
+
+function ids(batches: { id: string }[][]): string[][] {
+  return batches.map(batch => batch.map(seg => seg.id))
+}
+
+describe('estimateTokens', () => {
+  it('counts about four characters per token, one per CJK character', () => {
+    expect(estimateTokens('abcdefgh')).toBe(2)
+    expect(estimateTokens('翻訳する')).toBe(4)
+    expect(estimateTokens('')).toBe(0)
+  })
+
+  it('measures in characters on request', () => {
+    expect(measureText('abcdefgh', 'chars')).toBe(8)
+  })
+})
+
+describe('splitIntoBatches', () => {
+  // Each is 20 characters as a [pN] block: "[p0]\n" + 13 characters + "\n\n"
+  const segments = ['p0', 'p1', 'p2', 'p3', 'p4'].map(id => segment(id, 'Thirteen char'))
+
+  it('fills batches up to the budget, in order', () => {
+    expect(ids(splitIntoBatches(segments, { budget: 40, unit: 'chars' }))).toEqual([['p0', 'p1'], ['p2', 'p3'], ['p4']])
+  })
+
+  it('limits the segments per batch', () => {
+    expect(ids(splitIntoBatches(segments, { budget: 1000, unit: 'chars', maxSegments: 3 }))).toEqual([['p0', 'p1', 'p2'], ['p3', 'p4']])
+  })
+
+  it('gives a segment larger than the budget a batch of its own', () => {
+    const long = [segment('p0', 'Short'), segment('p1', 'x'.repeat(100)), segment('p2', 'Short')]
+    expect(ids(splitIntoBatches(long, { budget: 30, unit: 'chars' }))).toEqual([['p0'], ['p1'], ['p2']])
+  })
+
+  it('returns no batches for no segments', () => {
+    expect(splitIntoBatches([], { budget: 10 })).toEqual([])
+  })
+})
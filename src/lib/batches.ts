@@ -0,0 +1,58 @@
+import type { ParagraphSegment } from './types'
+
+export type BatchUnit = 'tokens' | 'chars'
+
+export interface BatchOptions {
+  /** Maximum size of a batch, in `unit` */
+  budget: number
+  /** How to measure the budget (default tokens) */
+  unit?: BatchUnit
+  /** Maximum segments per batch */
+  maxSegments?: number
+}
+
+// Scripts that take about one token per character (CJK, kana, hangul, fullwidth forms)
+const DENSE_SCRIPT_REGEX = /[\u3000-\u9FFF\uAC00-\uD7AF\uF900-\uFAFF\uFF00-\uFFEF]/g
+
+/**
+ * Estimate the number of LLM tokens of a text
+ * About four characters per token, one per character for CJK scripts
+ */
+export function estimateTokens(text: string): number {
+  const dense = text.match(DENSE_SCRIPT_REGEX)?.length ?? 0
+  return Math.ceil(dense + (text.length - dense) / 4)
+}
+
+/**
+ * Measure a text in characters or estimated tokens
+ */
+export function measureText(text: string, unit: BatchUnit = 'tokens'): number {
+  return unit === 'chars' ? text.length : estimateTokens(text)
+}
+
+/**
+ * Split segments into consecutive batches that fit the budget, measured as [pN] blocks
+ * Segments are never split, one larger than the budget gets a batch of its own
+ */
+export function splitIntoBatches(segments: ParagraphSegment[], options: BatchOptions): ParagraphSegment[][] {
+  const { budget, unit = 'tokens', maxSegments = Infinity } = options
+  const batches: ParagraphSegment[][] = []
+  let batch: ParagraphSegment[] = []
+  let size = 0
+
+  for (const segment of segments) {
+    const segmentSize = measureText(`[${segment.id}]\n${segment.text}\n\n`, unit)
+    if (batch.length > 0 && (batch.length >= maxSegments || size + segmentSize > budget)) {
+      batches.push(batch)
+      batch = []
+      size = 0
+    }
+    batch.push(segment)
+    size += segmentSize
+  }
+
+  if (batch.length > 0) {
+    batches.push(batch)
+  }
+  return batches
+}
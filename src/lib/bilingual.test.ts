@@ -0,0 +1,48 @@
+import type { ParagraphSegment } from './types'
+import { describe, expect, it } from 'bun:test'
+import { createBilingualDocx, parseBilingualDocx } from './bilingual'
+import { getXmlContent, setXmlContent } from './docx-utils'
+
+const segments: ParagraphSegment[] = [
+  { id: 'p0', text: 'Hello <1>world</1>', translation: 'Bonjour <1>monde</1>', status: 'approved', source: 'word/document.xml', runCount: 2 },
+  { id: 'p1', text: 'Fish & chips', source: 'word/document.xml', runCount: 1 },
+  { id: 'p2', text: 'Goodbye', source: 'word/footer1.xml', runCount: 1 },
+]
+
+describe('createBilingualDocx', () => {
+  it('reads back the translations it was written with', () => {
+    const translations = new Map([['p0', 'Bonjour <1>monde</1>'], ['p1', 'Poisson & frites']])
+    const files = createBilingualDocx(segments, translations, { originalFile: 'report.docx' })
+    expect(parseBilingualDocx(files)).toEqual(translations)
+  })
+
+  it('shows the status of every segment', () => {
+    const translations = new Map([['p0', 'Bonjour <1>monde</1>'], ['p1', 'Poisson & frites']])
+    const xml = getXmlContent(createBilingualDocx(segments, translations, { mismatched: ['p2'] }), 'word/document.xml')!
+
+    expect(xml).toContain('>Approved<')
+    expect(xml).toContain('>Translated<')
+    expect(xml).toContain('>Source changed<')
+  })
+
+  it('does not keep the status of a translation that was changed since', () => {
+    const xml = getXmlContent(createBilingualDocx(segments, new Map([['p0', 'Salut <1>monde</1>']])), 'word/document.xml')!
+    expect(xml).not.toContain('>Approved<')
+    expect(xml).toContain('>Not translated<')
+  })
+})
+
+describe('parseBilingualDocx', () => {
+  it('keeps inserted and leaves out deleted text of a review', () => {
+    const files = createBilingualDocx(segments.slice(0, 1), new Map([['p0', 'Bonjour <1>monde</1>']]))
+    const xml = getXmlContent(files, 'word/document.xml')!.replace(
+      '<w:r><w:t xml:space="preserve">Bonjour &lt;1&gt;monde&lt;/1&gt;</w:t></w:r>',
+      '<w:del w:id="1" w:author="Reviewer"><w:r><w:delText>Bonjour </w:delText></w:r></w:del>'
+      + '<w:ins w:id="2" w:author="Reviewer"><w:r><w:t xml:space="preserve">Salut </w:t></w:r></w:ins>'
+      + '<w:r><w:t>&lt;1&gt;monde&lt;/1&gt;</w:t></w:r>',
+    )
+    setXmlContent(files, 'word/document.xml', xml)
+
+    expect(parseBilingualDocx(files).get('p0')).toBe('Salut <1>monde</1>')
+  })
+})
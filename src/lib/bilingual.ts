@@ -0,0 +1,216 @@
+import type { ParagraphSegment, SegmentStatus } from './types'
+import { getXmlContent } from './docx-utils'
+import { getSegmentStatus } from './segments'
+import { formatParagraphProperties, formatRunProperties, getTargetFormatting } from './target-language'
+import { tokenizeXml } from './xml-tokenizer'
+import { escapeXml, unescapeXml, W_NAMESPACE } from './xml-utils'
+
+export interface BilingualOptions {
+  /** Original DOCX filename, shown in the title */
+  originalFile?: string
+  sourceLanguage?: string
+  targetLanguage?: string
+  /** IDs of segments whose paragraph changed since the extraction */
+  mismatched?: string[]
+}
+
+// Landscape A4 with 2 cm margins, in twentieths of a point
+const PAGE_WIDTH = 16838
+const PAGE_HEIGHT = 11906
+const PAGE_MARGIN = 1134
+
+// Widths of the ID, source and translation columns
+const ID_COLUMN_WIDTH = 1800
+const TEXT_COLUMN_WIDTH = (PAGE_WIDTH - 2 * PAGE_MARGIN - ID_COLUMN_WIDTH) / 2
+
+// Segment IDs in the first column, e.g. p12 or p12.s3
+const ID_REGEX = /^[a-z]+\d+(?:\.s\d+)?$/
+
+const CONTENT_TYPES = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types"><Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/><Default Extension="xml" ContentType="application/xml"/><Override PartName="/word/document.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.document.main+xml"/><Override PartName="/word/styles.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.styles+xml"/></Types>`
+
+const PACKAGE_RELATIONSHIPS = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships"><Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="word/document.xml"/></Relationships>`
+
+const DOCUMENT_RELATIONSHIPS = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships"><Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/styles" Target="styles.xml"/></Relationships>`
+
+const STYLES = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<w:styles xmlns:w="${W_NAMESPACE}"><w:docDefaults><w:rPrDefault><w:rPr><w:rFonts w:ascii="Calibri" w:hAnsi="Calibri" w:cs="Calibri"/><w:sz w:val="20"/><w:szCs w:val="20"/></w:rPr></w:rPrDefault><w:pPrDefault><w:pPr><w:spacing w:after="60"/></w:pPr></w:pPrDefault></w:docDefaults><w:style w:type="paragraph" w:default="1" w:styleId="Normal"><w:name w:val="Normal"/></w:style><w:style w:type="paragraph" w:styleId="Title"><w:name w:val="Title"/><w:basedOn w:val="Normal"/><w:pPr><w:spacing w:after="240"/></w:pPr><w:rPr><w:b/><w:sz w:val="28"/></w:rPr></w:style></w:styles>`
+
+/**
+ * A paragraph with a single run of plain text
+ */
+function paragraphXml(text: string, runProperties = '', paragraphProperties = ''): string {
+  return `<w:p>${paragraphProperties}<w:r>${runProperties}<w:t xml:space="preserve">${escapeXml(text)}</w:t></w:r></w:p>`
+}
+
+/**
+ * A table cell of the given width holding paragraphs
+ */
+function cellXml(width: number, paragraphs: string, shading = ''): string {
+  const shd = shading ? `<w:shd w:val="clear" w:color="auto" w:fill="${shading}"/>` : ''
+  return `<w:tc><w:tcPr><w:tcW w:w="${width}" w:type="dxa"/>${shd}</w:tcPr>${paragraphs}</w:tc>`
+}
+
+// How the ID column shows the status of a segment
+const STATUS_LABELS: Record<SegmentStatus, string> = {
+  new: 'Not translated',
+  translated: 'Translated',
+  reviewed: 'Reviewed',
+  approved: 'Approved',
+}
+
+/**
+ * Get the review status of a segment
+ * A status recorded in the extraction only holds for the translation it was recorded with
+ */
+function getStatus(segment: ParagraphSegment, translation: string | undefined, options: BilingualOptions): string {
+  if (options.mismatched?.includes(segment.id)) {
+    return 'Source changed'
+  }
+  if (!translation?.trim()) {
+    return STATUS_LABELS.new
+  }
+  const status = segment.status && translation === segment.translation ? getSegmentStatus(segment) : 'translated'
+  return STATUS_LABELS[status === 'new' ? 'translated' : status]
+}
+
+/**
+ * Create a bilingual review DOCX: a table with the ID, source text and translation of every segment
+ * The ID column also shows the part the segment comes from and its status
+ * Inline tags stay in the text as they are, so the translation column can be edited and read back
+ * with `parseBilingualDocx`
+ */
+export function createBilingualDocx(
+  segments: ParagraphSegment[],
+  translations: Map<string, string>,
+  options: BilingualOptions = {},
+): Record<string, Uint8Array> {
+  const target = options.targetLanguage ? getTargetFormatting(options.targetLanguage) : undefined
+  const source = options.sourceLanguage ? getTargetFormatting(options.sourceLanguage) : undefined
+  const note = '<w:rPr><w:color w:val="666666"/><w:sz w:val="16"/><w:szCs w:val="16"/></w:rPr>'
+  const bold = '<w:rPr><w:b/></w:rPr>'
+
+  const header = `<w:tr><w:trPr><w:tblHeader/></w:trPr>${[
+    cellXml(ID_COLUMN_WIDTH, paragraphXml('ID', bold), 'F2F2F2'),
+    cellXml(TEXT_COLUMN_WIDTH, paragraphXml(options.sourceLanguage ? `Source (${options.sourceLanguage})` : 'Source', bold), 'F2F2F2'),
+    cellXml(TEXT_COLUMN_WIDTH, paragraphXml(options.targetLanguage ? `Translation (${options.targetLanguage})` : 'Translation', bold), 'F2F2F2'),
+  ].join('')}</w:tr>`
+
+  const rows = segments.map((segment) => {
+    const translation = translations.get(segment.id)
+    const idCell = paragraphXml(segment.id, bold)
+      + paragraphXml(segment.source, note)
+      + paragraphXml(getStatus(segment, translation, options), note)
+    const sourceCell = source
+      ? paragraphXml(segment.text, formatRunProperties('', 'w:r', source), formatParagraphProperties('', 'w:p', source))
+      : paragraphXml(segment.text)
+    const targetCell = target
+      ? paragraphXml(translation ?? '', formatRunProperties('', 'w:r', target), formatParagraphProperties('', 'w:p', target))
+      : paragraphXml(translation ?? '')
+    return `<w:tr><w:trPr><w:cantSplit/></w:trPr>${[
+      cellXml(ID_COLUMN_WIDTH, idCell),
+      cellXml(TEXT_COLUMN_WIDTH, sourceCell),
+      cellXml(TEXT_COLUMN_WIDTH, targetCell),
+    ].join('')}</w:tr>`
+  })
+
+  const border = (side: string) => `<w:${side} w:val="single" w:sz="4" w:space="0" w:color="BFBFBF"/>`
+  const table = `<w:tbl><w:tblPr><w:tblW w:w="0" w:type="auto"/><w:tblBorders>${['top', 'left', 'bottom', 'right', 'insideH', 'insideV'].map(border).join('')}</w:tblBorders><w:tblLayout w:type="fixed"/></w:tblPr>`
+    + `<w:tblGrid><w:gridCol w:w="${ID_COLUMN_WIDTH}"/><w:gridCol w:w="${TEXT_COLUMN_WIDTH}"/><w:gridCol w:w="${TEXT_COLUMN_WIDTH}"/></w:tblGrid>`
+    + `${header}${rows.join('')}</w:tbl>`
+
+  const title = paragraphXml(options.originalFile ? `Bilingual review: ${options.originalFile}` : 'Bilingual review', '', '<w:pPr><w:pStyle w:val="Title"/></w:pPr>')
+  const section = `<w:sectPr><w:pgSz w:w="${PAGE_WIDTH}" w:h="${PAGE_HEIGHT}" w:orient="landscape"/><w:pgMar w:top="${PAGE_MARGIN}" w:right="${PAGE_MARGIN}" w:bottom="${PAGE_MARGIN}" w:left="${PAGE_MARGIN}" w:header="708" w:footer="708" w:gutter="0"/></w:sectPr>`
+  const document = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<w:document xmlns:w="${W_NAMESPACE}"><w:body>${title}${table}<w:p/>${section}</w:body></w:document>`
+
+  const encoder = new TextEncoder()
+  return {
+    '[Content_Types].xml': encoder.encode(CONTENT_TYPES),
+    '_rels/.rels': encoder.encode(PACKAGE_RELATIONSHIPS),
+    'word/_rels/document.xml.rels': encoder.encode(DOCUMENT_RELATIONSHIPS),
+    'word/document.xml': encoder.encode(document),
+    'word/styles.xml': encoder.encode(STYLES),
+  }
+}
+
+/**
+ * Read the translations back from a reviewed bilingual DOCX
+ * Rows are found by the segment ID in their first cell, the header row and other tables are skipped
+ * Text the reviewer deleted with tracked changes is left out, inserted text is kept
+ */
+export function parseBilingualDocx(files: Record<string, Uint8Array>): Map<string, string> {
+  const xml = getXmlContent(files, 'word/document.xml')
+  const translations = new Map<string, string>()
+
+  let tableDepth = 0
+  let cells: string[][] = []
+  let paragraphs: string[] | null = null
+  let inText = false
+
+  for (const token of tokenizeXml(xml)) {
+    if (token.type === 'text' || token.type === 'cdata') {
+      if (inText && paragraphs) {
+        paragraphs[paragraphs.length - 1] += token.type === 'text'
+          ? unescapeXml(xml.slice(token.start, token.end))
+          : xml.slice(token.contentStart, token.contentEnd)
+      }
+      continue
+    }
+    if ((token.type !== 'open' && token.type !== 'close') || token.ns !== W_NAMESPACE) {
+      continue
+    }
+
+    if (token.local === 'tbl') {
+      if (token.type === 'open' && !token.selfClosing) {
+        tableDepth++
+      }
+      else if (token.type === 'close') {
+        tableDepth--
+      }
+      continue
+    }
+    // Nested tables are not part of the review table
+    if (tableDepth !== 1) {
+      continue
+    }
+
+    if (token.type === 'open') {
+      if (token.local === 'tr') {
+        cells = []
+      }
+      else if (token.local === 'tc') {
+        paragraphs = []
+        cells.push(paragraphs)
+      }
+      else if (token.local === 'p' && paragraphs) {
+        paragraphs.push('')
+      }
+      else if (token.local === 'tab' && paragraphs && paragraphs.length > 0) {
+        paragraphs[paragraphs.length - 1] += '\t'
+      }
+      else if (token.local === 't' && !token.selfClosing) {
+        inText = true
+      }
+    }
+    else if (token.type === 'close') {
+      if (token.local === 't') {
+        inText = false
+      }
+      else if (token.local === 'tc') {
+        paragraphs = null
+      }
+      else if (token.local === 'tr') {
+        const id = cells[0]?.[0]?.trim() ?? ''
+        const translation = cells[2]?.join('\n').trim() ?? ''
+        if (ID_REGEX.test(id) && translation.length > 0) {
+          translations.set(id, translation)
+        }
+      }
+    }
+  }
+
+  return translations
+}
@@ -85,6 +85,8 @@ export function getTranslatableFiles(
     /^word\/footnotes\.xml$/,
     /^word\/endnotes\.xml$/,
     /^word\/comments\.xml$/,
+    /^word\/charts\/chart\d+\.xml$/,
+    /^word\/diagrams\/data\d+\.xml$/,
   ]
 
   return Object.keys(files).filter(path =>
@@ -94,11 +96,14 @@ export function getTranslatableFiles(
 
 /**
  * Trigger a file download in the browser
+ * Defaults to the DOCX content type
  */
-export function downloadFile(data: Uint8Array, filename: string): void {
-  const blob = new Blob([data], { 
-    type: 'application/vnd.openxmlformats-officedocument.wordprocessingml.document' 
-  })
+export function downloadFile(
+  data: Uint8Array | string,
+  filename: string,
+  type: string = 'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+): void {
+  const blob = new Blob([data], { type })
   const url = URL.createObjectURL(blob)
   const a = document.createElement('a')
   a.href = url
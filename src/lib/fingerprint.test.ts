@@ -0,0 +1,34 @@
+import { describe, expect, it } from 'bun:test'
+import { strToU8, zipSync } from 'fflate'
+import { compareFingerprints, fingerprintDocx } from './fingerprint'
+
+const W = 'xmlns:w="http://schemas.openxmlformats.org/wordprocessingml/2006/main"'
+
+function parts(body: string, settings = '<w:settings/>'): Record<string, Uint8Array> {
+  return {
+    'word/document.xml': strToU8(`<w:document ${W}><w:body><w:p><w:r><w:t>${body}</w:t></w:r></w:p></w:body></w:document>`),
+    'word/settings.xml': strToU8(settings),
+  }
+}
+
+describe('fingerprintDocx', () => {
+  it('finds no changed parts for the same text, even if the DOCX was zipped again or other parts changed', async () => {
+    const original = parts('Hello')
+    const rezipped = parts('Hello', '<w:settings><w:zoom w:percent="120"/></w:settings>')
+    const expected = await fingerprintDocx(zipSync(original), original)
+    const actual = await fingerprintDocx(zipSync(rezipped, { level: 9 }), rezipped)
+
+    expect(expected.docx).not.toBe(actual.docx)
+    expect(compareFingerprints(expected, actual)).toEqual([])
+  })
+
+  it('lists the parts whose text changed', async () => {
+    const original = parts('Hello')
+    const edited = parts('Hello again')
+    const expected = await fingerprintDocx(zipSync(original), original)
+    const actual = await fingerprintDocx(zipSync(edited), edited)
+
+    expect(Object.keys(expected.parts)).toEqual(['word/document.xml'])
+    expect(compareFingerprints(expected, actual)).toEqual(['word/document.xml'])
+  })
+})
@@ -0,0 +1,42 @@
+import type { DocumentFingerprint } from './types'
+import { getTranslatableFiles } from './docx-utils'
+import { CORE_PROPERTIES_PATH } from './metadata'
+
+// Hex characters kept of each SHA-256, plenty to tell versions of a document apart
+const HASH_LENGTH = 16
+
+/**
+ * Shortened SHA-256 of some bytes, as hex
+ */
+async function hash(data: Uint8Array): Promise<string> {
+  const digest = new Uint8Array(await crypto.subtle.digest('SHA-256', data as Uint8Array<ArrayBuffer>))
+  return Array.from(digest, byte => byte.toString(16).padStart(2, '0')).join('').slice(0, HASH_LENGTH)
+}
+
+/**
+ * Fingerprint a DOCX: a hash of the whole file and of every part text is extracted from
+ */
+export async function fingerprintDocx(
+  docx: Uint8Array,
+  files: Record<string, Uint8Array>,
+): Promise<DocumentFingerprint> {
+  const paths = getTranslatableFiles(files)
+  if (files[CORE_PROPERTIES_PATH]) {
+    paths.push(CORE_PROPERTIES_PATH)
+  }
+
+  const parts: Record<string, string> = {}
+  for (const path of paths) {
+    parts[path] = await hash(files[path]!)
+  }
+  return { docx: await hash(docx), parts }
+}
+
+/**
+ * Parts whose text may differ between two fingerprints: changed, added or removed
+ * Empty when the parts are the same, even if the DOCX was re-zipped or other parts (images, settings) changed
+ */
+export function compareFingerprints(expected: DocumentFingerprint, actual: DocumentFingerprint): string[] {
+  const paths = new Set([...Object.keys(expected.parts), ...Object.keys(actual.parts)])
+  return [...paths].filter(path => expected.parts[path] !== actual.parts[path])
+}
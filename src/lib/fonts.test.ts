@@ -0,0 +1,31 @@
+import { describe, expect, it } from 'bun:test'
+import { formatFontsElement, formatFontTable, getFontMapping } from './fonts'
+
+const W = 'xmlns:w="http://schemas.openxmlformats.org/wordprocessingml/2006/main"'
+
+describe('getFontMapping', () => {
+  it('prefers the full tag and lets overrides win or turn a default off', () => {
+    expect(getFontMapping('zh-TW')).toEqual({ eastAsia: 'Microsoft JhengHei' })
+    expect(getFontMapping('zh-CN')).toEqual({ eastAsia: 'Microsoft YaHei' })
+    expect(getFontMapping('fr')).toEqual({})
+    expect(getFontMapping('ja', { ja: { eastAsia: 'MS Mincho', ascii: 'Century' } })).toEqual({ eastAsia: 'MS Mincho', ascii: 'Century' })
+    expect(getFontMapping('ar', { ar: { cs: '' } })).toEqual({})
+  })
+})
+
+describe('formatFontsElement', () => {
+  it('sets the mapped slots and drops their theme fonts', () => {
+    const rFonts = '<w:rFonts w:asciiTheme="minorHAnsi" w:eastAsiaTheme="minorEastAsia" w:hAnsi="Calibri"/>'
+    expect(formatFontsElement(rFonts, 'w:', { eastAsia: 'SimSun' }))
+      .toBe('<w:rFonts w:eastAsia="SimSun" w:asciiTheme="minorHAnsi" w:hAnsi="Calibri"/>')
+  })
+})
+
+describe('formatFontTable', () => {
+  it('adds the fonts that are missing', () => {
+    const xml = `<w:fonts ${W}><w:font w:name="Calibri"/></w:fonts>`
+    expect(formatFontTable(xml, { ascii: 'Calibri', eastAsia: 'Yu Gothic' }))
+      .toBe(`<w:fonts ${W}><w:font w:name="Calibri"/><w:font w:name="Yu Gothic"/></w:fonts>`)
+    expect(formatFontTable(xml, { ascii: 'Calibri' })).toBe(xml)
+  })
+})
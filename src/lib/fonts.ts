@@ -0,0 +1,110 @@
+import { setAttribute } from './properties'
+import { applyXmlEdits, tokenizeXml } from './xml-tokenizer'
+import { escapeXml, unescapeXml } from './xml-utils'
+
+export const FONT_TABLE_PATH = 'word/fontTable.xml'
+
+/**
+ * Fonts to use for translated text, by the w:rFonts slot they fill
+ * Slots that are not set keep the fonts of the document
+ */
+export interface FontMapping {
+  /** Latin text (w:ascii) */
+  ascii?: string
+  /** Latin text outside ASCII, e.g. accented letters (w:hAnsi) */
+  hAnsi?: string
+  /** Chinese, Japanese and Korean text (w:eastAsia) */
+  eastAsia?: string
+  /** Complex script text: Arabic, Hebrew... (w:cs) */
+  cs?: string
+}
+
+export type FontSlot = keyof FontMapping
+
+export const FONT_SLOTS: FontSlot[] = ['ascii', 'hAnsi', 'eastAsia', 'cs']
+
+// w:rFonts theme attributes win over the font names, so they are removed when a slot is set
+const THEME_ATTRIBUTES: Record<FontSlot, string> = {
+  ascii: 'asciiTheme',
+  hAnsi: 'hAnsiTheme',
+  eastAsia: 'eastAsiaTheme',
+  cs: 'cstheme',
+}
+
+/**
+ * Built-in fonts by language code, a full tag (e.g. "zh-tw") wins over the primary subtag
+ * Only scripts that Latin fonts do not cover are mapped
+ */
+export const DEFAULT_FONTS: Record<string, FontMapping> = {
+  'zh': { eastAsia: 'Microsoft YaHei' },
+  'zh-tw': { eastAsia: 'Microsoft JhengHei' },
+  'zh-hk': { eastAsia: 'Microsoft JhengHei' },
+  'ja': { eastAsia: 'Yu Gothic' },
+  'ko': { eastAsia: 'Malgun Gothic' },
+  'ar': { cs: 'Arial' },
+  'he': { cs: 'Arial' },
+  'fa': { cs: 'Tahoma' },
+  'ur': { cs: 'Arial' },
+}
+
+/**
+ * Get the fonts for a language code, with `overrides` (keyed like DEFAULT_FONTS) on top of the defaults
+ * An empty string in an override turns the default of that slot off
+ */
+export function getFontMapping(language: string, overrides: Record<string, FontMapping> = {}): FontMapping {
+  const tag = language.toLowerCase()
+  const primary = tag.split('-')[0]!
+  const merged: FontMapping = {
+    ...(DEFAULT_FONTS[tag] ?? DEFAULT_FONTS[primary]),
+    ...overrides[primary],
+    ...overrides[tag],
+  }
+  return Object.fromEntries(Object.entries(merged).filter(([, font]) => font)) as FontMapping
+}
+
+/**
+ * Set the mapped fonts on a w:rFonts element
+ */
+export function formatFontsElement(rFonts: string, prefix: string, fonts: FontMapping): string {
+  let tag = rFonts
+  for (const slot of FONT_SLOTS) {
+    const font = fonts[slot]
+    if (font) {
+      tag = setAttribute(tag, `${prefix}${slot}`, font)
+      tag = setAttribute(tag, `${prefix}${THEME_ATTRIBUTES[slot]}`, null)
+    }
+  }
+  return tag
+}
+
+/**
+ * Add the mapped fonts that are missing from word/fontTable.xml
+ * Word only needs the name, it looks up the rest on the system
+ */
+export function formatFontTable(xml: string, fonts: FontMapping): string {
+  const names = new Set<string>()
+  let prefix = 'w:'
+  let contentEnd: number | undefined
+
+  for (const token of tokenizeXml(xml)) {
+    if (token.type === 'open' && token.local === 'fonts') {
+      prefix = token.name.slice(0, token.name.length - token.local.length)
+    }
+    else if (token.type === 'open' && token.local === 'font') {
+      const name = token.attributes.find(attribute => attribute.local === 'name')
+      if (name) {
+        names.add(unescapeXml(name.value))
+      }
+    }
+    else if (token.type === 'close' && token.local === 'fonts') {
+      contentEnd = token.start
+    }
+  }
+
+  const missing = [...new Set(Object.values(fonts))].filter(font => !names.has(font))
+  if (contentEnd === undefined || missing.length === 0) {
+    return xml
+  }
+  const text = missing.map(font => `<${prefix}font ${prefix}name="${escapeXml(font)}"/>`).join('')
+  return applyXmlEdits(xml, [{ start: contentEnd, end: contentEnd, text }])
+}
@@ -0,0 +1,88 @@
+import type { ParagraphSegment, TranslationFile } from './types'
+
+/**
+ * What a .txt file records about its extraction, everything but the segments
+ * Enough to extract the same segments again from the DOCX and to check it is the same document
+ */
+export type TranslationFileHeader = Omit<TranslationFile, 'segments'> & {
+  /** Segments already translated in the JSON (memory matches, carried-over translations), left out of the .txt */
+  prefilled?: number
+}
+
+// Starts the header line of a .txt file
+const TXT_HEADER_PREFIX = '# translate-docx '
+
+// The [pN] line before each segment
+const TXT_ID_REGEX = /^\[([a-z]+\d+(?:\.s\d+)?)\]$/
+
+/**
+ * Format segments as [pN]\ntext\n blocks for an LLM
+ * An optional header (e.g. glossary instructions) goes before the first block and is ignored on import
+ */
+export function formatTxt(segments: ParagraphSegment[], header?: string): string {
+  const blocks = segments
+    .map(seg => `[${seg.id}]\n${seg.text}\n`)
+    .join('\n')
+  return header ? `${header}\n\n${blocks}` : blocks
+}
+
+/**
+ * Parse a .txt file in the [pN]\ntext\n format (IDs may also be dN, aN or sentence IDs like pN.s2)
+ * Returns a map of paragraph ID to translated text
+ */
+export function parseTxtTranslations(content: string): Map<string, string> {
+  const translations = new Map<string, string>()
+  const lines = content.split('\n')
+
+  let currentId: string | null = null
+  let currentText: string[] = []
+
+  for (const line of lines) {
+    const idMatch = line.match(TXT_ID_REGEX)
+    if (idMatch) {
+      // Save previous paragraph if exists
+      if (currentId !== null && currentText.length > 0) {
+        translations.set(currentId, currentText.join('\n').trim())
+      }
+      currentId = idMatch[1]!
+      currentText = []
+    }
+    else if (currentId !== null) {
+      currentText.push(line)
+    }
+  }
+
+  // Save last paragraph
+  if (currentId !== null && currentText.length > 0) {
+    translations.set(currentId, currentText.join('\n').trim())
+  }
+
+  return translations
+}
+
+/**
+ * Format the header line of a .txt file
+ */
+export function formatTxtHeader(header: TranslationFileHeader): string {
+  return `${TXT_HEADER_PREFIX}${JSON.stringify(header)}`
+}
+
+/**
+ * Find the header line in a .txt file, before the first segment
+ */
+export function parseTxtHeader(content: string): TranslationFileHeader | undefined {
+  for (const line of content.split('\n')) {
+    if (TXT_ID_REGEX.test(line)) {
+      return undefined
+    }
+    if (line.startsWith(TXT_HEADER_PREFIX)) {
+      try {
+        return JSON.parse(line.slice(TXT_HEADER_PREFIX.length))
+      }
+      catch {
+        return undefined
+      }
+    }
+  }
+  return undefined
+}
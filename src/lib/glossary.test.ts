@@ -0,0 +1,65 @@
+import { describe, expect, it } from 'bun:test'
+import { checkGlossary, findGlossaryTerms, formatGlossaryPrompt, parseGlossary } from './glossary'
+import { segment } from './test-helpers'
+
+const TBX = `<?xml version="1.0"?><martif type="TBX"><text><body>
+<termEntry><langSet xml:lang="en"><tig><term>invoice</term></tig></langSet><langSet xml:lang="de"><tig><term>Rechnung</term></tig></langSet><langSet xml:lang="fr"><tig><term>facture</term></tig></langSet></termEntry>
+<termEntry><descrip type="translatable">no</descrip><langSet xml:lang="en"><tig><term>Acme Cloud</term></tig></langSet></termEntry>
+<termEntry><langSet xml:lang="en"><tig><term>untranslated</term></tig></langSet></termEntry>
+</body></text></martif>`
+
+describe('parseGlossary', () => {
+  it('reads CSV columns by header, with quoted cells and do-not-translate terms', () => {
+    const csv = '\uFEFFTerm;Notes;Translation\n"Save; close";x;"Enregistrer et fermer"\nAcme;;\n'
+    expect(parseGlossary(csv)).toEqual([
+      { source: 'Save; close', target: 'Enregistrer et fermer', doNotTranslate: false },
+      { source: 'Acme', target: 'Acme', doNotTranslate: true },
+    ])
+  })
+
+  it('picks the CSV columns of the languages', () => {
+    const csv = 'en,de,fr\ninvoice,Rechnung,facture\n'
+    expect(parseGlossary(csv, { sourceLanguage: 'en-GB', targetLanguage: 'fr' })).toEqual([
+      { source: 'invoice', target: 'facture', doNotTranslate: false },
+    ])
+  })
+
+  it('uses the first two columns without a header', () => {
+    expect(parseGlossary('invoice,számla\n')).toEqual([{ source: 'invoice', target: 'számla', doNotTranslate: false }])
+  })
+
+  it('reads TBX entries of the languages and skips those without a target', () => {
+    expect(parseGlossary(TBX, { sourceLanguage: 'en', targetLanguage: 'fr' })).toEqual([
+      { source: 'invoice', target: 'facture', doNotTranslate: false },
+      { source: 'Acme Cloud', target: 'Acme Cloud', doNotTranslate: true },
+    ])
+  })
+})
+
+describe('findGlossaryTerms', () => {
+  const entries = parseGlossary(TBX, { sourceLanguage: 'en', targetLanguage: 'de' })
+
+  it('matches whole words regardless of case and inline tags', () => {
+    expect(findGlossaryTerms(entries, ['Send the <1>Invoice</1> today']).map(entry => entry.source)).toEqual(['invoice'])
+    expect(findGlossaryTerms(entries, ['Invoices are due'])).toEqual([])
+  })
+
+  it('formats the terms as instructions', () => {
+    expect(formatGlossaryPrompt(entries)).toBe('Use these translations for the following terms:\n- invoice → Rechnung\n- Acme Cloud (do not translate)')
+    expect(formatGlossaryPrompt([])).toBe('')
+  })
+})
+
+describe('checkGlossary', () => {
+  const entries = parseGlossary(TBX, { sourceLanguage: 'en', targetLanguage: 'de' })
+  const segments = [segment('p0', 'Pay the invoice with Acme Cloud'), segment('p1', 'The invoice'), segment('p2', 'An invoice')]
+
+  it('reports terms whose translation is missing, inflected forms count', () => {
+    const translations = new Map([
+      ['p0', 'Bezahlen Sie die Rechnung mit der Cloud'],
+      ['p1', 'Die <1>Rechnungen</1>'],
+      ['p2', ' '],
+    ])
+    expect(checkGlossary(segments, translations, entries)).toEqual([{ id: 'p0', source: 'Acme Cloud', target: 'Acme Cloud' }])
+  })
+})
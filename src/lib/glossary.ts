@@ -0,0 +1,290 @@
+import type { ParagraphSegment } from './types'
+import { stripInlineTags } from './inline-tags'
+import { tokenizeXml } from './xml-tokenizer'
+import { unescapeXml } from './xml-utils'
+
+/**
+ * A glossary term and its required translation
+ */
+export interface GlossaryEntry {
+  /** Term in the source language */
+  source: string
+  /** Required translation, the same as `source` for terms that must not be translated */
+  target: string
+  /** Whether the term must be kept as is */
+  doNotTranslate: boolean
+}
+
+export interface GlossaryOptions {
+  /** Source language, used to pick the columns of a multilingual CSV or the TBX language sets */
+  sourceLanguage?: string
+  /** Target language */
+  targetLanguage?: string
+}
+
+/**
+ * A glossary term whose required translation is missing from a translated segment
+ */
+export interface GlossaryIssue {
+  /** Segment ID */
+  id: string
+  /** Term found in the source text */
+  source: string
+  /** Required translation that was not found */
+  target: string
+}
+
+// Column headers naming the source and target columns of a CSV glossary
+const SOURCE_HEADERS = ['source', 'term', 'source term']
+const TARGET_HEADERS = ['target', 'translation', 'target term']
+
+/**
+ * Check whether two language tags share their primary subtag
+ */
+function isSameLanguage(a: string, b: string): boolean {
+  return a.toLowerCase().split(/[-_]/)[0] === b.toLowerCase().split(/[-_]/)[0]
+}
+
+/**
+ * Split CSV content into rows of cells, handling quoted cells
+ * The delimiter (comma, semicolon or tab) is guessed from the first line
+ */
+function parseCsvRows(content: string): string[][] {
+  const firstLine = content.split('\n', 1)[0] ?? ''
+  const delimiter = [',', ';', '\t']
+    .map(char => ({ char, count: firstLine.split(char).length }))
+    .sort((a, b) => b.count - a.count)[0]!
+    .char
+
+  const rows: string[][] = []
+  let row: string[] = []
+  let cell = ''
+  let quoted = false
+
+  for (let i = 0; i < content.length; i++) {
+    const char = content[i]!
+    if (quoted) {
+      if (char === '"' && content[i + 1] === '"') {
+        cell += '"'
+        i++
+      }
+      else if (char === '"') {
+        quoted = false
+      }
+      else {
+        cell += char
+      }
+    }
+    else if (char === '"' && cell.length === 0) {
+      quoted = true
+    }
+    else if (char === delimiter) {
+      row.push(cell)
+      cell = ''
+    }
+    else if (char === '\n') {
+      rows.push([...row, cell])
+      row = []
+      cell = ''
+    }
+    else if (char !== '\r') {
+      cell += char
+    }
+  }
+  rows.push([...row, cell])
+
+  return rows
+    .map(cells => cells.map(c => c.trim()))
+    .filter(cells => cells.some(c => c.length > 0))
+}
+
+/**
+ * Parse a CSV glossary
+ * The header may name the columns "source" and "target" or by language code (e.g. "en", "hu");
+ * without a recognized header the first two columns are the source and the target
+ * An empty target means the term must not be translated
+ */
+export function parseGlossaryCsv(content: string, options: GlossaryOptions = {}): GlossaryEntry[] {
+  const rows = parseCsvRows(content.replace(/^\uFEFF/, ''))
+  const header = rows[0]?.map(cell => cell.toLowerCase()) ?? []
+
+  const findColumn = (names: string[], language?: string) => {
+    const index = header.findIndex(cell => names.includes(cell))
+    if (index !== -1 || !language) {
+      return index
+    }
+    return header.findIndex(cell => /^[a-z]{2,3}(?:[-_][a-z0-9]+)*$/.test(cell) && isSameLanguage(cell, language))
+  }
+
+  let sourceColumn = findColumn(SOURCE_HEADERS, options.sourceLanguage)
+  let targetColumn = findColumn(TARGET_HEADERS, options.targetLanguage)
+  const hasHeader = sourceColumn !== -1 && targetColumn !== -1
+  if (!hasHeader) {
+    sourceColumn = 0
+    targetColumn = 1
+  }
+
+  const entries: GlossaryEntry[] = []
+  for (const row of rows.slice(hasHeader ? 1 : 0)) {
+    const source = row[sourceColumn] ?? ''
+    const target = row[targetColumn] ?? ''
+    if (source.length === 0) {
+      continue
+    }
+    entries.push({ source, target: target || source, doNotTranslate: target.length === 0 || target === source })
+  }
+
+  return entries
+}
+
+/**
+ * Parse a TBX termbase, taking the first term of the source and target language of each entry
+ * Entries without a target term are skipped, entries marked as not translatable keep the source term
+ */
+export function parseTbx(content: string, options: GlossaryOptions = {}): GlossaryEntry[] {
+  const entries: GlossaryEntry[] = []
+  // Terms of the current entry by language
+  let terms: { language: string, text: string }[] = []
+  let doNotTranslate = false
+  let language: string | undefined
+  let text: string | null = null
+  let noteType: string | undefined
+  let noteText: string | null = null
+
+  for (const token of tokenizeXml(content)) {
+    if (token.type === 'open') {
+      const attr = (local: string) => token.attributes.find(a => a.local === local)?.value
+      if (token.local === 'termEntry' || token.local === 'conceptEntry') {
+        terms = []
+        doNotTranslate = false
+      }
+      else if (token.local === 'langSet' || token.local === 'langSec') {
+        language = attr('lang')
+      }
+      else if (token.local === 'term' && !token.selfClosing) {
+        text = ''
+      }
+      else if ((token.local === 'termNote' || token.local === 'descrip') && !token.selfClosing) {
+        noteType = attr('type')
+        noteText = ''
+      }
+    }
+    else if (token.type === 'close') {
+      if (token.local === 'term' && text !== null) {
+        if (language && text.trim().length > 0) {
+          terms.push({ language, text: text.trim() })
+        }
+        text = null
+      }
+      else if ((token.local === 'termNote' || token.local === 'descrip') && noteText !== null) {
+        // Both the TBX-Basic and the older DNT conventions
+        if ((noteType === 'translatable' && noteText.trim() === 'no') || noteType === 'doNotTranslate') {
+          doNotTranslate = true
+        }
+        noteText = null
+      }
+      else if (token.local === 'termEntry' || token.local === 'conceptEntry') {
+        const sourceLanguage = options.sourceLanguage ?? terms[0]?.language
+        const source = sourceLanguage ? terms.find(t => isSameLanguage(t.language, sourceLanguage)) : undefined
+        const target = options.targetLanguage
+          ? terms.find(t => isSameLanguage(t.language, options.targetLanguage!))
+          : terms.find(t => t !== source)
+        if (source && (target || doNotTranslate)) {
+          const targetText = doNotTranslate ? source.text : target!.text
+          entries.push({ source: source.text, target: targetText, doNotTranslate: targetText === source.text })
+        }
+      }
+    }
+    else if (token.type === 'text' || token.type === 'cdata') {
+      const value = token.type === 'text'
+        ? unescapeXml(content.slice(token.start, token.end))
+        : content.slice(token.contentStart, token.contentEnd)
+      if (text !== null) {
+        text += value
+      }
+      else if (noteText !== null) {
+        noteText += value
+      }
+    }
+  }
+
+  return entries
+}
+
+/**
+ * Check whether text looks like a TBX termbase
+ */
+export function isTbx(content: string): boolean {
+  return /<(?:martif|tbx)\b/.test(content.slice(0, 1000))
+}
+
+/**
+ * Parse a CSV or TBX glossary
+ */
+export function parseGlossary(content: string, options: GlossaryOptions = {}): GlossaryEntry[] {
+  return isTbx(content) ? parseTbx(content, options) : parseGlossaryCsv(content, options)
+}
+
+/**
+ * Build a case-insensitive regex matching a term as a whole word
+ */
+function termRegex(term: string): RegExp {
+  const escaped = term.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+  return new RegExp(`(?<![\\p{L}\\p{N}])${escaped}(?![\\p{L}\\p{N}])`, 'iu')
+}
+
+/**
+ * Find the glossary entries whose source term appears in any of the texts
+ */
+export function findGlossaryTerms(entries: GlossaryEntry[], texts: string[]): GlossaryEntry[] {
+  const plain = texts.map(stripInlineTags)
+  return entries.filter((entry) => {
+    const regex = termRegex(entry.source)
+    return plain.some(text => regex.test(text))
+  })
+}
+
+/**
+ * Format glossary entries as instructions for an LLM, or an empty string if there are none
+ */
+export function formatGlossaryPrompt(entries: GlossaryEntry[]): string {
+  if (entries.length === 0) {
+    return ''
+  }
+  const lines = entries.map(entry => entry.doNotTranslate
+    ? `- ${entry.source} (do not translate)`
+    : `- ${entry.source} → ${entry.target}`)
+  return `Use these translations for the following terms:\n${lines.join('\n')}`
+}
+
+/**
+ * Check translations against the glossary
+ * Reports every segment where a source term appears but its required target term does not
+ */
+export function checkGlossary(
+  segments: ParagraphSegment[],
+  translations: Map<string, string>,
+  entries: GlossaryEntry[],
+): GlossaryIssue[] {
+  const issues: GlossaryIssue[] = []
+  const sourceRegexes = entries.map(entry => termRegex(entry.source))
+
+  for (const segment of segments) {
+    const translation = translations.get(segment.id)
+    if (!translation || translation.trim().length === 0) {
+      continue
+    }
+
+    const sourceText = stripInlineTags(segment.text)
+    // Target terms may be inflected, so only check that the term is contained
+    const translatedText = stripInlineTags(translation).toLowerCase()
+
+    entries.forEach((entry, i) => {
+      if (sourceRegexes[i]!.test(sourceText) && !translatedText.includes(entry.target.toLowerCase())) {
+        issues.push({ id: segment.id, source: entry.source, target: entry.target })
+      }
+    })
+  }
+
+  return issues
+}
@@ -0,0 +1,76 @@
+import { describe, expect, it } from 'bun:test'
+import { parseInlineTags, stripInlineTags, tagTextParts } from './inline-tags'
+
+describe('tagTextParts', () => {
+  it('leaves the most common formatting untagged and numbers the others in order', () => {
+    const { text, spans } = tagTextParts([
+      { key: '', text: 'Press ' },
+      { key: 'b', text: 'Save' },
+      { key: '', text: ' or ' },
+      { key: 'i', text: 'Cancel' },
+      { key: '', text: ' to continue' },
+    ])
+    expect(text).toBe('Press <1>Save</1> or <2>Cancel</2> to continue')
+    expect(spans.map(span => span.parts)).toEqual([[0], [1], [2], [3], [4]])
+  })
+
+  it('merges parts of the same formatting and whitespace-only changes', () => {
+    const { text, spans } = tagTextParts([
+      { key: 'b', text: 'Very ' },
+      { key: 'b', text: 'bold' },
+      { key: 'i', text: ' ' },
+      { key: '', text: 'text and more' },
+    ])
+    expect(text).toBe('<1>Very bold</1> text and more')
+    expect(spans.map(span => span.parts)).toEqual([[0, 1], [2, 3]])
+  })
+
+  it('turns placeholders into self-closing tags and keeps always tagged parts', () => {
+    const { text } = tagTextParts([
+      { key: '', text: 'Name:' },
+      { key: 'tab', text: '', placeholder: true },
+      { key: '', text: 'see ' },
+      { key: 'link', text: 'here', alwaysTagged: true },
+    ])
+    expect(text).toBe('Name:<1/>see <2>here</2>')
+  })
+})
+
+describe('parseInlineTags', () => {
+  it('gives back the spans of tagged text, in the order of the translation', () => {
+    expect(parseInlineTags('Appuyez sur <2>Annuler</2> ou <1>Enregistrer</1><3/>')).toEqual([
+      { tag: null, text: 'Appuyez sur ' },
+      { tag: 2, text: 'Annuler' },
+      { tag: null, text: ' ou ' },
+      { tag: 1, text: 'Enregistrer' },
+      { tag: 3, text: '', placeholder: true },
+    ])
+  })
+
+  it('splits a tag around a placeholder inside it', () => {
+    expect(parseInlineTags('<1>a<2/>b</1>')).toEqual([
+      { tag: 1, text: 'a' },
+      { tag: 2, text: '', placeholder: true },
+      { tag: 1, text: 'b' },
+    ])
+  })
+
+  it('refuses unclosed, nested, mismatched and repeated tags', () => {
+    expect(parseInlineTags('<1>open')).toBeNull()
+    expect(parseInlineTags('<1><2>x</2></1>')).toBeNull()
+    expect(parseInlineTags('<1>x</2>')).toBeNull()
+    expect(parseInlineTags('<1>x</1> <1>y</1>')).toBeNull()
+    expect(parseInlineTags('<1/><1/>')).toBeNull()
+  })
+
+  it('round trips the text of tagTextParts', () => {
+    const { text, spans } = tagTextParts([{ key: '', text: 'A ' }, { key: 'b', text: 'bold' }, { key: 'u', text: '', placeholder: true }])
+    expect(parseInlineTags(text)).toEqual(spans.map(({ parts: _parts, ...span }) => span))
+  })
+})
+
+describe('stripInlineTags', () => {
+  it('removes tags and placeholders', () => {
+    expect(stripInlineTags('Press <1>Save</1><2/> now')).toBe('Press Save now')
+  })
+})
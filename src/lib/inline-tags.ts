@@ -0,0 +1,149 @@
+/**
+ * A piece of paragraph text together with a key describing its formatting
+ */
+export interface TextPart {
+  /** Normalized run properties; parts with equal keys look the same */
+  key: string
+  /** The text content of the part */
+  text: string
+  /** The part is an element shown as a placeholder like `<2/>` (a tab, break, field...), its text is empty */
+  placeholder?: boolean
+  /** The part keeps a tag even if it is whitespace or has the most common formatting, e.g. link text */
+  alwaysTagged?: boolean
+}
+
+/**
+ * A span of text that shares one formatting, or a placeholder
+ * `tag` is null for the paragraph's base formatting
+ */
+export interface TaggedSpan {
+  tag: number | null
+  text: string
+  /** The span is a placeholder like `<2/>`, its text is empty */
+  placeholder?: boolean
+}
+
+/**
+ * A span of the original paragraph, with the indices of the parts it covers
+ */
+export interface SourceSpan extends TaggedSpan {
+  parts: number[]
+}
+
+// Matches <1>, </1> and <1/>
+export const INLINE_TAG_REGEX = /<(\/?)(\d+)(\/?)>/g
+
+/**
+ * Build tagged text from formatted parts
+ * The formatting covering the most characters is the base and stays untagged,
+ * every other run of formatting is wrapped in a numbered tag like `<1>bold</1>`
+ * and placeholder parts become `<2/>`; tags are numbered in order
+ */
+export function tagTextParts(parts: TextPart[]): { text: string, spans: SourceSpan[] } {
+  // Find the dominant formatting by character count
+  const lengths = new Map<string, number>()
+  for (const part of parts) {
+    if (!part.placeholder && !part.alwaysTagged) {
+      lengths.set(part.key, (lengths.get(part.key) ?? 0) + part.text.length)
+    }
+  }
+  let baseKey: string | null = lengths.keys().next().value ?? null
+  for (const [key, length] of lengths) {
+    if (length > (lengths.get(baseKey!) ?? 0)) {
+      baseKey = key
+    }
+  }
+
+  // Merge consecutive parts with the same formatting into spans
+  const spans: SourceSpan[] = []
+  let lastKey: string | null = null
+  parts.forEach((part, index) => {
+    if (part.placeholder) {
+      spans.push({ tag: 0, text: '', parts: [index], placeholder: true })
+      lastKey = null
+      return
+    }
+    // Whitespace-only formatting changes are not worth a tag
+    const key = part.text.trim().length === 0 && !part.alwaysTagged && baseKey !== null ? baseKey : part.key
+    const last = spans.at(-1)
+    if (last && !last.placeholder && key === lastKey) {
+      last.text += part.text
+      last.parts.push(index)
+      return
+    }
+    spans.push({ tag: key === baseKey ? null : 0, text: part.text, parts: [index] })
+    lastKey = key
+  })
+
+  let nextTag = 1
+  for (const span of spans) {
+    if (span.tag !== null) {
+      span.tag = nextTag++
+    }
+  }
+
+  const text = spans
+    .map(span => span.placeholder
+      ? `<${span.tag}/>`
+      : span.tag === null ? span.text : `<${span.tag}>${span.text}</${span.tag}>`)
+    .join('')
+
+  return { text, spans }
+}
+
+/**
+ * Parse tagged text into spans
+ * Placeholders may stand anywhere, also inside a tag; they split the span around them
+ * Returns null if the tags are malformed: unclosed, nested, mismatched or repeated
+ */
+export function parseInlineTags(text: string): TaggedSpan[] | null {
+  const spans: TaggedSpan[] = []
+  const seen = new Set<number>()
+  let openTag: number | null = null
+  let lastIndex = 0
+
+  const pushText = (value: string) => {
+    if (value.length > 0) {
+      spans.push({ tag: openTag, text: value })
+    }
+  }
+
+  for (const match of text.matchAll(INLINE_TAG_REGEX)) {
+    const isClosing = match[1] === '/'
+    const isPlaceholder = match[3] === '/'
+    const tag = Number(match[2])
+    pushText(text.slice(lastIndex, match.index))
+    lastIndex = match.index + match[0].length
+
+    if (isPlaceholder) {
+      if (isClosing || seen.has(tag))
+        return null
+      seen.add(tag)
+      spans.push({ tag, text: '', placeholder: true })
+    }
+    else if (isClosing) {
+      if (openTag !== tag)
+        return null
+      openTag = null
+    }
+    else {
+      if (openTag !== null || seen.has(tag))
+        return null
+      openTag = tag
+      seen.add(tag)
+    }
+  }
+
+  if (openTag !== null)
+    return null
+
+  pushText(text.slice(lastIndex))
+  return spans
+}
+
+/**
+ * Remove inline tags and placeholders, leaving only the text
+ */
+export function stripInlineTags(text: string): string {
+  return text.replace(INLINE_TAG_REGEX, '')
+}
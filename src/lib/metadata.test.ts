@@ -0,0 +1,58 @@
+import { describe, expect, it } from 'bun:test'
+import { extractAltTextSegments, extractPropertySegments, replaceAltTextById, replacePropertiesById } from './metadata'
+
+const CORE = `<cp:coreProperties xmlns:cp="http://schemas.openxmlformats.org/package/2006/metadata/core-properties" xmlns:dc="http://purl.org/dc/elements/1.1/">`
+  + `<dc:title>Annual report</dc:title><dc:creator>Jane</dc:creator><dc:subject> </dc:subject>`
+  + `<cp:keywords>sales &amp; growth</cp:keywords><dc:description>Figures for 2025</dc:description></cp:coreProperties>`
+
+const DRAWING = `<w:document xmlns:w="http://schemas.openxmlformats.org/wordprocessingml/2006/main" xmlns:wp="http://schemas.openxmlformats.org/drawingml/2006/wordprocessingDrawing" xmlns:pic="http://schemas.openxmlformats.org/drawingml/2006/picture">`
+  + `<wp:docPr id="1" name="Picture 1" descr="A bar chart" title="Sales"/>`
+  + `<pic:cNvPr id="0" name="chart.png" descr="A bar chart"/>`
+  + `<wp:docPr id="2" name="Picture 2" descr=""/></w:document>`
+
+describe('document properties', () => {
+  const { segments, nextId } = extractPropertySegments(CORE, 'docProps/core.xml')
+
+  it('extracts the title, keywords and description, not the author or empty ones', () => {
+    expect(segments.map(segment => [segment.id, segment.kind, segment.text])).toEqual([
+      ['d0', 'property', 'Annual report'],
+      ['d1', 'property', 'sales & growth'],
+      ['d2', 'property', 'Figures for 2025'],
+    ])
+    expect(nextId).toBe(3)
+  })
+
+  it('replaces them by position and escapes the translations', () => {
+    const translations = new Map([['d0', 'Rapport annuel'], ['d1', 'ventes & croissance']])
+    const result = replacePropertiesById(CORE, segments, translations)
+
+    expect(result.mismatched).toEqual([])
+    expect(result.xml).toContain('<dc:title>Rapport annuel</dc:title>')
+    expect(result.xml).toContain('<cp:keywords>ventes &amp; croissance</cp:keywords>')
+    expect(result.xml).toContain('<dc:creator>Jane</dc:creator>')
+    expect(result.xml).toContain('<dc:description>Figures for 2025</dc:description>')
+  })
+
+  it('leaves properties that changed since the extraction', () => {
+    const edited = CORE.replace('Annual report', 'Quarterly report')
+    expect(replacePropertiesById(edited, segments, new Map([['d0', 'Rapport annuel']])).mismatched).toEqual(['d0'])
+  })
+})
+
+describe('alt text', () => {
+  const { segments } = extractAltTextSegments(DRAWING, 'word/document.xml', 5)
+
+  it('extracts the description and title of drawings, numbered from the start ID', () => {
+    expect(segments.map(segment => [segment.id, segment.kind, segment.text])).toEqual([
+      ['a5', 'alt-text', 'A bar chart'],
+      ['a6', 'alt-text', 'Sales'],
+    ])
+  })
+
+  it('translates the copy on the picture along with the drawing', () => {
+    const result = replaceAltTextById(DRAWING, segments, new Map([['a5', 'Un diagramme "en barres"'], ['a6', 'Ventes']]))
+
+    expect(result.xml).toContain('<wp:docPr id="1" name="Picture 1" descr="Un diagramme &quot;en barres&quot;" title="Ventes"/>')
+    expect(result.xml).toContain('<pic:cNvPr id="0" name="chart.png" descr="Un diagramme &quot;en barres&quot;"/>')
+  })
+})
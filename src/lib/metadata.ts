@@ -0,0 +1,216 @@
+import type { ParagraphSegment, SegmentKind } from './types'
+import type { XmlEdit } from './xml-tokenizer'
+import { applyXmlEdits, tokenizeXml } from './xml-tokenizer'
+import { escapeXml, unescapeXml } from './xml-utils'
+
+// Dublin Core namespace (dc:title, dc:subject, dc:description)
+const DC_NAMESPACE = 'http://purl.org/dc/elements/1.1/'
+
+// Core properties namespace (cp:keywords)
+const CP_NAMESPACE = 'http://schemas.openxmlformats.org/package/2006/metadata/core-properties'
+
+// WordprocessingDrawing namespace (wp:docPr)
+const WP_NAMESPACE = 'http://schemas.openxmlformats.org/drawingml/2006/wordprocessingDrawing'
+
+// DrawingML picture namespace (pic:cNvPr)
+const PIC_NAMESPACE = 'http://schemas.openxmlformats.org/drawingml/2006/picture'
+
+// Translatable document properties
+const CORE_PROPERTIES = [
+  { ns: DC_NAMESPACE, local: 'title' },
+  { ns: DC_NAMESPACE, local: 'subject' },
+  { ns: CP_NAMESPACE, local: 'keywords' },
+  { ns: DC_NAMESPACE, local: 'description' },
+]
+
+// Attributes holding alternative text
+const ALT_TEXT_ATTRIBUTES = ['descr', 'title']
+
+// The part holding the document properties
+export const CORE_PROPERTIES_PATH = 'docProps/core.xml'
+
+/**
+ * A translatable value: element text or an attribute value
+ */
+interface TextValue {
+  /** Range of the raw (escaped) value */
+  start: number
+  end: number
+  /** Decoded value */
+  text: string
+}
+
+/**
+ * Find the translatable document properties, in document order
+ * Properties with child elements are skipped
+ */
+function scanCoreProperties(xml: string): TextValue[] {
+  const values: TextValue[] = []
+  let current: TextValue | null = null
+
+  for (const token of tokenizeXml(xml)) {
+    if (token.type === 'open') {
+      current = !token.selfClosing && CORE_PROPERTIES.some(p => p.ns === token.ns && p.local === token.local)
+        ? { start: token.end, end: token.end, text: '' }
+        : null
+    }
+    else if (token.type === 'close') {
+      if (current) {
+        current.end = token.start
+        values.push(current)
+      }
+      current = null
+    }
+    else if (current && token.type === 'text') {
+      current.text += unescapeXml(xml.slice(token.start, token.end))
+    }
+    else if (current && token.type === 'cdata') {
+      current.text += xml.slice(token.contentStart, token.contentEnd)
+    }
+  }
+
+  return values
+}
+
+/**
+ * Find the alternative texts of drawings, in document order
+ * `copies` are the same texts repeated on pictures (pic:cNvPr)
+ */
+function scanAltTexts(xml: string): { values: TextValue[], copies: TextValue[] } {
+  const values: TextValue[] = []
+  const copies: TextValue[] = []
+
+  for (const token of tokenizeXml(xml)) {
+    if (token.type !== 'open' || (token.local !== 'docPr' && token.local !== 'cNvPr')) {
+      continue
+    }
+    const target = token.ns === WP_NAMESPACE && token.local === 'docPr'
+      ? values
+      : token.ns === PIC_NAMESPACE && token.local === 'cNvPr' ? copies : null
+
+    for (const attr of token.attributes) {
+      if (target && !attr.ns && ALT_TEXT_ATTRIBUTES.includes(attr.local)) {
+        target.push({ start: attr.valueStart, end: attr.valueEnd, text: unescapeXml(attr.value) })
+      }
+    }
+  }
+
+  return { values, copies }
+}
+
+/**
+ * Turn non-empty values into segments with IDs like `${prefix}0`
+ */
+function toSegments(
+  values: TextValue[],
+  source: string,
+  kind: SegmentKind,
+  prefix: string,
+  startId: number,
+): { segments: ParagraphSegment[], nextId: number } {
+  const segments: ParagraphSegment[] = []
+  let id = startId
+
+  for (const value of values) {
+    if (value.text.trim().length === 0) {
+      continue
+    }
+    segments.push({ id: `${prefix}${id}`, kind, text: value.text, source, runCount: 1 })
+    id++
+  }
+
+  return { segments, nextId: id }
+}
+
+/**
+ * Replace non-empty values by their position, like `replaceParagraphsById`
+ * Copies get the translation of the value with the same text
+ */
+function replaceValuesById(
+  xml: string,
+  values: TextValue[],
+  copies: TextValue[],
+  segments: ParagraphSegment[],
+  translations: Map<string, string>,
+): { xml: string, mismatched: string[] } {
+  const mismatched: string[] = []
+  const edits: XmlEdit[] = []
+  const copyTranslations = new Map<string, string>()
+  let index = 0
+
+  for (const value of values) {
+    if (value.text.trim().length === 0) {
+      continue
+    }
+
+    const segment = segments[index++]
+    const translation = segment && translations.get(segment.id)
+    if (!segment || !translation || translation.trim().length === 0) {
+      continue
+    }
+
+    if (segment.text !== value.text) {
+      mismatched.push(segment.id)
+      continue
+    }
+
+    edits.push({ start: value.start, end: value.end, text: escapeXml(translation) })
+    copyTranslations.set(value.text, translation)
+  }
+
+  for (const copy of copies) {
+    const translation = copyTranslations.get(copy.text)
+    if (translation !== undefined) {
+      edits.push({ start: copy.start, end: copy.end, text: escapeXml(translation) })
+    }
+  }
+
+  return { xml: applyXmlEdits(xml, edits), mismatched }
+}
+
+/**
+ * Extract the title, subject, keywords and description from docProps/core.xml
+ */
+export function extractPropertySegments(
+  xml: string,
+  source: string,
+  startId: number = 0,
+): { segments: ParagraphSegment[], nextId: number } {
+  return toSegments(scanCoreProperties(xml), source, 'property', 'd', startId)
+}
+
+/**
+ * Replace document properties with translations
+ * `segments` must be the property segments extracted from this file, in order
+ */
+export function replacePropertiesById(
+  xml: string,
+  segments: ParagraphSegment[],
+  translations: Map<string, string>,
+): { xml: string, mismatched: string[] } {
+  return replaceValuesById(xml, scanCoreProperties(xml), [], segments, translations)
+}
+
+/**
+ * Extract the alternative text (descr and title) of images and shapes
+ */
+export function extractAltTextSegments(
+  xml: string,
+  source: string,
+  startId: number = 0,
+): { segments: ParagraphSegment[], nextId: number } {
+  return toSegments(scanAltTexts(xml).values, source, 'alt-text', 'a', startId)
+}
+
+/**
+ * Replace the alternative text of images and shapes with translations
+ * `segments` must be the alt text segments extracted from this file, in order
+ */
+export function replaceAltTextById(
+  xml: string,
+  segments: ParagraphSegment[],
+  translations: Map<string, string>,
+): { xml: string, mismatched: string[] } {
+  const { values, copies } = scanAltTexts(xml)
+  return replaceValuesById(xml, values, copies, segments, translations)
+}
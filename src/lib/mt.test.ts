@@ -0,0 +1,151 @@
+import type { Server } from 'bun'
+import type { MtOptions } from './mt'
+import type { ParagraphSegment } from './types'
+import { afterAll, afterEach, describe, expect, it } from 'bun:test'
+import { serveMockMt } from '../mock-mt-server'
+import { translateSegments } from './mt'
+
+const segments: ParagraphSegment[] = Array.from({ length: 7 }, (_, index) => ({
+  id: `p${index}`,
+  text: `Paragraph number ${index}.`,
+  source: 'word/document.xml',
+  runCount: 1,
+}))
+
+const expected = new Map(segments.map(segment => [segment.id, `[MT] ${segment.text}`]))
+
+const servers: Server<undefined>[] = []
+const realFetch = globalThis.fetch
+
+/**
+ * Start a server on a free port and return the options to translate through it
+ */
+function endpoint(server: Server<undefined>): MtOptions {
+  servers.push(server)
+  return { endpoint: `http://localhost:${server.port}/v1`, model: 'mock', prompt: 'Translate', retryDelay: 1 }
+}
+
+/**
+ * Count the requests sent and the most sent at the same time
+ */
+function countRequests(): { sent: number, maxInFlight: number } {
+  const counts = { sent: 0, maxInFlight: 0 }
+  let inFlight = 0
+  globalThis.fetch = Object.assign(async (...args: Parameters<typeof fetch>) => {
+    counts.sent++
+    counts.maxInFlight = Math.max(counts.maxInFlight, ++inFlight)
+    try {
+      return await realFetch(...args)
+    }
+    finally {
+      inFlight--
+    }
+  }, realFetch)
+  return counts
+}
+
+afterEach(() => {
+  globalThis.fetch = realFetch
+})
+
+afterAll(() => {
+  servers.forEach(server => server.stop(true))
+})
+
+describe('translateSegments', () => {
+  it('sends batches in parallel and maps the translations by ID', async () => {
+    const counts = countRequests()
+    const result = await translateSegments(segments, {
+      ...endpoint(serveMockMt({ port: 0, delay: 20 })),
+      batchSize: 2,
+      concurrency: 3,
+    })
+
+    expect(result.translations).toEqual(expected)
+    expect(result.failed).toEqual([])
+    expect(counts.sent).toBe(4)
+    expect(counts.maxInFlight).toBe(3)
+  })
+
+  it('splits batches by characters as well as by segments', async () => {
+    const counts = countRequests()
+    const result = await translateSegments(segments, { ...endpoint(serveMockMt({ port: 0 })), maxBatchChars: 55 })
+    expect(result.translations).toEqual(expected)
+    expect(counts.sent).toBe(4)
+  })
+
+  it('retries failed requests with a backoff', async () => {
+    const counts = countRequests()
+    const result = await translateSegments(segments, {
+      ...endpoint(serveMockMt({ port: 0, failRate: 0.3 })),
+      batchSize: 1,
+      retries: 10,
+    })
+
+    expect(result.translations).toEqual(expected)
+    expect(result.errors).toEqual([])
+    expect(counts.sent).toBeGreaterThanOrEqual(segments.length)
+  })
+
+  it('gives up after the retries and lists the segments as failed', async () => {
+    const counts = countRequests()
+    const result = await translateSegments(segments.slice(0, 3), {
+      ...endpoint(serveMockMt({ port: 0, failRate: 1 })),
+      batchSize: 2,
+      retries: 2,
+    })
+
+    expect(result.translations.size).toBe(0)
+    expect(result.failed.toSorted()).toEqual(['p0', 'p1', 'p2'])
+    expect(result.errors).toEqual(['HTTP 503 Service Unavailable', 'HTTP 503 Service Unavailable'])
+    expect(counts.sent).toBe(6)
+  })
+
+  it('waits as long as Retry-After asks', async () => {
+    const started = performance.now()
+    const result = await translateSegments(segments.slice(0, 1), {
+      ...endpoint(serveMockMt({ port: 0, failRate: 1, retryAfter: 1 })),
+      retries: 1,
+    })
+
+    expect(result.failed).toEqual(['p0'])
+    expect(performance.now() - started).toBeGreaterThanOrEqual(1000)
+  })
+
+  it('keeps the segments of a reply and retries the missing ones', async () => {
+    // Answers the first request with only its first segment, and with invalid JSON once
+    let requests = 0
+    const server = Bun.serve({
+      port: 0,
+      async fetch(request) {
+        requests++
+        if (requests === 2) {
+          return new Response('<html>Bad gateway</html>')
+        }
+        const body = await request.json() as { messages: { content: string }[] }
+        const blocks = body.messages[1]!.content.split('\n\n').map(block => block.replace(/\n/, '\n[MT] '))
+        const content = (requests === 1 ? blocks.slice(0, 1) : blocks).join('\n\n')
+        return Response.json({ choices: [{ message: { content } }] })
+      },
+    })
+
+    const result = await translateSegments(segments.slice(0, 3), endpoint(server))
+    expect(result.translations).toEqual(new Map([...expected].slice(0, 3)))
+    expect(requests).toBe(3)
+  })
+
+  it('returns what is done when aborted', async () => {
+    const controller = new AbortController()
+    const counts = countRequests()
+    const result = await translateSegments(segments, {
+      ...endpoint(serveMockMt({ port: 0, delay: 20 })),
+      batchSize: 2,
+      concurrency: 1,
+      signal: controller.signal,
+      onProgress: () => controller.abort(),
+    })
+
+    expect(result.translations).toEqual(new Map([...expected].slice(0, 2)))
+    expect(counts.sent).toBe(1)
+  })
+})
@@ -0,0 +1,216 @@
+import type { ParagraphSegment } from './types'
+import { splitIntoBatches } from './batches'
+import { formatTxt, parseTxtTranslations } from './formats'
+
+export interface MtOptions {
+  /** Base URL of an OpenAI-compatible API, e.g. http://localhost:11434/v1 */
+  endpoint: string
+  /** Model name */
+  model: string
+  /** API key, sent as a bearer token if set */
+  apiKey?: string
+  /** System prompt with the translation instructions */
+  prompt: string
+  /** Maximum segments per request (default 20) */
+  batchSize?: number
+  /** Maximum characters of source text per request (default 6000) */
+  maxBatchChars?: number
+  /** Requests in flight at the same time (default 4) */
+  concurrency?: number
+  /** Retries of a failed request (default 3) */
+  retries?: number
+  /** Delay before the first retry in milliseconds, doubled on every retry (default 1000) */
+  retryDelay?: number
+  /** Cancels the outstanding requests */
+  signal?: AbortSignal
+  /** Called after every finished batch with the translations so far */
+  onProgress?: (progress: MtProgress) => void
+}
+
+export interface MtProgress {
+  /** Segments translated so far */
+  done: number
+  /** Segments to translate */
+  total: number
+  /** All translations so far, by segment ID */
+  translations: Map<string, string>
+}
+
+export interface MtResult {
+  /** Translations by segment ID, in the same form as `parseTxtTranslations` returns */
+  translations: Map<string, string>
+  /** IDs of segments that could not be translated */
+  failed: string[]
+  /** Error messages of the failed batches */
+  errors: string[]
+}
+
+/**
+ * An HTTP error from the endpoint, retried if the status suggests a temporary problem
+ */
+class MtRequestError extends Error {
+  constructor(message: string, readonly retryable: boolean, readonly retryAfter?: number) {
+    super(message)
+    this.name = 'MtRequestError'
+  }
+}
+
+/**
+ * Build the translation instructions for an LLM
+ */
+export function buildTranslationPrompt(languageName: string): string {
+  return `Translate the following text to ${languageName}. Keep the [pN] markers exactly as they are, only reply with the translated text, and keep all formating the same. Keep inline tags like <1>...</1> around the words they belong to, and placeholders like <2/> where they belong in the sentence.`
+}
+
+/**
+ * Wait for a delay, or reject when the signal aborts
+ */
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(signal.reason)
+      return
+    }
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort)
+      resolve()
+    }, ms)
+    function onAbort() {
+      clearTimeout(timer)
+      reject(signal!.reason)
+    }
+    signal?.addEventListener('abort', onAbort, { once: true })
+  })
+}
+
+/**
+ * Send one chat completion request and return the reply text
+ */
+async function requestCompletion(options: MtOptions, text: string): Promise<string> {
+  const headers: Record<string, string> = { 'Content-Type': 'application/json' }
+  if (options.apiKey) {
+    headers.Authorization = `Bearer ${options.apiKey}`
+  }
+
+  let response: Response
+  try {
+    response = await fetch(`${options.endpoint.replace(/\/+$/, '')}/chat/completions`, {
+      method: 'POST',
+      headers,
+      signal: options.signal,
+      body: JSON.stringify({
+        model: options.model,
+        temperature: 0,
+        messages: [
+          { role: 'system', content: options.prompt },
+          { role: 'user', content: text },
+        ],
+      }),
+    })
+  }
+  catch (err) {
+    if (options.signal?.aborted) {
+      throw err
+    }
+    // Network errors are usually temporary
+    throw new MtRequestError(`Request failed: ${err instanceof Error ? err.message : String(err)}`, true)
+  }
+
+  if (!response.ok) {
+    const retryAfter = Number(response.headers.get('Retry-After'))
+    throw new MtRequestError(
+      `HTTP ${response.status} ${response.statusText}`.trim(),
+      response.status === 408 || response.status === 429 || response.status >= 500,
+      Number.isFinite(retryAfter) && retryAfter > 0 ? retryAfter * 1000 : undefined,
+    )
+  }
+
+  let data: { choices?: { message?: { content?: string } }[] }
+  try {
+    data = await response.json() as typeof data
+  }
+  catch {
+    // A proxy or overloaded server may answer with an HTML error page
+    throw new MtRequestError('Invalid JSON response', true)
+  }
+  const content = data.choices?.[0]?.message?.content
+  if (typeof content !== 'string') {
+    throw new MtRequestError('The response has no message content', true)
+  }
+  return content
+}
+
+/**
+ * Translate one batch, retrying temporary errors and replies that miss segments
+ * Returns whatever translations were received, the missing IDs are left to the caller
+ */
+async function translateBatch(batch: ParagraphSegment[], options: MtOptions): Promise<Map<string, string>> {
+  const { retries = 3, retryDelay = 1000 } = options
+  const ids = new Set(batch.map(seg => seg.id))
+  let best = new Map<string, string>()
+
+  for (let attempt = 0; ; attempt++) {
+    let retryAfter: number | undefined
+    try {
+      const reply = await requestCompletion(options, formatTxt(batch))
+      const translations = new Map([...parseTxtTranslations(reply)].filter(([id]) => ids.has(id)))
+      if (translations.size > best.size) {
+        best = translations
+      }
+      if (best.size === ids.size) {
+        return best
+      }
+    }
+    catch (err) {
+      if (!(err instanceof MtRequestError) || !err.retryable || attempt >= retries) {
+        if (best.size > 0 && !options.signal?.aborted) {
+          return best
+        }
+        throw err
+      }
+      retryAfter = err.retryAfter
+    }
+
+    if (attempt >= retries) {
+      return best
+    }
+    await sleep(retryAfter ?? retryDelay * 2 ** attempt, options.signal)
+  }
+}
+
+/**
+ * Translate segments through an OpenAI-compatible chat completions endpoint
+ * Segments are sent as [pN] blocks in batches, several batches at a time
+ * Failed batches do not stop the others, their segments are listed in `failed`
+ */
+export async function translateSegments(segments: ParagraphSegment[], options: MtOptions): Promise<MtResult> {
+  const { batchSize = 20, maxBatchChars = 6000, concurrency = 4 } = options
+  const batches = splitIntoBatches(segments, { budget: maxBatchChars, unit: 'chars', maxSegments: batchSize })
+  const result: MtResult = { translations: new Map(), failed: [], errors: [] }
+  let next = 0
+
+  const worker = async () => {
+    while (next < batches.length && !options.signal?.aborted) {
+      const batch = batches[next++]!
+      try {
+        const translations = await translateBatch(batch, options)
+        for (const [id, translation] of translations) {
+          result.translations.set(id, translation)
+        }
+        result.failed.push(...batch.filter(seg => !translations.has(seg.id)).map(seg => seg.id))
+      }
+      catch (err) {
+        result.failed.push(...batch.map(seg => seg.id))
+        result.errors.push(err instanceof Error ? err.message : String(err))
+      }
+      options.onProgress?.({
+        done: result.translations.size,
+        total: segments.length,
+        translations: result.translations,
+      })
+    }
+  }
+
+  await Promise.all(Array.from({ length: Math.min(concurrency, batches.length) }, worker))
+  return result
+}
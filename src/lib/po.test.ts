@@ -0,0 +1,26 @@
+import type { ParagraphSegment } from './types'
+import { describe, expect, it } from 'bun:test'
+import { formatPo, parsePo } from './po'
+
+const segments: ParagraphSegment[] = [
+  { id: 'p0', text: 'Say "hi"\nto <1>all</1>', translation: 'Dites « salut »\nà <1>tous</1>', source: 'word/document.xml', runCount: 2 },
+  { id: 'p1', text: 'Back\\slash', translation: 'Barre\\oblique', source: 'word/footer1.xml', runCount: 1, notes: 'Keep short' },
+  { id: 'p2', text: 'Not translated', source: 'word/document.xml', runCount: 1 },
+]
+
+describe('PO round trip', () => {
+  it('reads back the translations by msgctxt, with escapes and line breaks', () => {
+    const po = formatPo(segments, { originalFile: 'report.docx', targetLanguage: 'fr' })
+    expect([...parsePo(po).translations]).toEqual([
+      ['p0', 'Dites « salut »\nà <1>tous</1>'],
+      ['p1', 'Barre\\oblique'],
+    ])
+    expect(po).toContain('# Keep short\n')
+  })
+
+  it('skips fuzzy entries unless asked for them', () => {
+    const po = formatPo(segments.slice(1, 2), { originalFile: 'report.docx' }).replace('msgctxt', '#, fuzzy\nmsgctxt')
+    expect(parsePo(po)).toEqual({ translations: new Map(), skipped: ['p1'] })
+    expect(parsePo(po, { includeFuzzy: true }).translations.get('p1')).toBe('Barre\\oblique')
+  })
+})
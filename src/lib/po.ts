@@ -0,0 +1,187 @@
+import type { ParagraphSegment } from './types'
+
+export interface PoOptions {
+  /** Original DOCX filename */
+  originalFile: string
+  /** Source language (if known) */
+  sourceLanguage?: string
+  /** Target language */
+  targetLanguage?: string
+}
+
+export interface PoParseOptions {
+  /** Also use entries flagged as fuzzy */
+  includeFuzzy?: boolean
+}
+
+/**
+ * Escape a string for a PO file
+ */
+function escapePo(text: string): string {
+  return text
+    .replace(/\\/g, '\\\\')
+    .replace(/"/g, '\\"')
+    .replace(/\t/g, '\\t')
+    .replace(/\r/g, '\\r')
+    .replace(/\n/g, '\\n')
+}
+
+/**
+ * Unescape a quoted PO string (without the quotes)
+ */
+function unescapePo(text: string): string {
+  return text.replace(/\\(.)/g, (_match, char: string) => {
+    switch (char) {
+      case 'n': return '\n'
+      case 't': return '\t'
+      case 'r': return '\r'
+      default: return char
+    }
+  })
+}
+
+/**
+ * Format a keyword and its string, splitting multi-line strings over several lines
+ */
+function formatPoString(keyword: string, text: string): string {
+  const lines = text.split(/(?<=\n)/)
+  if (lines.length <= 1) {
+    return `${keyword} "${escapePo(text)}"`
+  }
+  return [`${keyword} ""`, ...lines.map(line => `"${escapePo(line)}"`)].join('\n')
+}
+
+/**
+ * Format segments as a gettext PO file
+ * Each segment ID becomes the msgctxt, the source path and run count become extracted comments
+ * and notes become translator comments
+ */
+export function formatPo(segments: ParagraphSegment[], options: PoOptions): string {
+  const header = [
+    'Content-Type: text/plain; charset=UTF-8',
+    'Content-Transfer-Encoding: 8bit',
+    ...(options.targetLanguage ? [`Language: ${options.targetLanguage}`] : []),
+    ...(options.sourceLanguage ? [`X-Source-Language: ${options.sourceLanguage}`] : []),
+    `X-Original-File: ${options.originalFile}`,
+  ]
+
+  const entries = [
+    [
+      `# Translation of ${options.originalFile}`,
+      'msgid ""',
+      'msgstr ""',
+      ...header.map(line => `"${escapePo(`${line}\n`)}"`),
+    ].join('\n'),
+  ]
+
+  for (const seg of segments) {
+    entries.push([
+      ...(seg.notes ? seg.notes.split('\n').map(line => `# ${line}`) : []),
+      `#. source: ${seg.source}`,
+      `#. runs: ${seg.runCount}`,
+      formatPoString('msgctxt', seg.id),
+      formatPoString('msgid', seg.text),
+      formatPoString('msgstr', seg.translation ?? ''),
+    ].join('\n'))
+  }
+
+  return `${entries.join('\n\n')}\n`
+}
+
+/**
+ * Check whether text looks like a PO file
+ */
+export function isPo(content: string): boolean {
+  return /^msgid "/m.test(content) && /^msgstr(?:\[0\])? "/m.test(content)
+}
+
+/**
+ * Parse a gettext PO file into a map of segment ID (msgctxt) to msgstr
+ * Fuzzy entries are listed in `skipped` unless `includeFuzzy` is set
+ */
+export function parsePo(
+  content: string,
+  options: PoParseOptions = {},
+): { translations: Map<string, string>, skipped: string[] } {
+  const translations = new Map<string, string>()
+  const skipped: string[] = []
+
+  interface Entry {
+    fuzzy: boolean
+    msgctxt?: string
+    msgstr?: string
+  }
+
+  let entry: Entry = { fuzzy: false }
+  let field: 'msgctxt' | 'msgid' | 'msgstr' | null = null
+  // Whether the current entry has any strings yet
+  let started = false
+
+  const finish = () => {
+    const id = entry.msgctxt
+    if (id !== undefined && entry.msgstr !== undefined) {
+      if (entry.fuzzy && !options.includeFuzzy) {
+        skipped.push(id)
+      }
+      else if (entry.msgstr.trim().length > 0) {
+        translations.set(id, entry.msgstr)
+      }
+    }
+    entry = { fuzzy: false }
+    field = null
+    started = false
+  }
+
+  for (const rawLine of content.split('\n')) {
+    const line = rawLine.trim()
+
+    if (line.length === 0) {
+      finish()
+      continue
+    }
+
+    if (line.startsWith('#')) {
+      // A comment after the strings starts the next entry
+      if (started) {
+        finish()
+      }
+      if (/^#,.*\bfuzzy\b/.test(line)) {
+        entry.fuzzy = true
+      }
+      continue
+    }
+
+    const keywordMatch = line.match(/^(msgctxt|msgid|msgid_plural|msgstr(?:\[(\d+)\])?)\s+"(.*)"$/)
+    if (keywordMatch) {
+      const [, keyword, pluralIndex, value] = keywordMatch
+      if (keyword === 'msgctxt' && started) {
+        finish()
+      }
+      started = true
+      if (keyword === 'msgctxt' || keyword === 'msgid') {
+        field = keyword
+      }
+      else if (keyword!.startsWith('msgstr') && (pluralIndex === undefined || pluralIndex === '0')) {
+        field = 'msgstr'
+      }
+      else {
+        // Other plural forms and msgid_plural are not used
+        field = null
+        continue
+      }
+      if (field !== 'msgid') {
+        entry[field] = unescapePo(value!)
+      }
+      continue
+    }
+
+    // Continuation of the previous string
+    const continuation = line.match(/^"(.*)"$/)
+    if (continuation && field !== null && field !== 'msgid') {
+      entry[field] = (entry[field] ?? '') + unescapePo(continuation[1]!)
+    }
+  }
+
+  finish()
+  return { translations, skipped }
+}
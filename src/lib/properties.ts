@@ -0,0 +1,255 @@
+import { tokenizeXml } from './xml-tokenizer'
+import { escapeXml } from './xml-utils'
+
+/**
+ * A properties element (e.g. <w:rPr> or <a:pPr>) split into its start tag and child elements
+ */
+export interface PropertiesElement {
+  /** Qualified name, e.g. "w:rPr" */
+  name: string
+  /** Raw attributes of the start tag, including the leading space */
+  attributes: string
+  /** Child elements in order, with their local name and raw XML */
+  children: { local: string, xml: string }[]
+}
+
+// Order of the <w:rPr> children in the WordprocessingML schema, Word rejects other orders
+export const RUN_PROPERTIES_ORDER = [
+  'rStyle',
+  'rFonts',
+  'b',
+  'bCs',
+  'i',
+  'iCs',
+  'caps',
+  'smallCaps',
+  'strike',
+  'dstrike',
+  'outline',
+  'shadow',
+  'emboss',
+  'imprint',
+  'noProof',
+  'snapToGrid',
+  'vanish',
+  'webHidden',
+  'color',
+  'spacing',
+  'w',
+  'kern',
+  'position',
+  'sz',
+  'szCs',
+  'highlight',
+  'u',
+  'effect',
+  'bdr',
+  'shd',
+  'fitText',
+  'vertAlign',
+  'rtl',
+  'cs',
+  'em',
+  'lang',
+  'eastAsianLayout',
+  'specVanish',
+  'oMath',
+  'rPrChange',
+]
+
+// Order of the <w:pPr> children in the WordprocessingML schema
+export const PARAGRAPH_PROPERTIES_ORDER = [
+  'pStyle',
+  'keepNext',
+  'keepLines',
+  'pageBreakBefore',
+  'framePr',
+  'widowControl',
+  'numPr',
+  'suppressLineNumbers',
+  'pBdr',
+  'shd',
+  'tabs',
+  'suppressAutoHyphens',
+  'kinsoku',
+  'wordWrap',
+  'overflowPunct',
+  'topLinePunct',
+  'autoSpaceDE',
+  'autoSpaceDN',
+  'bidi',
+  'adjustRightInd',
+  'snapToGrid',
+  'spacing',
+  'ind',
+  'contextualSpacing',
+  'mirrorIndents',
+  'suppressOverlap',
+  'jc',
+  'textDirection',
+  'textAlignment',
+  'textboxTightWrap',
+  'outlineLvl',
+  'divId',
+  'cnfStyle',
+  'rPr',
+  'sectPr',
+  'pPrChange',
+]
+
+// Order of the <a:rPr> children in the DrawingML schema
+export const DRAWING_RUN_PROPERTIES_ORDER = [
+  'ln',
+  'noFill',
+  'solidFill',
+  'gradFill',
+  'blipFill',
+  'pattFill',
+  'grpFill',
+  'effectLst',
+  'effectDag',
+  'highlight',
+  'uLnTx',
+  'uLn',
+  'uFillTx',
+  'uFill',
+  'latin',
+  'ea',
+  'cs',
+  'sym',
+  'hlinkClick',
+  'hlinkMouseOver',
+  'rtl',
+  'extLst',
+]
+
+/**
+ * Parse a properties element, or start an empty one named `name` if `xml` is empty
+ */
+export function parseProperties(xml: string, name: string): PropertiesElement {
+  const element: PropertiesElement = { name, attributes: '', children: [] }
+  let depth = 0
+  let childStart = 0
+  let childLocal = ''
+
+  for (const token of tokenizeXml(xml)) {
+    if (token.type === 'open') {
+      if (depth === 0) {
+        element.name = token.name
+        const nameEnd = xml.indexOf(token.name, token.start) + token.name.length
+        element.attributes = xml.slice(nameEnd, token.end - (token.selfClosing ? 2 : 1)).trimEnd()
+      }
+      else if (depth === 1) {
+        childStart = token.start
+        childLocal = token.local
+        if (token.selfClosing) {
+          element.children.push({ local: childLocal, xml: xml.slice(childStart, token.end) })
+        }
+      }
+      if (!token.selfClosing) {
+        depth++
+      }
+    }
+    else if (token.type === 'close') {
+      depth--
+      if (depth === 1) {
+        element.children.push({ local: childLocal, xml: xml.slice(childStart, token.end) })
+      }
+    }
+  }
+
+  return element
+}
+
+/**
+ * Serialize a properties element, self-closing if it has no children
+ */
+export function serializeProperties(element: PropertiesElement): string {
+  if (element.children.length === 0) {
+    return `<${element.name}${element.attributes}/>`
+  }
+  return `<${element.name}${element.attributes}>${element.children.map(child => child.xml).join('')}</${element.name}>`
+}
+
+/**
+ * Get the raw XML of a child element
+ */
+export function getProperty(element: PropertiesElement, local: string): string | undefined {
+  return element.children.find(child => child.local === local)?.xml
+}
+
+/**
+ * Replace, add or (with null) remove a child element, keeping the schema order
+ * Children not in `order` keep their place relative to the known ones
+ */
+export function setProperty(
+  element: PropertiesElement,
+  order: string[],
+  local: string,
+  xml: string | null,
+): void {
+  const index = element.children.findIndex(child => child.local === local)
+  if (index !== -1) {
+    if (xml === null) {
+      element.children.splice(index, 1)
+    }
+    else {
+      element.children[index] = { local, xml }
+    }
+    return
+  }
+  if (xml === null) {
+    return
+  }
+
+  // Insert before the first child that comes later in the schema
+  const rank = order.indexOf(local)
+  const before = element.children.findIndex(child => order.indexOf(child.local) > rank)
+  element.children.splice(before === -1 ? element.children.length : before, 0, { local, xml })
+}
+
+/**
+ * Set an attribute in the raw XML of a start tag (or a whole element), or remove it with null
+ */
+export function setAttribute(tag: string, name: string, value: string | null): string {
+  const escapedName = name.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+  const existing = new RegExp(`\\s${escapedName}="[^"]*"`)
+  const attribute = value === null ? '' : ` ${name}="${escapeXml(value)}"`
+  // Only the start tag is changed, not the children
+  const startTagEnd = tag.indexOf('>') + 1
+  const startTag = tag.slice(0, startTagEnd)
+  const rest = tag.slice(startTagEnd)
+
+  if (existing.test(startTag)) {
+    return startTag.replace(existing, () => attribute) + rest
+  }
+  if (value === null) {
+    return tag
+  }
+  // Add after the element name
+  return startTag.replace(/^<[\w:.-]+/, start => `${start}${attribute}`) + rest
+}
+
+/**
+ * Set an attribute on the start tag of a properties element, or remove it with null
+ */
+export function setPropertiesAttribute(element: PropertiesElement, name: string, value: string | null): void {
+  const tag = setAttribute(`<${element.name}${element.attributes}/>`, name, value)
+  element.attributes = tag.slice(`<${element.name}`.length, -2)
+}
+
+/**
+ * Get an attribute value from the raw XML of a start tag
+ */
+export function getAttribute(tag: string, name: string): string | undefined {
+  const escapedName = name.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+  return tag.match(new RegExp(`^<[^>]*?\\s${escapedName}="([^"]*)"`))?.[1]
+}
+
+/**
+ * Get the namespace prefix of a qualified name, with its colon ("w:r" -> "w:")
+ */
+export function getPrefix(name: string): string {
+  const colon = name.indexOf(':')
+  return colon === -1 ? '' : name.slice(0, colon + 1)
+}
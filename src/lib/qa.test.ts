@@ -0,0 +1,30 @@
+import { describe, expect, it } from 'bun:test'
+import { runQaChecks } from './qa'
+import { restoreOuterWhitespace } from './segments'
+import { segment } from './test-helpers'
+
+describe('runQaChecks', () => {
+  it('finds missing numbers and tags', () => {
+    const issues = runQaChecks([segment('p0', 'Pay <1>42</1> euros')], new Map([['p0', 'Payez 24 euros']]))
+    expect(issues.map(issue => issue.check)).toContain('numbers')
+    expect(issues.map(issue => issue.check)).toContain('tags')
+  })
+
+  it('skips segments without a translation', () => {
+    expect(runQaChecks([segment('p0', 'Hello world')], new Map([['p0', '  ']]))).toEqual([])
+  })
+
+  it('flags outer whitespace that differs from the source', () => {
+    const issues = runQaChecks([segment('p0', 'Total amount: ')], new Map([['p0', 'Montant total :']]))
+    expect(issues).toEqual([{ id: 'p0', check: 'whitespace', message: 'Trailing whitespace differs from the source' }])
+  })
+
+  it('finds nothing once trimmed translations get the outer whitespace of their source back', () => {
+    const segments = [segment('p0', 'Total amount: '), segment('p1', '\tIndented text')]
+    const translations = restoreOuterWhitespace(segments, new Map([['p0', 'Montant total :'], ['p1', 'Texte en retrait']]))
+
+    expect(translations.get('p0')).toBe('Montant total : ')
+    expect(translations.get('p1')).toBe('\tTexte en retrait')
+    expect(runQaChecks(segments, translations)).toEqual([])
+  })
+})
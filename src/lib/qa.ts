@@ -0,0 +1,197 @@
+import type { ParagraphSegment } from './types'
+import { parseInlineTags, stripInlineTags } from './inline-tags'
+
+export type QaCheck
+  = | 'numbers'
+    | 'urls'
+    | 'tags'
+    | 'placeholders'
+    | 'identical'
+    | 'length'
+    | 'whitespace'
+    | 'double-space'
+
+/**
+ * A problem found in a translation
+ */
+export interface QaIssue {
+  /** Segment ID */
+  id: string
+  check: QaCheck
+  message: string
+}
+
+export interface QaOptions {
+  /** Smallest allowed translation/source length ratio (default 0.3) */
+  minLengthRatio?: number
+  /** Largest allowed translation/source length ratio (default 3) */
+  maxLengthRatio?: number
+  /** Sources shorter than this are not length checked, short texts vary too much (default 10) */
+  minLengthToCheck?: number
+}
+
+// Numbers, with thousands and decimal separators of any locale
+const NUMBER_REGEX = /\d+(?:[.,\u00A0\u202F]\d+)*/g
+
+const URL_REGEX = /\b(?:https?:\/\/|www\.)[^\s<>"]+[^\s<>".,;:!?)]/gi
+
+const EMAIL_REGEX = /[\w.+-]+@[\w-]+(?:\.[\w-]+)+/g
+
+// {name}, {{name}}, ${name}, %s, %1$s and %d style placeholders
+const PLACEHOLDER_REGEX = /\$?\{\{?[\w.]+\}?\}|%(?:\d+\$)?[sdif@]/g
+
+/**
+ * Get the matches of a global regex
+ */
+function findAll(text: string, regex: RegExp): string[] {
+  return text.match(regex) ?? []
+}
+
+/**
+ * List the items of `expected` that are missing from `actual`, counting duplicates
+ */
+function missingItems(expected: string[], actual: string[]): string[] {
+  const remaining = [...actual]
+  const missing: string[] = []
+  for (const item of expected) {
+    const index = remaining.indexOf(item)
+    if (index === -1) {
+      missing.push(item)
+    }
+    else {
+      remaining.splice(index, 1)
+    }
+  }
+  return missing
+}
+
+/**
+ * Reduce a number to its digits, so "1,000.5" and "1 000,5" compare equal
+ */
+function normalizeNumber(number: string): string {
+  return number.replace(/\D/g, '')
+}
+
+/**
+ * Get the inline tag numbers of a text, in order, or null if the tags are broken
+ * Placeholders are listed as "2/"
+ */
+function getTags(text: string): string[] | null {
+  const spans = parseInlineTags(text)
+  if (!spans) {
+    return null
+  }
+  // A placeholder inside a tag splits it in two spans
+  const tags = spans
+    .filter(span => span.tag !== null)
+    .map(span => span.placeholder ? `${span.tag}/` : String(span.tag))
+  return [...new Set(tags)].sort()
+}
+
+/**
+ * Check a single translation against its source
+ */
+function checkSegment(segment: ParagraphSegment, translation: string, options: QaOptions): QaIssue[] {
+  const { minLengthRatio = 0.3, maxLengthRatio = 3, minLengthToCheck = 10 } = options
+  const issues: QaIssue[] = []
+  const add = (check: QaCheck, message: string) => issues.push({ id: segment.id, check, message })
+
+  const source = stripInlineTags(segment.text)
+  const target = stripInlineTags(translation)
+
+  const sourceNumbers = findAll(source, NUMBER_REGEX).map(normalizeNumber)
+  const targetNumbers = findAll(target, NUMBER_REGEX).map(normalizeNumber)
+  for (const number of missingItems(sourceNumbers, targetNumbers)) {
+    add('numbers', `Number ${number} is missing`)
+  }
+  for (const number of missingItems(targetNumbers, sourceNumbers)) {
+    add('numbers', `Number ${number} is not in the source`)
+  }
+
+  for (const link of [...findAll(source, URL_REGEX), ...findAll(source, EMAIL_REGEX)]) {
+    if (!target.includes(link)) {
+      add('urls', `${link.includes('@') && !link.includes('/') ? 'Email' : 'URL'} ${link} is missing`)
+    }
+  }
+
+  const sourceTags = getTags(segment.text)
+  const targetTags = getTags(translation)
+  if (targetTags === null) {
+    add('tags', 'Inline tags are not properly closed')
+  }
+  else if (sourceTags !== null && sourceTags.join() !== targetTags.join()) {
+    add('tags', `Inline tags differ: ${sourceTags.map(t => `<${t}>`).join('') || 'none'} in the source, ${targetTags.map(t => `<${t}>`).join('') || 'none'} in the translation`)
+  }
+
+  const sourcePlaceholders = findAll(source, PLACEHOLDER_REGEX)
+  const targetPlaceholders = findAll(target, PLACEHOLDER_REGEX)
+  for (const placeholder of missingItems(sourcePlaceholders, targetPlaceholders)) {
+    add('placeholders', `Placeholder ${placeholder} is missing`)
+  }
+  for (const placeholder of missingItems(targetPlaceholders, sourcePlaceholders)) {
+    add('placeholders', `Placeholder ${placeholder} is not in the source`)
+  }
+
+  if (target.trim() === source.trim() && /\p{L}{2}/u.test(source)) {
+    add('identical', 'Translation is identical to the source')
+  }
+
+  const sourceLength = source.trim().length
+  if (sourceLength >= minLengthToCheck) {
+    const ratio = target.trim().length / sourceLength
+    if (ratio < minLengthRatio || ratio > maxLengthRatio) {
+      add('length', `Translation is ${ratio.toFixed(1)}× the length of the source`)
+    }
+  }
+
+  const leading = (text: string) => text.match(/^\s*/)![0]
+  const trailing = (text: string) => text.match(/\s*$/)![0]
+  if (leading(source) !== leading(target)) {
+    add('whitespace', 'Leading whitespace differs from the source')
+  }
+  if (trailing(source) !== trailing(target)) {
+    add('whitespace', 'Trailing whitespace differs from the source')
+  }
+
+  if (/\S {2,}\S/.test(target) && !/\S {2,}\S/.test(source)) {
+    add('double-space', 'Translation contains double spaces')
+  }
+
+  return issues
+}
+
+/**
+ * Run the QA checks on every translated segment
+ * Segments without a translation are skipped
+ */
+export function runQaChecks(
+  segments: ParagraphSegment[],
+  translations: Map<string, string>,
+  options: QaOptions = {},
+): QaIssue[] {
+  const issues: QaIssue[] = []
+  for (const segment of segments) {
+    const translation = translations.get(segment.id)
+    if (translation && translation.trim().length > 0) {
+      issues.push(...checkSegment(segment, translation, options))
+    }
+  }
+  return issues
+}
+
+/**
+ * Group issues by segment ID, keeping the segment order
+ */
+export function groupQaIssues(issues: QaIssue[]): Map<string, QaIssue[]> {
+  const groups = new Map<string, QaIssue[]>()
+  for (const issue of issues) {
+    const group = groups.get(issue.id)
+    if (group) {
+      group.push(issue)
+    }
+    else {
+      groups.set(issue.id, [issue])
+    }
+  }
+  return groups
+}
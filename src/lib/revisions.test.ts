@@ -0,0 +1,49 @@
+import { describe, expect, it } from 'bun:test'
+import { countRevisions, resolveRevisions } from './revisions'
+
+const W = 'xmlns:w="http://schemas.openxmlformats.org/wordprocessingml/2006/main"'
+
+function body(content: string): string {
+  return `<w:body ${W}>${content}</w:body>`
+}
+
+const REVISED = body(
+  `<w:p><w:r><w:t xml:space="preserve">The </w:t></w:r>`
+  + `<w:ins w:id="1" w:author="A"><w:r><w:t>new</w:t></w:r></w:ins>`
+  + `<w:del w:id="2" w:author="A"><w:r><w:delText>old</w:delText></w:r></w:del>`
+  + `<w:r><w:rPr><w:b/><w:rPrChange w:id="3" w:author="A"><w:rPr><w:i/></w:rPr></w:rPrChange></w:rPr><w:t xml:space="preserve"> plan</w:t></w:r></w:p>`
+  + `<w:p><w:moveFromRangeStart w:id="4" w:name="move1"/><w:moveFrom w:id="5" w:author="A"><w:r><w:t>Moved</w:t></w:r></w:moveFrom><w:moveFromRangeEnd w:id="4"/></w:p>`
+  + `<w:p><w:moveToRangeStart w:id="6" w:name="move1"/><w:moveTo w:id="7" w:author="A"><w:r><w:t>Moved</w:t></w:r></w:moveTo><w:moveToRangeEnd w:id="6"/></w:p>`,
+)
+
+describe('countRevisions', () => {
+  it('counts insertions, deletions, moves and formatting changes', () => {
+    expect(countRevisions(REVISED)).toBe(5)
+    expect(countRevisions(body('<w:p><w:r><w:t>Clean</w:t></w:r></w:p>'))).toBe(0)
+  })
+})
+
+describe('resolveRevisions', () => {
+  it('accepts: keeps inserted and moved-to text and the new formatting', () => {
+    expect(resolveRevisions(REVISED, 'accept')).toBe(body(
+      `<w:p><w:r><w:t xml:space="preserve">The </w:t></w:r><w:r><w:t>new</w:t></w:r>`
+      + `<w:r><w:rPr><w:b/></w:rPr><w:t xml:space="preserve"> plan</w:t></w:r></w:p>`
+      + `<w:p></w:p>`
+      + `<w:p><w:r><w:t>Moved</w:t></w:r></w:p>`,
+    ))
+  })
+
+  it('rejects: restores deleted and moved-from text and the old formatting', () => {
+    expect(resolveRevisions(REVISED, 'reject')).toBe(body(
+      `<w:p><w:r><w:t xml:space="preserve">The </w:t></w:r><w:r><w:t>old</w:t></w:r>`
+      + `<w:r><w:rPr><w:i/></w:rPr><w:t xml:space="preserve"> plan</w:t></w:r></w:p>`
+      + `<w:p><w:r><w:t>Moved</w:t></w:r></w:p>`
+      + `<w:p></w:p>`,
+    ))
+  })
+
+  it('leaves no tracked changes behind', () => {
+    expect(countRevisions(resolveRevisions(REVISED, 'accept'))).toBe(0)
+    expect(countRevisions(resolveRevisions(REVISED, 'reject'))).toBe(0)
+  })
+})
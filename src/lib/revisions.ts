@@ -0,0 +1,245 @@
+import type { XmlEdit } from './xml-tokenizer'
+import {
+  getProperty,
+  PARAGRAPH_PROPERTIES_ORDER,
+  parseProperties,
+  serializeProperties,
+  setProperty,
+} from './properties'
+import { applyXmlEdits, tokenizeXml } from './xml-tokenizer'
+import { W_NAMESPACE } from './xml-utils'
+
+/**
+ * What to do with tracked changes in the source document
+ * - accept: keep inserted text, drop deleted text and old formatting
+ * - reject: drop inserted text, restore deleted text and old formatting
+ * - fail: refuse documents that have tracked changes
+ */
+export type RevisionHandling = 'accept' | 'reject' | 'fail'
+
+/**
+ * A part has tracked changes and they were neither to be accepted nor rejected
+ */
+export class TrackedChangesError extends Error {
+  constructor(readonly path: string, readonly count: number) {
+    super(`${path} has ${count} tracked changes, accept or reject them first`)
+    this.name = 'TrackedChangesError'
+  }
+}
+
+// Elements holding inserted or deleted content
+const CONTENT_REVISIONS = ['ins', 'del', 'moveFrom', 'moveTo']
+
+// Elements holding the formatting before a change
+const PROPERTY_REVISIONS = [
+  'rPrChange',
+  'pPrChange',
+  'sectPrChange',
+  'tblPrChange',
+  'tblPrExChange',
+  'trPrChange',
+  'tcPrChange',
+  'tblGridChange',
+  'numberingChange',
+]
+
+// Range markers of moved text, they mean nothing once the move is resolved
+const MOVE_RANGES = ['moveFromRangeStart', 'moveFromRangeEnd', 'moveToRangeStart', 'moveToRangeEnd']
+
+// Deleted text and field codes, renamed back when a deletion is rejected
+const DELETED_TEXT: Record<string, string> = { delText: 't', delInstrText: 'instrText' }
+
+/**
+ * Count the tracked changes in an XML part
+ */
+export function countRevisions(xml: string): number {
+  let count = 0
+  for (const token of tokenizeXml(xml)) {
+    if (token.type === 'open' && token.ns === W_NAMESPACE
+      && (CONTENT_REVISIONS.includes(token.local) || PROPERTY_REVISIONS.includes(token.local))) {
+      count++
+    }
+  }
+  return count
+}
+
+/**
+ * Accept or reject the inserted, deleted and moved content of a part
+ * A deleted or inserted table row removes the row; paragraph mark changes only lose their marker,
+ * the paragraphs are not merged
+ */
+function resolveContent(xml: string, mode: 'accept' | 'reject'): string {
+  interface Frame {
+    local: string
+    start: number
+  }
+
+  const removed = mode === 'accept' ? ['del', 'moveFrom'] : ['ins', 'moveTo']
+  const edits: XmlEdit[] = []
+  const stack: Frame[] = []
+  // Index in the stack of an element being removed with all its content
+  let removing = -1
+
+  const remove = (index: number) => {
+    const start = stack[index]!.start
+    // Edits inside the element are replaced by its removal
+    while (edits.length > 0 && edits.at(-1)!.start >= start) {
+      edits.pop()
+    }
+    removing = index
+  }
+
+  for (const token of tokenizeXml(xml)) {
+    if (token.type === 'open') {
+      const parent = stack.at(-1)
+      if (!token.selfClosing) {
+        stack.push({ local: token.ns === W_NAMESPACE ? token.local : '', start: token.start })
+      }
+      if (removing !== -1 || token.ns !== W_NAMESPACE) {
+        continue
+      }
+
+      const tag = { start: token.start, end: token.end }
+      if (CONTENT_REVISIONS.includes(token.local) && parent?.local === 'trPr') {
+        // A row insertion or deletion marker
+        if (removed.includes(token.local)) {
+          remove(stack.findLastIndex(frame => frame.local === 'tr'))
+        }
+        else {
+          edits.push({ ...tag, text: '' })
+        }
+      }
+      else if (removed.includes(token.local)) {
+        if (token.selfClosing) {
+          edits.push({ ...tag, text: '' })
+        }
+        else {
+          remove(stack.length - 1)
+        }
+      }
+      else if (CONTENT_REVISIONS.includes(token.local) || MOVE_RANGES.includes(token.local)) {
+        // Kept content loses its wrapper
+        edits.push({ ...tag, text: '' })
+      }
+      else if (mode === 'reject' && token.local in DELETED_TEXT) {
+        const raw = xml.slice(token.start, token.end)
+        edits.push({ ...tag, text: raw.replace(token.name, token.name.replace(token.local, DELETED_TEXT[token.local]!)) })
+      }
+    }
+    else if (token.type === 'close') {
+      const frame = stack.pop()
+      if (!frame) {
+        continue
+      }
+      const tag = { start: token.start, end: token.end }
+      if (removing === stack.length) {
+        edits.push({ start: frame.start, end: token.end, text: '' })
+        removing = -1
+      }
+      else if (removing !== -1 || token.ns !== W_NAMESPACE) {
+        continue
+      }
+      else if (CONTENT_REVISIONS.includes(token.local) || MOVE_RANGES.includes(token.local)) {
+        edits.push({ ...tag, text: '' })
+      }
+      else if (mode === 'reject' && token.local in DELETED_TEXT) {
+        edits.push({ ...tag, text: `</${token.name.replace(token.local, DELETED_TEXT[token.local]!)}>` })
+      }
+    }
+  }
+
+  return applyXmlEdits(xml, edits)
+}
+
+/**
+ * Find the properties elements named `local` that hold a `<local>Change` child
+ */
+function findChangedProperties(xml: string, local: string): { start: number, end: number }[] {
+  const ranges: { start: number, end: number }[] = []
+  // Open properties elements, the original formatting inside a change is one too
+  const stack: { start: number, changed: boolean }[] = []
+
+  for (const token of tokenizeXml(xml)) {
+    if (token.type === 'open' && token.ns === W_NAMESPACE) {
+      if (token.local === local && !token.selfClosing) {
+        stack.push({ start: token.start, changed: false })
+      }
+      else if (token.local === `${local}Change` && stack.length > 0) {
+        stack.at(-1)!.changed = true
+      }
+    }
+    else if (token.type === 'close' && token.ns === W_NAMESPACE && token.local === local) {
+      const frame = stack.pop()
+      if (frame?.changed) {
+        ranges.push({ start: frame.start, end: token.end })
+      }
+    }
+  }
+
+  return ranges
+}
+
+/**
+ * Accept or reject the formatting changes of a part
+ * Rejecting restores the run and paragraph formatting, other formatting changes are accepted
+ */
+function resolveProperties(xml: string, mode: 'accept' | 'reject'): string {
+  let result = xml
+
+  if (mode === 'reject') {
+    // Runs first, paragraph mark run properties sit inside <w:pPr>
+    for (const local of ['rPr', 'pPr']) {
+      const edits = findChangedProperties(result, local).map((range) => {
+        const current = parseProperties(result.slice(range.start, range.end), `w:${local}`)
+        const change = parseProperties(getProperty(current, `${local}Change`)!, `w:${local}Change`)
+        const original = parseProperties(change.children[0]?.xml ?? '', current.name)
+        original.name = current.name
+        original.attributes = current.attributes
+        // The paragraph mark formatting and section are not part of the paragraph change
+        if (local === 'pPr') {
+          for (const kept of ['rPr', 'sectPr']) {
+            setProperty(original, PARAGRAPH_PROPERTIES_ORDER, kept, getProperty(current, kept) ?? null)
+          }
+        }
+        return { ...range, text: serializeProperties(original) }
+      })
+      result = applyXmlEdits(result, edits)
+    }
+  }
+
+  // What is left of the old formatting is dropped
+  const edits: XmlEdit[] = []
+  let removing: { start: number, depth: number } | null = null
+  let depth = 0
+  for (const token of tokenizeXml(result)) {
+    if (token.type === 'open') {
+      if (!removing && token.ns === W_NAMESPACE && PROPERTY_REVISIONS.includes(token.local)) {
+        if (token.selfClosing) {
+          edits.push({ start: token.start, end: token.end, text: '' })
+        }
+        else {
+          removing = { start: token.start, depth }
+        }
+      }
+      if (!token.selfClosing) {
+        depth++
+      }
+    }
+    else if (token.type === 'close') {
+      depth--
+      if (removing && depth === removing.depth) {
+        edits.push({ start: removing.start, end: token.end, text: '' })
+        removing = null
+      }
+    }
+  }
+
+  return applyXmlEdits(result, edits)
+}
+
+/**
+ * Accept or reject all tracked changes of an XML part
+ */
+export function resolveRevisions(xml: string, mode: 'accept' | 'reject'): string {
+  return resolveProperties(resolveContent(xml, mode), mode)
+}
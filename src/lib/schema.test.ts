@@ -0,0 +1,70 @@
+import { describe, expect, it } from 'bun:test'
+import { parseTranslationFile, parseTranslationFileHeader, TRANSLATION_FILE_VERSION, TranslationFileError } from './schema'
+
+const header = {
+  originalFile: 'report.docx',
+  extractedAt: '2026-01-15T10:00:00.000Z',
+  revisions: 'accept' as const,
+}
+
+const segments = [
+  { id: 'p0', text: 'Hello', translation: 'Bonjour', source: 'word/document.xml', runCount: 1 },
+  { id: 'p1', text: 'World', source: 'word/document.xml', runCount: 1 },
+]
+
+describe('parseTranslationFile', () => {
+  it('upgrades unversioned files, translated segments become translated', () => {
+    const file = parseTranslationFile({ ...header, segments })
+
+    expect(file.version).toBe(TRANSLATION_FILE_VERSION)
+    expect(file.revisions).toBe('accept')
+    expect(file.segments.map(segment => segment.status)).toEqual(['translated', undefined])
+  })
+
+  it('keeps the statuses, notes and timestamps of current files', () => {
+    const reviewed = { ...segments[0], status: 'reviewed', notes: 'Formal', updatedAt: '2026-01-16T09:00:00.000Z' }
+    const file = parseTranslationFile({ version: 2, ...header, segments: [reviewed] })
+    expect(file.segments[0]).toMatchObject({ status: 'reviewed', notes: 'Formal' })
+  })
+
+  it('names the fields that are wrong', () => {
+    const broken = [
+      { ...segments[0], text: 3 },
+      { ...segments[1], status: 'done' },
+      { id: 'p0', text: 'Again', source: 'word/document.xml', runCount: 1 },
+    ]
+    let error: unknown
+    try {
+      parseTranslationFile({ version: 2, ...header, extractedAt: 'yesterday', segments: broken })
+    }
+    catch (err) {
+      error = err
+    }
+
+    expect(error).toBeInstanceOf(TranslationFileError)
+    expect((error as TranslationFileError).problems).toEqual([
+      'extractedAt must be an ISO 8601 date',
+      'segments[0].text must be a string',
+      'segments[1].status must be "new", "translated", "reviewed", "approved"',
+      'segments[2].id p0 is used twice',
+    ])
+  })
+
+  it('refuses files that are not objects or have no segments', () => {
+    expect(() => parseTranslationFile([])).toThrow('expected a JSON object')
+    expect(() => parseTranslationFile(header)).toThrow('segments must be a list')
+  })
+
+  it('refuses files of a newer version', () => {
+    expect(() => parseTranslationFile({ version: TRANSLATION_FILE_VERSION + 1, ...header, segments }))
+      .toThrow(`newer than the supported version ${TRANSLATION_FILE_VERSION}`)
+  })
+})
+
+describe('parseTranslationFileHeader', () => {
+  it('upgrades the header of a .txt file without segments', () => {
+    const parsed = parseTranslationFileHeader({ ...header, prefilled: 2 })
+    expect(parsed).toEqual({ version: TRANSLATION_FILE_VERSION, ...header, prefilled: 2 })
+    expect('segments' in parsed).toBe(false)
+  })
+})
@@ -0,0 +1,240 @@
+import type { TranslationFileHeader } from './formats'
+import type { TranslationFile } from './types'
+import { SEGMENT_STATUSES } from './segments'
+
+/**
+ * Version of the translation file schema written by this version of translate-docx
+ * - 1: no version field, no segment statuses
+ * - 2: version, segment status, notes and updatedAt
+ */
+export const TRANSLATION_FILE_VERSION = 2
+
+/**
+ * A translation file that is not valid JSON, does not have the expected shape,
+ * or was written by a newer version
+ */
+export class TranslationFileError extends Error {
+  constructor(message: string, readonly problems: string[] = []) {
+    super(message)
+    this.name = 'TranslationFileError'
+  }
+}
+
+type JsonObject = Record<string, unknown>
+
+/**
+ * Expected type of a field, described for error messages
+ */
+interface FieldRule {
+  check: (value: unknown) => boolean
+  expected: string
+  optional?: boolean
+}
+
+// Problems listed in the error message, the rest are only counted
+const MAX_LISTED_PROBLEMS = 5
+
+function isObject(value: unknown): value is JsonObject {
+  return typeof value === 'object' && value !== null && !Array.isArray(value)
+}
+
+function isString(value: unknown): value is string {
+  return typeof value === 'string'
+}
+
+function isDate(value: unknown): boolean {
+  return isString(value) && !Number.isNaN(Date.parse(value))
+}
+
+function oneOf(values: readonly unknown[]): (value: unknown) => boolean {
+  return value => values.includes(value)
+}
+
+/**
+ * Check the fields of an object against their rules, fields without a rule are allowed
+ */
+function checkFields(value: JsonObject, rules: Record<string, FieldRule>, path: string, problems: string[]): void {
+  for (const [key, rule] of Object.entries(rules)) {
+    if (value[key] === undefined) {
+      if (!rule.optional) {
+        problems.push(`${path}${key} is missing`)
+      }
+    }
+    else if (!rule.check(value[key])) {
+      problems.push(`${path}${key} must be ${rule.expected}`)
+    }
+  }
+}
+
+/**
+ * Check for a nested object whose fields all follow their rules
+ */
+function checkObject(rules: Record<string, FieldRule>): (value: unknown) => boolean {
+  return (value) => {
+    if (!isObject(value)) {
+      return false
+    }
+    const problems: string[] = []
+    checkFields(value, rules, '', problems)
+    return problems.length === 0
+  }
+}
+
+const HEADER_RULES: Record<string, FieldRule> = {
+  sourceLanguage: { check: isString, expected: 'a language code', optional: true },
+  targetLanguage: { check: isString, expected: 'a language code', optional: true },
+  originalFile: { check: isString, expected: 'a file name' },
+  extractedAt: { check: isDate, expected: 'an ISO 8601 date' },
+  revisions: { check: oneOf(['accept', 'reject']), expected: '"accept" or "reject"', optional: true },
+  segmentation: { check: oneOf(['sentence']), expected: '"sentence"', optional: true },
+  fingerprint: {
+    check: value => isObject(value) && isString(value.docx)
+      && isObject(value.parts) && Object.values(value.parts).every(isString),
+    expected: 'an object with docx and parts hashes',
+    optional: true,
+  },
+}
+
+const SEGMENT_RULES: Record<string, FieldRule> = {
+  id: { check: value => isString(value) && value.length > 0, expected: 'a non-empty string' },
+  kind: { check: oneOf(['paragraph', 'property', 'alt-text']), expected: '"paragraph", "property" or "alt-text"', optional: true },
+  text: { check: isString, expected: 'a string' },
+  translation: { check: isString, expected: 'a string', optional: true },
+  status: { check: oneOf(SEGMENT_STATUSES), expected: SEGMENT_STATUSES.map(status => `"${status}"`).join(', '), optional: true },
+  notes: { check: isString, expected: 'a string', optional: true },
+  updatedAt: { check: isDate, expected: 'an ISO 8601 date', optional: true },
+  source: { check: isString, expected: 'a part path' },
+  runCount: { check: value => Number.isInteger(value) && (value as number) >= 0, expected: 'a whole number' },
+  suggestions: {
+    check: value => Array.isArray(value) && value.every(checkObject({
+      source: { check: isString, expected: 'a string' },
+      translation: { check: isString, expected: 'a string' },
+      score: { check: value => typeof value === 'number', expected: 'a number' },
+    })),
+    expected: 'a list of { source, translation, score }',
+    optional: true,
+  },
+  change: {
+    check: checkObject({
+      status: { check: oneOf(['unchanged', 'moved', 'changed', 'new']), expected: 'a change status' },
+      previousId: { check: isString, expected: 'a string', optional: true },
+      previousText: { check: isString, expected: 'a string', optional: true },
+      score: { check: value => typeof value === 'number', expected: 'a number', optional: true },
+    }),
+    expected: 'an object with a status of "unchanged", "moved", "changed" or "new"',
+    optional: true,
+  },
+  sentence: {
+    check: checkObject({
+      paragraphId: { check: isString, expected: 'a string' },
+      before: { check: isString, expected: 'a string' },
+      after: { check: isString, expected: 'a string' },
+    }),
+    expected: 'an object with paragraphId, before and after',
+    optional: true,
+  },
+}
+
+/**
+ * Upgrades of a file to the next version, by the version they start from
+ */
+const MIGRATIONS: Record<number, (file: JsonObject) => JsonObject> = {
+  // Statuses were added: a translation made before them counts as translated
+  1: file => ({
+    version: 2,
+    ...file,
+    ...Array.isArray(file.segments) && {
+      segments: file.segments.map(segment =>
+        isObject(segment) && segment.status === undefined && isString(segment.translation) && segment.translation.trim()
+          ? { ...segment, status: 'translated' }
+          : segment,
+      ),
+    },
+  }),
+}
+
+/**
+ * Bring a file of any known version up to TRANSLATION_FILE_VERSION
+ */
+function migrate(data: unknown): JsonObject {
+  if (!isObject(data)) {
+    throw new TranslationFileError('Not a translation file: expected a JSON object')
+  }
+
+  const version = data.version ?? 1
+  if (!Number.isInteger(version) || (version as number) < 1) {
+    throw new TranslationFileError(`Invalid translation file version: ${JSON.stringify(version)}`)
+  }
+  if ((version as number) > TRANSLATION_FILE_VERSION) {
+    throw new TranslationFileError(
+      `Translation file version ${version} is newer than the supported version ${TRANSLATION_FILE_VERSION}, update translate-docx to read it`,
+    )
+  }
+
+  let file = data
+  for (let from = version as number; from < TRANSLATION_FILE_VERSION; from++) {
+    file = MIGRATIONS[from]!(file)
+  }
+  return file
+}
+
+/**
+ * Throw an error listing the problems, if there are any
+ */
+function throwProblems(problems: string[]): void {
+  if (problems.length === 0) {
+    return
+  }
+  const listed = problems.slice(0, MAX_LISTED_PROBLEMS).join('; ')
+  const more = problems.length > MAX_LISTED_PROBLEMS ? ` and ${problems.length - MAX_LISTED_PROBLEMS} more` : ''
+  throw new TranslationFileError(`Invalid translation file: ${listed}${more}`, problems)
+}
+
+/**
+ * Validate parsed JSON as a translation file, upgrading older versions to the current one
+ * Throws a TranslationFileError naming the fields that are wrong
+ */
+export function parseTranslationFile(data: unknown): TranslationFile {
+  const file = migrate(data)
+  const problems: string[] = []
+  checkFields(file, HEADER_RULES, '', problems)
+
+  if (!Array.isArray(file.segments)) {
+    problems.push('segments must be a list')
+  }
+  else {
+    const ids = new Set<string>()
+    file.segments.forEach((segment, index) => {
+      if (!isObject(segment)) {
+        problems.push(`segments[${index}] must be an object`)
+        return
+      }
+      checkFields(segment, SEGMENT_RULES, `segments[${index}].`, problems)
+      if (isString(segment.id)) {
+        if (ids.has(segment.id)) {
+          problems.push(`segments[${index}].id ${segment.id} is used twice`)
+        }
+        ids.add(segment.id)
+      }
+    })
+  }
+
+  throwProblems(problems)
+  return file as unknown as TranslationFile
+}
+
+/**
+ * Validate the header of a .txt file or an extraction without its segments,
+ * upgrading older versions to the current one
+ */
+export function parseTranslationFileHeader(data: unknown): TranslationFileHeader {
+  const header = migrate(data)
+  const problems: string[] = []
+  checkFields(header, {
+    ...HEADER_RULES,
+    prefilled: { check: value => Number.isInteger(value), expected: 'a whole number', optional: true },
+  }, '', problems)
+
+  throwProblems(problems)
+  return header as TranslationFileHeader
+}
@@ -0,0 +1,57 @@
+import { describe, expect, it } from 'bun:test'
+import { getXmlContent } from './docx-utils'
+import { extractSegments, injectTranslations } from './segments'
+
+const A = 'xmlns:a="http://schemas.openxmlformats.org/drawingml/2006/main"'
+
+const CHART = `<c:chartSpace xmlns:c="http://schemas.openxmlformats.org/drawingml/2006/chart" ${A}><c:chart>`
+  + `<c:title><c:tx><c:rich><a:p><a:r><a:t>Revenue</a:t></a:r></a:p></c:rich></c:tx></c:title>`
+  + `<c:ser><c:tx><c:strRef><c:f>Sheet1!$B$1</c:f><c:strCache><c:ptCount val="1"/><c:pt idx="0"><c:v>Sales</c:v></c:pt></c:strCache></c:strRef></c:tx>`
+  + `<c:cat><c:strRef><c:strCache><c:pt idx="0"><c:v>North</c:v></c:pt><c:pt idx="1"><c:v>Sales</c:v></c:pt></c:strCache></c:strRef></c:cat>`
+  + `<c:val><c:numRef><c:numCache><c:pt idx="0"><c:v>42</c:v></c:pt></c:numCache></c:numRef></c:val></c:ser>`
+  + `</c:chart></c:chartSpace>`
+
+const DIAGRAM_DATA = `<dgm:dataModel xmlns:dgm="http://schemas.openxmlformats.org/drawingml/2006/diagram" ${A}><dgm:ptLst>`
+  + `<dgm:pt modelId="1"><dgm:t><a:p><a:r><a:t>Plan</a:t></a:r></a:p></dgm:t></dgm:pt>`
+  + `<dgm:pt modelId="2"><dgm:t><a:p><a:r><a:t>Build</a:t></a:r></a:p></dgm:t></dgm:pt>`
+  + `</dgm:ptLst></dgm:dataModel>`
+
+const DIAGRAM_DRAWING = `<dsp:drawing xmlns:dsp="http://schemas.microsoft.com/office/drawing/2008/diagram" ${A}><dsp:spTree>`
+  + `<dsp:sp><dsp:txBody><a:p><a:r><a:t>Plan</a:t></a:r></a:p></dsp:txBody></dsp:sp>`
+  + `<dsp:sp><dsp:txBody><a:p><a:r><a:t>Build</a:t></a:r></a:p></dsp:txBody></dsp:sp>`
+  + `</dsp:spTree></dsp:drawing>`
+
+function createFiles(): Record<string, Uint8Array> {
+  const encoder = new TextEncoder()
+  return {
+    'word/charts/chart1.xml': encoder.encode(CHART),
+    'word/diagrams/data1.xml': encoder.encode(DIAGRAM_DATA),
+    'word/diagrams/drawing1.xml': encoder.encode(DIAGRAM_DRAWING),
+  }
+}
+
+describe('charts and SmartArt', () => {
+  const segments = extractSegments(createFiles())
+
+  it('extracts chart text and cached strings, not numbers or SmartArt drawings', () => {
+    expect(segments.map(segment => [segment.source, segment.text])).toEqual([
+      ['word/charts/chart1.xml', 'Revenue'],
+      ['word/charts/chart1.xml', 'Sales'],
+      ['word/charts/chart1.xml', 'North'],
+      ['word/diagrams/data1.xml', 'Plan'],
+      ['word/diagrams/data1.xml', 'Build'],
+    ])
+  })
+
+  it('translates repeated cached strings and the SmartArt drawing along', () => {
+    const files = createFiles()
+    const translations = new Map([['p0', 'Chiffre d’affaires'], ['p1', 'Ventes'], ['p2', 'Nord'], ['p3', 'Planifier'], ['p4', 'Construire']])
+    const result = injectTranslations(files, segments, translations)
+
+    expect(result.mismatched).toEqual([])
+    const chart = getXmlContent(files, 'word/charts/chart1.xml')
+    expect(chart.match(/<c:v>[^<]*<\/c:v>/g)).toEqual(['<c:v>Ventes</c:v>', '<c:v>Nord</c:v>', '<c:v>Ventes</c:v>', '<c:v>42</c:v>'])
+    expect(chart).toContain('<a:t>Chiffre d’affaires</a:t>')
+    expect(getXmlContent(files, 'word/diagrams/drawing1.xml')).toContain('<a:t>Planifier</a:t></a:r></a:p></dsp:txBody></dsp:sp><dsp:sp><dsp:txBody><a:p><a:r><a:t>Construire</a:t>')
+  })
+})
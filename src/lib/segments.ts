@@ -0,0 +1,307 @@
+import type { FontMapping } from './fonts'
+import type { RevisionHandling } from './revisions'
+import type { SegmentationOptions } from './sentences'
+import type { ParagraphSegment, SegmentKind, SegmentStatus } from './types'
+import type { RevisionOptions } from './xml-utils'
+import { getTranslatableFiles, getXmlContent, setXmlContent } from './docx-utils'
+import { FONT_TABLE_PATH, formatFontTable } from './fonts'
+import {
+  CORE_PROPERTIES_PATH,
+  extractAltTextSegments,
+  extractPropertySegments,
+  replaceAltTextById,
+  replacePropertiesById,
+} from './metadata'
+import { countRevisions, resolveRevisions, TrackedChangesError } from './revisions'
+import { joinSentences } from './sentences'
+import { formatStyles, STYLES_PATH } from './styles'
+import { getTargetFormatting } from './target-language'
+import { extractParagraphSegments, replaceParagraphsById, replaceParagraphText } from './xml-utils'
+
+/**
+ * Parts that hold a rendered copy of another part's text
+ * They are not extracted, but get the translations of the part they copy
+ */
+const MIRROR_PARTS = [
+  // SmartArt drawings are the cached rendering of the diagram data
+  { pattern: /^word\/diagrams\/drawing\d+\.xml$/, source: /^word\/diagrams\/data\d+\.xml$/ },
+]
+
+/**
+ * Which segment kinds besides paragraphs to include (all by default)
+ */
+export interface SegmentKindOptions {
+  /** Title, subject, keywords and description from docProps/core.xml */
+  properties?: boolean
+  /** Alternative text of images and shapes */
+  altText?: boolean
+}
+
+export interface ExtractOptions extends SegmentKindOptions, SegmentationOptions {
+  /** What to do with tracked changes, the same for extraction and injection (default fail) */
+  revisions?: RevisionHandling
+}
+
+export interface InjectOptions extends ExtractOptions {
+  /** Match paragraphs by their original text instead of by ID and position */
+  byText?: boolean
+  /**
+   * Target language code; translated runs get its language tag,
+   * right-to-left languages also get bidi paragraphs and runs
+   */
+  targetLanguage?: string
+  /** Fonts by language code, on top of the built-in `DEFAULT_FONTS` */
+  fonts?: Record<string, FontMapping>
+  /** Write the translations as tracked changes: the original text deleted, the translation inserted */
+  trackChanges?: {
+    author: string
+    /** ISO 8601 date of the revisions (default now) */
+    date?: string
+  }
+}
+
+export interface InjectResult {
+  /** Parts that were rewritten */
+  updatedFiles: string[]
+  /** IDs of segments whose paragraph no longer matches the extraction */
+  mismatched: string[]
+}
+
+/**
+ * Get the kind of a segment, paragraph if not set
+ */
+export function getSegmentKind(segment: ParagraphSegment): SegmentKind {
+  return segment.kind ?? 'paragraph'
+}
+
+/**
+ * Segment statuses from least to most final
+ */
+export const SEGMENT_STATUSES: SegmentStatus[] = ['new', 'translated', 'reviewed', 'approved']
+
+/**
+ * Get the status of a segment: translated if it has a translation and no status, new otherwise
+ */
+export function getSegmentStatus(segment: ParagraphSegment): SegmentStatus {
+  return segment.status ?? (segment.translation?.trim() ? 'translated' : 'new')
+}
+
+/**
+ * Check whether a status is the same as or further along than another
+ */
+export function isStatusAtLeast(status: SegmentStatus, minimum: SegmentStatus): boolean {
+  return SEGMENT_STATUSES.indexOf(status) >= SEGMENT_STATUSES.indexOf(minimum)
+}
+
+/**
+ * Give translations the leading and trailing whitespace of their source
+ * Most formats trim translations when they are read, the whitespace around a segment belongs to the layout
+ */
+export function restoreOuterWhitespace(
+  segments: ParagraphSegment[],
+  translations: Map<string, string>,
+): Map<string, string> {
+  const restored = new Map(translations)
+  for (const segment of segments) {
+    const translation = translations.get(segment.id)?.trim()
+    if (translation) {
+      const leading = segment.text.match(/^\s*/)![0]
+      const trailing = segment.text.match(/\s*$/)![0]
+      restored.set(segment.id, `${leading}${translation}${trailing}`)
+    }
+  }
+  return restored
+}
+
+/**
+ * Check whether a segment kind is enabled by the options
+ */
+function isKindEnabled(kind: SegmentKind, options: SegmentKindOptions): boolean {
+  if (kind === 'property')
+    return options.properties !== false
+  if (kind === 'alt-text')
+    return options.altText !== false
+  return true
+}
+
+/**
+ * Count the tracked changes of every translatable part that has some
+ */
+export function findRevisions(files: Record<string, Uint8Array>): { path: string, count: number }[] {
+  return getTranslatableFiles(files)
+    .map(path => ({ path, count: countRevisions(getXmlContent(files, path)) }))
+    .filter(part => part.count > 0)
+}
+
+/**
+ * Get the XML of a part with its tracked changes accepted or rejected
+ * Throws if the part has tracked changes and they are to fail
+ */
+function getResolvedXml(files: Record<string, Uint8Array>, path: string, handling: RevisionHandling = 'fail'): string {
+  const xml = getXmlContent(files, path)
+  if (handling !== 'fail') {
+    return resolveRevisions(xml, handling)
+  }
+  const count = countRevisions(xml)
+  if (count > 0) {
+    throw new TrackedChangesError(path, count)
+  }
+  return xml
+}
+
+/**
+ * Extract the segments of all translatable parts of a DOCX
+ * Paragraphs come first, then alt text, then document properties
+ */
+export function extractSegments(
+  files: Record<string, Uint8Array>,
+  options: ExtractOptions = {},
+): ParagraphSegment[] {
+  const allSegments: ParagraphSegment[] = []
+  const translatableFiles = getTranslatableFiles(files)
+  const resolved = new Map(translatableFiles.map(path => [path, getResolvedXml(files, path, options.revisions)]))
+  let nextId = 0
+
+  for (const filePath of translatableFiles) {
+    const xml = resolved.get(filePath)!
+    const result = extractParagraphSegments(xml, filePath, nextId, options)
+    allSegments.push(...result.segments)
+    nextId = result.nextId
+  }
+
+  if (isKindEnabled('alt-text', options)) {
+    let nextAltId = 0
+    for (const filePath of translatableFiles) {
+      const xml = resolved.get(filePath)!
+      const result = extractAltTextSegments(xml, filePath, nextAltId)
+      allSegments.push(...result.segments)
+      nextAltId = result.nextId
+    }
+  }
+
+  if (isKindEnabled('property', options) && files[CORE_PROPERTIES_PATH]) {
+    const xml = getXmlContent(files, CORE_PROPERTIES_PATH)
+    allSegments.push(...extractPropertySegments(xml, CORE_PROPERTIES_PATH).segments)
+  }
+
+  return allSegments
+}
+
+/**
+ * Start the tracked change settings, with IDs above every w:id already in the document
+ */
+function createRevisions(files: Record<string, Uint8Array>, author: string, date?: string): RevisionOptions {
+  let maxId = 0
+  for (const filePath of getTranslatableFiles(files)) {
+    for (const match of getXmlContent(files, filePath).matchAll(/:id="(\d+)"/g)) {
+      maxId = Math.max(maxId, Number(match[1]))
+    }
+  }
+  return {
+    author,
+    date: date ?? new Date().toISOString().replace(/\.\d+Z$/, 'Z'),
+    nextId: maxId + 1,
+  }
+}
+
+/**
+ * Write translations into the parts of a DOCX
+ * `segments` are the segments extracted from this DOCX, `translations` maps their IDs to translated text
+ */
+export function injectTranslations(
+  files: Record<string, Uint8Array>,
+  segments: ParagraphSegment[],
+  translations: Map<string, string>,
+  options: InjectOptions = {},
+): InjectResult {
+  const result: InjectResult = { updatedFiles: [], mismatched: [] }
+  const enabled = segments.filter(seg => isKindEnabled(getSegmentKind(seg), options))
+  // Sentences go back into their paragraphs, which are then replaced as a whole
+  const joined = joinSentences(enabled.filter(seg => getSegmentKind(seg) === 'paragraph'), translations)
+  const paragraphs = joined.segments
+  const altTexts = enabled.filter(seg => getSegmentKind(seg) === 'alt-text')
+  const properties = enabled.filter(seg => getSegmentKind(seg) === 'property')
+  const formatting = options.targetLanguage ? getTargetFormatting(options.targetLanguage, options.fonts) : undefined
+  const revisions = options.trackChanges
+    ? createRevisions(files, options.trackChanges.author, options.trackChanges.date)
+    : undefined
+
+  // Original text -> translated text, for the text-keyed fallback and mirror parts
+  const textMap = new Map<string, string>()
+  for (const segment of paragraphs) {
+    const translation = joined.translations.get(segment.id)
+    if (translation && translation.trim().length > 0 && !textMap.has(segment.text)) {
+      textMap.set(segment.text, translation)
+    }
+  }
+
+  for (const filePath of getTranslatableFiles(files)) {
+    let xml = getResolvedXml(files, filePath, options.revisions)
+
+    if (options.byText) {
+      xml = replaceParagraphText(xml, textMap, { formatting, revisions })
+    }
+    else {
+      const fileSegments = paragraphs.filter(seg => seg.source === filePath)
+      const replaced = replaceParagraphsById(xml, fileSegments, joined.translations, { formatting, revisions })
+      xml = replaced.xml
+      // A paragraph cut into sentences is reported by the IDs of its sentences
+      result.mismatched.push(...replaced.mismatched.flatMap((id) => {
+        const sentences = enabled.filter(seg => seg.sentence?.paragraphId === id)
+        return sentences.length > 0 ? sentences.map(seg => seg.id) : [id]
+      }))
+    }
+
+    const fileAltTexts = altTexts.filter(seg => seg.source === filePath)
+    if (fileAltTexts.length > 0) {
+      const replaced = replaceAltTextById(xml, fileAltTexts, translations)
+      xml = replaced.xml
+      result.mismatched.push(...replaced.mismatched)
+    }
+
+    setXmlContent(files, filePath, xml)
+    result.updatedFiles.push(filePath)
+  }
+
+  for (const mirror of MIRROR_PARTS) {
+    const mirrorMap = new Map<string, string>()
+    for (const segment of paragraphs) {
+      const translation = textMap.get(segment.text)
+      if (translation !== undefined && mirror.source.test(segment.source)) {
+        mirrorMap.set(segment.text, translation)
+      }
+    }
+
+    for (const filePath of Object.keys(files).filter(path => mirror.pattern.test(path))) {
+      const xml = getXmlContent(files, filePath)
+      setXmlContent(files, filePath, replaceParagraphText(xml, mirrorMap, { formatting }))
+      result.updatedFiles.push(filePath)
+    }
+  }
+
+  // The default language and fonts only change once nothing is left in the source language,
+  // untranslated runs without their own w:lang or w:rFonts inherit them.
+  // With tracked changes the original text can come back, so the defaults are kept
+  const complete = enabled
+    .filter(seg => getSegmentKind(seg) === 'paragraph')
+    .every(seg => translations.get(seg.id)?.trim())
+  if (formatting && complete && !revisions && files[STYLES_PATH]) {
+    setXmlContent(files, STYLES_PATH, formatStyles(getXmlContent(files, STYLES_PATH), formatting))
+    result.updatedFiles.push(STYLES_PATH)
+  }
+
+  if (formatting && Object.keys(formatting.fonts).length > 0 && files[FONT_TABLE_PATH]) {
+    setXmlContent(files, FONT_TABLE_PATH, formatFontTable(getXmlContent(files, FONT_TABLE_PATH), formatting.fonts))
+    result.updatedFiles.push(FONT_TABLE_PATH)
+  }
+
+  if (properties.length > 0 && files[CORE_PROPERTIES_PATH]) {
+    const xml = getXmlContent(files, CORE_PROPERTIES_PATH)
+    const replaced = replacePropertiesById(xml, properties, translations)
+    setXmlContent(files, CORE_PROPERTIES_PATH, replaced.xml)
+    result.mismatched.push(...replaced.mismatched)
+    result.updatedFiles.push(CORE_PROPERTIES_PATH)
+  }
+
+  return result
+}
@@ -0,0 +1,66 @@
+import type { ParagraphSegment } from './types'
+import { describe, expect, it } from 'bun:test'
+import { joinSentences, segmentSentences, splitSentences } from './sentences'
+
+function texts(text: string, language?: string): string[] {
+  return splitSentences(text, language).map(sentence => sentence.text)
+}
+
+describe('splitSentences', () => {
+  it('splits on sentence ends', () => {
+    expect(texts('One thing. Another thing! A question?')).toEqual(['One thing.', 'Another thing!', 'A question?'])
+  })
+
+  it('does not split after abbreviations, initials or ordinals of the language', () => {
+    expect(texts('Ask Dr. Smith first. Then press enter.', 'en')).toEqual(['Ask Dr. Smith first.', 'Then press enter.'])
+    expect(texts('Written by J. R. R. Tolkien. Read it.', 'en')).toEqual(['Written by J. R. R. Tolkien.', 'Read it.'])
+    expect(texts('Am 3. Oktober ist Feiertag. Alle frei.', 'de')).toEqual(['Am 3. Oktober ist Feiertag.', 'Alle frei.'])
+  })
+
+  it('keeps paired inline tags in one sentence', () => {
+    expect(texts('See <1>Part one. Part two.</1> Done.')).toEqual(['See <1>Part one. Part two.</1>', 'Done.'])
+  })
+
+  it('gives back the paragraph from the sentences and the whitespace around them', () => {
+    const text = '  First one.   Second <1>bold</1> one.\t'
+    const joined = splitSentences(text).map(sentence => `${sentence.before}${sentence.text}${sentence.after}`).join('')
+    expect(joined).toBe(text)
+  })
+})
+
+describe('joinSentences', () => {
+  const paragraph: ParagraphSegment = {
+    id: 'p3',
+    text: 'Alpha one. Beta two.  Gamma three.',
+    source: 'word/document.xml',
+    runCount: 1,
+  }
+  const sentences = segmentSentences(paragraph, 'en')
+  const other: ParagraphSegment = { id: 'p4', text: 'Single sentence.', source: 'word/document.xml', runCount: 1 }
+
+  it('cuts a paragraph into sentence segments', () => {
+    expect(sentences.map(segment => segment.id)).toEqual(['p3.s0', 'p3.s1', 'p3.s2'])
+    expect(segmentSentences(other, 'en')).toEqual([other])
+  })
+
+  it('joins translated sentences back into their paragraph', () => {
+    const translations = new Map([['p3.s0', 'Alfa egy.'], ['p3.s1', 'Béta kettő.'], ['p3.s2', 'Gamma három.'], ['p4', 'Egy mondat.']])
+    const joined = joinSentences([...sentences, other], translations)
+
+    expect(joined.segments.map(segment => [segment.id, segment.text])).toEqual([
+      ['p3', paragraph.text],
+      ['p4', other.text],
+    ])
+    expect(joined.translations.get('p3')).toBe('Alfa egy. Béta kettő.  Gamma három.')
+    expect(joined.translations.get('p4')).toBe('Egy mondat.')
+  })
+
+  it('keeps the source text of untranslated sentences', () => {
+    const joined = joinSentences(sentences, new Map([['p3.s1', 'Béta kettő.']]))
+    expect(joined.translations.get('p3')).toBe('Alpha one. Béta kettő.  Gamma three.')
+  })
+
+  it('leaves paragraphs without translated sentences untranslated', () => {
+    expect(joinSentences(sentences, new Map()).translations.has('p3')).toBe(false)
+  })
+})
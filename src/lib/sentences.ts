@@ -0,0 +1,194 @@
+import type { ParagraphSegment } from './types'
+import { INLINE_TAG_REGEX } from './inline-tags'
+
+/**
+ * How paragraphs are cut into segments
+ * - paragraph: every paragraph is one segment
+ * - sentence: paragraphs with several sentences get a segment per sentence, with IDs like `p12.s3`
+ */
+export type Segmentation = 'paragraph' | 'sentence'
+
+export interface SegmentationOptions {
+  /** Paragraph by default */
+  segmentation?: Segmentation
+  /** Language of the document, decides the sentence rules and abbreviations (English if not set) */
+  sourceLanguage?: string
+}
+
+/**
+ * A sentence of a paragraph, trimmed, with the whitespace around it kept aside
+ */
+export interface Sentence {
+  text: string
+  before: string
+  after: string
+}
+
+// Abbreviations that end with a period but do not end a sentence, lowercase, by language code
+const ABBREVIATIONS: Record<string, string[]> = {
+  en: ['mr.', 'mrs.', 'ms.', 'dr.', 'prof.', 'sr.', 'jr.', 'st.', 'mt.', 'no.', 'nos.', 'vol.', 'p.', 'pp.', 'fig.', 'figs.', 'ch.', 'sec.', 'art.', 'approx.', 'dept.', 'est.', 'inc.', 'ltd.', 'co.', 'corp.', 'vs.', 'etc.', 'e.g.', 'i.e.', 'cf.', 'jan.', 'feb.', 'mar.', 'apr.', 'jun.', 'jul.', 'aug.', 'sep.', 'sept.', 'oct.', 'nov.', 'dec.'],
+  de: ['dr.', 'prof.', 'hr.', 'fr.', 'nr.', 'bzw.', 'ca.', 'vgl.', 'z.b.', 'd.h.', 'u.a.', 'usw.', 'etc.', 'evtl.', 'ggf.', 'inkl.', 'zzgl.', 'abs.', 'art.', 'bd.', 's.', 'str.', 'tel.', 'jan.', 'feb.', 'okt.', 'nov.', 'dez.'],
+  fr: ['m.', 'mm.', 'mme.', 'mlle.', 'dr.', 'pr.', 'me.', 'st.', 'ste.', 'p.', 'art.', 'cf.', 'env.', 'etc.', 'ex.', 'n°.', 'no.', 'vol.', 'av.', 'bd.', 'janv.', 'févr.', 'sept.', 'oct.', 'nov.', 'déc.'],
+  es: ['sr.', 'sra.', 'srta.', 'dr.', 'dra.', 'd.', 'dña.', 'ud.', 'uds.', 'pág.', 'págs.', 'art.', 'núm.', 'cap.', 'etc.', 'p.ej.', 'aprox.', 'av.', 'avda.', 'ene.', 'feb.', 'abr.', 'ago.', 'sept.', 'oct.', 'nov.', 'dic.'],
+  it: ['sig.', 'sigg.', 'sig.ra', 'dott.', 'dott.ssa', 'prof.', 'ing.', 'avv.', 'on.', 'pag.', 'art.', 'cap.', 'n.', 'ecc.', 'es.', 'ca.', 'cfr.', 'gen.', 'feb.', 'apr.', 'giu.', 'lug.', 'ago.', 'sett.', 'ott.', 'nov.', 'dic.'],
+  pt: ['sr.', 'sra.', 'dr.', 'dra.', 'prof.', 'profa.', 'pág.', 'art.', 'cap.', 'n.', 'nº.', 'etc.', 'ex.', 'av.', 'jan.', 'fev.', 'abr.', 'mai.', 'jun.', 'jul.', 'ago.', 'set.', 'out.', 'nov.', 'dez.'],
+  nl: ['dhr.', 'mevr.', 'mr.', 'dr.', 'prof.', 'ir.', 'drs.', 'ing.', 'blz.', 'nr.', 'art.', 'bijv.', 'd.w.z.', 'o.a.', 'enz.', 'etc.', 'm.b.t.', 'ca.', 'jan.', 'feb.', 'apr.', 'aug.', 'sep.', 'okt.', 'nov.', 'dec.'],
+  hu: ['dr.', 'prof.', 'id.', 'ifj.', 'özv.', 'stb.', 'pl.', 'ill.', 'kb.', 'ld.', 'vö.', 'sz.', 'u.', 'krt.', 'tel.', 'jan.', 'febr.', 'márc.', 'ápr.', 'jún.', 'júl.', 'aug.', 'szept.', 'okt.', 'nov.', 'dec.'],
+  ro: ['dl.', 'dna.', 'dr.', 'prof.', 'ing.', 'str.', 'nr.', 'art.', 'alin.', 'pag.', 'etc.', 'ex.', 'ian.', 'feb.', 'mar.', 'apr.', 'iun.', 'iul.', 'aug.', 'sept.', 'oct.', 'nov.', 'dec.'],
+  pl: ['dr.', 'prof.', 'inż.', 'mgr.', 'ul.', 'al.', 'pl.', 'nr.', 'str.', 'tel.', 'np.', 'tj.', 'tzn.', 'itd.', 'itp.', 'ok.', 'ww.', 'godz.', 'r.', 'w.', 'ust.', 'art.'],
+  ru: ['г.', 'гг.', 'в.', 'вв.', 'т.е.', 'т.д.', 'т.п.', 'др.', 'пр.', 'им.', 'ул.', 'д.', 'стр.', 'с.', 'см.', 'рис.', 'табл.', 'проф.', 'акад.'],
+}
+
+// Languages that write ordinal numbers with a period, e.g. "am 3. Oktober"
+const ORDINAL_PERIOD_LANGUAGES = ['de', 'hu', 'cs', 'sk', 'pl', 'da', 'nb', 'no', 'fi', 'sl', 'hr', 'sr', 'et', 'lv']
+
+/**
+ * Get the base language code of a BCP 47 tag, e.g. "de" for "de-AT"
+ */
+function getBaseLanguage(language?: string): string {
+  return (language ?? 'en').split(/[-_]/)[0]!.toLowerCase()
+}
+
+/**
+ * Check whether the text before a sentence break ends with a period that does not end a sentence
+ */
+function endsWithAbbreviation(text: string, language: string): boolean {
+  const lastWord = text.trimEnd().split(/\s/).at(-1)!.replace(/^[("'“‘«]+/, '')
+  if (!lastWord.endsWith('.')) {
+    return false
+  }
+  // A single letter is an initial, as in "J. R. R. Tolkien"
+  if (/^\p{L}\.$/u.test(lastWord)) {
+    return true
+  }
+  if (/^\d+\.$/.test(lastWord) && ORDINAL_PERIOD_LANGUAGES.includes(language)) {
+    return true
+  }
+  return (ABBREVIATIONS[language] ?? []).includes(lastWord.toLowerCase())
+}
+
+/**
+ * Split tagged paragraph text into sentences with `Intl.Segmenter`
+ * Breaks after abbreviations of the language and inside paired tags like `<1>...</1>` are dropped,
+ * closing tags stay with the sentence before a break, opening tags and placeholders go with the one after.
+ * Joining `before + text + after` of every sentence gives back the paragraph
+ */
+export function splitSentences(text: string, language?: string): Sentence[] {
+  const baseLanguage = getBaseLanguage(language)
+
+  // Plain text, with the offset in the tagged text of every plain character
+  let plain = ''
+  const offsets: number[] = []
+  const tags: { start: number, end: number, closing: boolean, placeholder: boolean }[] = []
+  let position = 0
+  const addText = (end: number) => {
+    for (; position < end; position++) {
+      plain += text[position]
+      offsets.push(position)
+    }
+  }
+  for (const match of text.matchAll(INLINE_TAG_REGEX)) {
+    addText(match.index)
+    position = match.index + match[0].length
+    tags.push({ start: match.index, end: position, closing: match[1] === '/', placeholder: match[3] === '/' })
+  }
+  addText(text.length)
+
+  // Offsets in the tagged text to cut at
+  const cuts: number[] = []
+  let sentenceStart = 0
+  const segmenter = new Intl.Segmenter(language, { granularity: 'sentence' })
+  for (const { index } of segmenter.segment(plain)) {
+    if (index === 0 || endsWithAbbreviation(plain.slice(sentenceStart, index), baseLanguage)) {
+      continue
+    }
+
+    let cut = offsets[index - 1]! + 1
+    for (const tag of tags) {
+      if (tag.start === cut && tag.closing) {
+        cut = tag.end
+      }
+    }
+    const open = tags.filter(tag => tag.end <= cut && !tag.placeholder)
+      .reduce((depth, tag) => depth + (tag.closing ? -1 : 1), 0)
+    if (open > 0) {
+      continue
+    }
+
+    cuts.push(cut)
+    sentenceStart = index
+  }
+
+  const sentences: Sentence[] = []
+  const bounds = [0, ...cuts, text.length]
+  for (let i = 0; i < bounds.length - 1; i++) {
+    const part = text.slice(bounds[i], bounds[i + 1])
+    const trimmed = part.trim()
+    const before = part.slice(0, part.length - part.trimStart().length)
+    sentences.push({ text: trimmed, before, after: part.slice(before.length + trimmed.length) })
+  }
+  return sentences
+}
+
+/**
+ * Cut paragraph segments into sentence segments, keeping single-sentence paragraphs as they are
+ */
+export function segmentSentences(segment: ParagraphSegment, language?: string): ParagraphSegment[] {
+  const sentences = splitSentences(segment.text, language)
+  if (sentences.length < 2) {
+    return [segment]
+  }
+  return sentences.map((sentence, index) => ({
+    ...segment,
+    id: `${segment.id}.s${index}`,
+    text: sentence.text,
+    sentence: { paragraphId: segment.id, before: sentence.before, after: sentence.after },
+  }))
+}
+
+/**
+ * Join sentence segments back into the paragraphs they were cut from
+ * A paragraph gets a translation once any of its sentences has one, untranslated sentences keep the original text.
+ * Other segments and their translations are passed through
+ */
+export function joinSentences(
+  segments: ParagraphSegment[],
+  translations: Map<string, string>,
+): { segments: ParagraphSegment[], translations: Map<string, string> } {
+  const joined: ParagraphSegment[] = []
+  const joinedTranslations = new Map(translations)
+  const paragraphs = new Map<string, ParagraphSegment[]>()
+
+  for (const segment of segments) {
+    if (!segment.sentence) {
+      joined.push(segment)
+      continue
+    }
+    const { paragraphId } = segment.sentence
+    if (!paragraphs.has(paragraphId)) {
+      paragraphs.set(paragraphId, [])
+      joined.push({ id: paragraphId, text: '', source: segment.source, runCount: segment.runCount })
+    }
+    paragraphs.get(paragraphId)!.push(segment)
+  }
+
+  for (const paragraph of joined) {
+    const sentences = paragraphs.get(paragraph.id)
+    if (!sentences) {
+      continue
+    }
+    const wrap = (sentence: ParagraphSegment, text: string) =>
+      `${sentence.sentence!.before}${text}${sentence.sentence!.after}`
+    paragraph.text = sentences.map(sentence => wrap(sentence, sentence.text)).join('')
+
+    const translated = sentences.map(sentence => translations.get(sentence.id)?.trim())
+    if (translated.some(Boolean)) {
+      joinedTranslations.set(
+        paragraph.id,
+        sentences.map((sentence, index) => wrap(sentence, translated[index] || sentence.text)).join(''),
+      )
+    }
+  }
+
+  return { segments: joined, translations: joinedTranslations }
+}
@@ -0,0 +1,70 @@
+import type { ParagraphSegment, SegmentKind } from './types'
+import { stripInlineTags } from './inline-tags'
+import { getSegmentKind } from './segments'
+
+/**
+ * Size of a set of segments, counted on the source text without inline tags
+ */
+export interface SegmentCounts {
+  segments: number
+  words: number
+  characters: number
+}
+
+/**
+ * Size of a document and how much of it is translated
+ */
+export interface DocumentStats extends SegmentCounts {
+  /** Segments with a non-empty translation */
+  translated: SegmentCounts
+  byKind: Partial<Record<SegmentKind, SegmentCounts>>
+  /** By part path, e.g. word/document.xml */
+  byPart: Record<string, SegmentCounts>
+}
+
+/**
+ * Count the words of tagged text with `Intl.Segmenter`, so languages written without spaces count too
+ */
+export function countWords(text: string, language?: string): number {
+  const segmenter = new Intl.Segmenter(language, { granularity: 'word' })
+  let count = 0
+  for (const word of segmenter.segment(stripInlineTags(text))) {
+    if (word.isWordLike) {
+      count++
+    }
+  }
+  return count
+}
+
+/**
+ * Count the segments, words and characters of a document, in total, translated, by kind and by part
+ */
+export function getDocumentStats(
+  segments: ParagraphSegment[],
+  translations: Map<string, string>,
+  language?: string,
+): DocumentStats {
+  const empty = (): SegmentCounts => ({ segments: 0, words: 0, characters: 0 })
+  const stats: DocumentStats = { ...empty(), translated: empty(), byKind: {}, byPart: {} }
+
+  for (const segment of segments) {
+    const words = countWords(segment.text, language)
+    const characters = stripInlineTags(segment.text).length
+    const kind = getSegmentKind(segment)
+    const groups = [
+      stats,
+      stats.byKind[kind] ??= empty(),
+      stats.byPart[segment.source] ??= empty(),
+    ]
+    if (translations.get(segment.id)?.trim()) {
+      groups.push(stats.translated)
+    }
+    for (const counts of groups) {
+      counts.segments++
+      counts.words += words
+      counts.characters += characters
+    }
+  }
+
+  return stats
+}
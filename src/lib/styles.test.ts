@@ -0,0 +1,24 @@
+import { describe, expect, it } from 'bun:test'
+import { formatStyles } from './styles'
+import { getTargetFormatting } from './target-language'
+
+const W = 'xmlns:w="http://schemas.openxmlformats.org/wordprocessingml/2006/main"'
+
+describe('formatStyles', () => {
+  const japanese = getTargetFormatting('ja')
+
+  it('sets the language and fonts of the document defaults and the fonts of styles', () => {
+    const xml = `<w:styles ${W}><w:docDefaults><w:rPrDefault><w:rPr><w:lang w:val="en-US"/></w:rPr></w:rPrDefault></w:docDefaults>`
+      + `<w:style w:styleId="Heading1"><w:rPr><w:rFonts w:eastAsiaTheme="majorEastAsia"/></w:rPr></w:style></w:styles>`
+    const styled = formatStyles(xml, japanese)
+
+    expect(styled).toContain('<w:rPrDefault><w:rPr><w:rFonts w:eastAsia="Yu Gothic"/><w:lang w:eastAsia="ja-JP" w:val="en-US"/></w:rPr></w:rPrDefault>')
+    expect(styled).toContain('<w:style w:styleId="Heading1"><w:rPr><w:rFonts w:eastAsia="Yu Gothic"/></w:rPr></w:style>')
+  })
+
+  it('creates the document defaults when they are missing', () => {
+    expect(formatStyles(`<w:styles ${W}></w:styles>`, japanese)).toBe(
+      `<w:styles ${W}><w:docDefaults><w:rPrDefault><w:rPr><w:rFonts w:eastAsia="Yu Gothic"/><w:lang w:eastAsia="ja-JP"/></w:rPr></w:rPrDefault></w:docDefaults></w:styles>`,
+    )
+  })
+})
@@ -0,0 +1,110 @@
+import type { TargetFormatting } from './target-language'
+import type { XmlEdit } from './xml-tokenizer'
+import { formatFontsElement } from './fonts'
+import { getPrefix, getProperty, parseProperties, RUN_PROPERTIES_ORDER, serializeProperties, setProperty } from './properties'
+import { formatLanguageElement } from './target-language'
+import { applyXmlEdits, tokenizeXml } from './xml-tokenizer'
+import { W_NAMESPACE } from './xml-utils'
+
+export const STYLES_PATH = 'word/styles.xml'
+
+/**
+ * Offsets of the run properties to change in styles.xml
+ * `*Content` is where a missing child can be inserted, undefined if the element is missing
+ */
+interface StyleProperties {
+  prefix: string
+  stylesContent?: number
+  docDefaultsContent?: number
+  rPrDefaultContent?: number
+  /** The <w:rPr> of the document defaults */
+  rPr?: { start: number, end: number }
+  /** The <w:rFonts> of every style that sets its own fonts */
+  styleFonts: { start: number, end: number }[]
+}
+
+/**
+ * Find <w:docDefaults><w:rPrDefault><w:rPr> and the fonts of the styles in styles.xml
+ */
+function findStyleProperties(xml: string): StyleProperties {
+  const defaults: StyleProperties = { prefix: 'w:', styleFonts: [] }
+  const path: string[] = []
+  let rPrStart = 0
+
+  for (const token of tokenizeXml(xml)) {
+    if (token.type === 'open') {
+      const location = token.ns === W_NAMESPACE ? [...path, token.local].join('/') : ''
+      if (location === 'styles') {
+        defaults.prefix = getPrefix(token.name)
+        defaults.stylesContent = token.selfClosing ? undefined : token.end
+      }
+      else if (location === 'styles/docDefaults' && !token.selfClosing) {
+        defaults.docDefaultsContent = token.end
+      }
+      else if (location === 'styles/docDefaults/rPrDefault' && !token.selfClosing) {
+        defaults.rPrDefaultContent = token.end
+      }
+      else if (location === 'styles/docDefaults/rPrDefault/rPr') {
+        rPrStart = token.start
+        if (token.selfClosing) {
+          defaults.rPr = { start: token.start, end: token.end }
+        }
+      }
+      else if (location === 'styles/style/rPr/rFonts') {
+        // Only the start tag, w:rFonts has no children
+        defaults.styleFonts.push({ start: token.start, end: token.end })
+      }
+      if (!token.selfClosing) {
+        path.push(token.local)
+      }
+    }
+    else if (token.type === 'close') {
+      if (path.join('/') === 'styles/docDefaults/rPrDefault/rPr') {
+        defaults.rPr = { start: rPrStart, end: token.end }
+      }
+      path.pop()
+    }
+  }
+
+  return defaults
+}
+
+/**
+ * Set the target language and fonts in the document default run properties,
+ * and the fonts in the styles that set their own
+ * Runs without their own w:lang inherit the default, so spelling and hyphenation follow the translation
+ */
+export function formatStyles(xml: string, formatting: TargetFormatting): string {
+  const defaults = findStyleProperties(xml)
+  const { prefix } = defaults
+  const properties = parseProperties(defaults.rPr ? xml.slice(defaults.rPr.start, defaults.rPr.end) : '', `${prefix}rPr`)
+  setProperty(properties, RUN_PROPERTIES_ORDER, 'lang', formatLanguageElement(getProperty(properties, 'lang'), prefix, formatting))
+  if (Object.keys(formatting.fonts).length > 0) {
+    const fonts = getProperty(properties, 'rFonts') ?? `<${prefix}rFonts/>`
+    setProperty(properties, RUN_PROPERTIES_ORDER, 'rFonts', formatFontsElement(fonts, prefix, formatting.fonts))
+  }
+  const rPr = serializeProperties(properties)
+
+  const edits: XmlEdit[] = defaults.styleFonts.map(range => ({
+    ...range,
+    text: formatFontsElement(xml.slice(range.start, range.end), prefix, formatting.fonts),
+  }))
+
+  // Create whatever part of the chain is missing, each one is the first child of its parent
+  const rPrDefault = `<${prefix}rPrDefault>${rPr}</${prefix}rPrDefault>`
+  if (defaults.rPr) {
+    edits.push({ ...defaults.rPr, text: rPr })
+  }
+  else if (defaults.rPrDefaultContent !== undefined) {
+    edits.push({ start: defaults.rPrDefaultContent, end: defaults.rPrDefaultContent, text: rPr })
+  }
+  else if (defaults.docDefaultsContent !== undefined) {
+    edits.push({ start: defaults.docDefaultsContent, end: defaults.docDefaultsContent, text: rPrDefault })
+  }
+  else if (defaults.stylesContent !== undefined) {
+    const docDefaults = `<${prefix}docDefaults>${rPrDefault}</${prefix}docDefaults>`
+    edits.push({ start: defaults.stylesContent, end: defaults.stylesContent, text: docDefaults })
+  }
+
+  return applyXmlEdits(xml, edits)
+}
@@ -0,0 +1,61 @@
+import { describe, expect, it } from 'bun:test'
+import { formatLanguageElement, formatParagraphProperties, formatRunProperties, getTargetFormatting, isRtlLanguage } from './target-language'
+
+describe('right-to-left languages', () => {
+  const arabic = getTargetFormatting('ar')
+
+  it('knows which languages are written right-to-left', () => {
+    expect(isRtlLanguage('ar')).toBe(true)
+    expect(isRtlLanguage('he-IL')).toBe(true)
+    expect(isRtlLanguage('hu')).toBe(false)
+    expect(arabic.rtl).toBe(true)
+    expect(getTargetFormatting('fr').rtl).toBe(false)
+  })
+
+  it('makes WordprocessingML paragraphs bidi and leaves their alignment', () => {
+    expect(formatParagraphProperties('', 'w:p', arabic)).toBe('<w:pPr><w:bidi/></w:pPr>')
+    expect(formatParagraphProperties('<w:pPr><w:jc w:val="left"/></w:pPr>', 'w:p', arabic))
+      .toBe('<w:pPr><w:bidi/><w:jc w:val="left"/></w:pPr>')
+  })
+
+  it('mirrors the alignment of DrawingML paragraphs', () => {
+    const align = (properties: string) => formatParagraphProperties(properties, 'a:p', arabic).match(/algn="(\w+)"/)?.[1]
+    expect(align('')).toBe('r')
+    expect(align('<a:pPr algn="r"/>')).toBe('l')
+    expect(align('<a:pPr algn="ctr"/>')).toBe('ctr')
+    expect(formatParagraphProperties('', 'a:p', arabic)).toContain('rtl="1"')
+  })
+
+  it('marks runs right-to-left and copies bold, italic and size to their complex script variants', () => {
+    const properties = formatRunProperties('<w:rPr><w:b/><w:i/><w:sz w:val="24"/></w:rPr>', 'w:r', arabic)
+    expect(properties).toContain('<w:b/><w:bCs/><w:i/><w:iCs/>')
+    expect(properties).toContain('<w:sz w:val="24"/><w:szCs w:val="24"/>')
+    expect(properties).toContain('<w:rtl/>')
+  })
+
+  it('leaves the paragraphs of left-to-right languages alone', () => {
+    expect(formatParagraphProperties('<w:pPr><w:jc w:val="left"/></w:pPr>', 'w:p', getTargetFormatting('fr')))
+      .toBe('<w:pPr><w:jc w:val="left"/></w:pPr>')
+  })
+})
+
+describe('language tags', () => {
+  it('adds the default region and picks the script class', () => {
+    expect(getTargetFormatting('hu')).toMatchObject({ language: 'hu-HU', script: 'latin' })
+    expect(getTargetFormatting('zh-TW')).toMatchObject({ language: 'zh-TW', script: 'eastAsia' })
+    expect(getTargetFormatting('ar')).toMatchObject({ language: 'ar-SA', script: 'complex' })
+    expect(getTargetFormatting('sw')).toMatchObject({ language: 'sw', script: 'latin' })
+  })
+
+  it('only sets the attribute of the script class in w:lang', () => {
+    const lang = '<w:lang w:val="en-US" w:eastAsia="ja-JP"/>'
+    expect(formatLanguageElement(lang, 'w:', getTargetFormatting('de'))).toBe('<w:lang w:val="de-DE" w:eastAsia="ja-JP"/>')
+    expect(formatLanguageElement(lang, 'w:', getTargetFormatting('zh'))).toBe('<w:lang w:val="en-US" w:eastAsia="zh-CN"/>')
+    expect(formatLanguageElement(undefined, 'w:', getTargetFormatting('he'))).toBe('<w:lang w:bidi="he-IL"/>')
+  })
+
+  it('tags WordprocessingML and DrawingML runs', () => {
+    expect(formatRunProperties('<w:rPr><w:b/></w:rPr>', 'w:r', getTargetFormatting('de'))).toContain('<w:lang w:val="de-DE"/>')
+    expect(formatRunProperties('', 'a:r', getTargetFormatting('de'))).toContain('lang="de-DE"')
+  })
+})
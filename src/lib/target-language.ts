@@ -0,0 +1,179 @@
+import type { FontMapping } from './fonts'
+import { formatFontsElement, getFontMapping } from './fonts'
+import {
+  DRAWING_RUN_PROPERTIES_ORDER,
+  getAttribute,
+  getPrefix,
+  getProperty,
+  PARAGRAPH_PROPERTIES_ORDER,
+  parseProperties,
+  RUN_PROPERTIES_ORDER,
+  serializeProperties,
+  setAttribute,
+  setPropertiesAttribute,
+  setProperty,
+} from './properties'
+import { escapeXml } from './xml-utils'
+
+/**
+ * How translated paragraphs and runs are formatted for the target language
+ */
+export interface TargetFormatting {
+  /** BCP 47 tag of the target language, e.g. "ar-SA" */
+  language: string
+  /** Script class Word files the language under, decides which w:lang attribute is set */
+  script: LanguageScript
+  /** The language is written right-to-left */
+  rtl: boolean
+  /** Fonts for the scripts of the language */
+  fonts: FontMapping
+}
+
+/**
+ * Word keeps a language per script class: w:val (Latin, Cyrillic...), w:eastAsia and w:bidi (complex scripts)
+ */
+export type LanguageScript = 'latin' | 'eastAsia' | 'complex'
+
+// Region Word uses by default for a bare language code
+const DEFAULT_REGIONS: Record<string, string> = {
+  hu: 'HU',
+  ro: 'RO',
+  en: 'US',
+  es: 'ES',
+  fr: 'FR',
+  de: 'DE',
+  it: 'IT',
+  pt: 'PT',
+  nl: 'NL',
+  pl: 'PL',
+  ru: 'RU',
+  zh: 'CN',
+  ja: 'JP',
+  ko: 'KR',
+  ar: 'SA',
+  he: 'IL',
+  fa: 'IR',
+  ur: 'PK',
+}
+
+const EAST_ASIAN_LANGUAGES = ['zh', 'ja', 'ko']
+
+const RTL_LANGUAGES = ['ar', 'he', 'fa', 'ur']
+
+/**
+ * Check if a language is written right-to-left
+ */
+export function isRtlLanguage(language: string): boolean {
+  return RTL_LANGUAGES.includes(language.split('-')[0]!.toLowerCase())
+}
+
+/**
+ * Get the formatting for a target language code, e.g. "hu", "zh-TW" or "ar"
+ * `fontOverrides` replace the built-in fonts, see `getFontMapping`
+ */
+export function getTargetFormatting(language: string, fontOverrides?: Record<string, FontMapping>): TargetFormatting {
+  const [first = '', ...rest] = language.split('-')
+  const primary = first.toLowerCase()
+  const region = DEFAULT_REGIONS[primary]
+  const rtl = RTL_LANGUAGES.includes(primary)
+
+  return {
+    language: rest.length > 0 || !region ? language : `${primary}-${region}`,
+    script: rtl ? 'complex' : EAST_ASIAN_LANGUAGES.includes(primary) ? 'eastAsia' : 'latin',
+    rtl,
+    fonts: getFontMapping(language, fontOverrides),
+  }
+}
+
+/**
+ * Get the w:lang attribute (without prefix) that holds the language of a script class
+ */
+export function getLanguageAttribute(script: LanguageScript): string {
+  return script === 'latin' ? 'val' : script === 'eastAsia' ? 'eastAsia' : 'bidi'
+}
+
+/**
+ * Set the target language in a w:lang element (or create one with `prefix`)
+ * Only the attribute of the target's script class changes, text in other scripts keeps its language
+ */
+export function formatLanguageElement(lang: string | undefined, prefix: string, formatting: TargetFormatting): string {
+  return setAttribute(lang ?? `<${prefix}lang/>`, `${prefix}${getLanguageAttribute(formatting.script)}`, formatting.language)
+}
+
+/**
+ * Copy a property to its complex script variant (e.g. <w:b/> to <w:bCs/>) if that is not set
+ * Word formats RTL text with the complex script properties only
+ */
+function copyComplexScriptProperty(
+  element: ReturnType<typeof parseProperties>,
+  local: string,
+  csLocal: string,
+): void {
+  const property = getProperty(element, local)
+  if (property && !getProperty(element, csLocal)) {
+    const prefix = getPrefix(element.name)
+    setProperty(element, RUN_PROPERTIES_ORDER, csLocal, property.replace(`<${prefix}${local}`, `<${prefix}${csLocal}`))
+  }
+}
+
+/**
+ * Format the raw properties of a translated run (<w:rPr> or <a:rPr>, may be empty)
+ * `runName` is the qualified name of the run, its prefix decides the vocabulary
+ */
+export function formatRunProperties(properties: string, runName: string, formatting: TargetFormatting): string {
+  const prefix = getPrefix(runName)
+
+  // DrawingML runs (charts, SmartArt, text boxes in drawings) have a single lang attribute
+  if (prefix !== 'w:') {
+    const element = parseProperties(properties, `${prefix}rPr`)
+    const { ascii, hAnsi, eastAsia, cs } = formatting.fonts
+    for (const [local, font] of [['latin', ascii ?? hAnsi], ['ea', eastAsia], ['cs', cs]] as const) {
+      if (font) {
+        setProperty(element, DRAWING_RUN_PROPERTIES_ORDER, local, `<${prefix}${local} typeface="${escapeXml(font)}"/>`)
+      }
+    }
+    setPropertiesAttribute(element, 'lang', formatting.language)
+    return serializeProperties(element)
+  }
+
+  const element = parseProperties(properties, `${prefix}rPr`)
+  if (formatting.rtl) {
+    setProperty(element, RUN_PROPERTIES_ORDER, 'rtl', `<${prefix}rtl/>`)
+    copyComplexScriptProperty(element, 'b', 'bCs')
+    copyComplexScriptProperty(element, 'i', 'iCs')
+    copyComplexScriptProperty(element, 'sz', 'szCs')
+  }
+  if (Object.keys(formatting.fonts).length > 0) {
+    const fonts = getProperty(element, 'rFonts') ?? `<${prefix}rFonts/>`
+    setProperty(element, RUN_PROPERTIES_ORDER, 'rFonts', formatFontsElement(fonts, prefix, formatting.fonts))
+  }
+
+  setProperty(element, RUN_PROPERTIES_ORDER, 'lang', formatLanguageElement(getProperty(element, 'lang'), prefix, formatting))
+  return serializeProperties(element)
+}
+
+/**
+ * Format the raw properties of a translated paragraph (<w:pPr> or <a:pPr>, may be empty)
+ * `paragraphName` is the qualified name of the paragraph, its prefix decides the vocabulary
+ */
+export function formatParagraphProperties(properties: string, paragraphName: string, formatting: TargetFormatting): string {
+  if (!formatting.rtl) {
+    return properties
+  }
+  const prefix = getPrefix(paragraphName)
+
+  if (prefix === 'w:') {
+    // Word reads jc left/right (and start/end) as the logical start/end of a bidi paragraph,
+    // so the alignment mirrors by itself and is left alone
+    const element = parseProperties(properties, 'w:pPr')
+    setProperty(element, PARAGRAPH_PROPERTIES_ORDER, 'bidi', '<w:bidi/>')
+    return serializeProperties(element)
+  }
+
+  // DrawingML alignment is visual, mirror it by hand; no alignment means left
+  const element = parseProperties(properties, `${prefix}pPr`)
+  const align = getAttribute(`<${element.name}${element.attributes}>`, 'algn')
+  setPropertiesAttribute(element, 'rtl', '1')
+  setPropertiesAttribute(element, 'algn', align === 'r' ? 'l' : align === 'l' || align === undefined ? 'r' : align)
+  return serializeProperties(element)
+}
@@ -0,0 +1,8 @@
+import type { ParagraphSegment } from './types'
+
+/**
+ * A paragraph segment of word/document.xml for tests
+ */
+export function segment(id: string, text: string, translation?: string): ParagraphSegment {
+  return { id, text, translation, source: 'word/document.xml', runCount: 1 }
+}
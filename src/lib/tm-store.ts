@@ -0,0 +1,56 @@
+import type { TranslationMemory } from './tm'
+import { createTranslationMemory } from './tm'
+
+const DB_NAME = 'translate-docx'
+const STORE_NAME = 'translation-memory'
+const MEMORY_KEY = 'default'
+
+/**
+ * Open the IndexedDB database, creating the store on first use
+ */
+function openDatabase(): Promise<IDBDatabase> {
+  return new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, 1)
+    request.onupgradeneeded = () => {
+      request.result.createObjectStore(STORE_NAME)
+    }
+    request.onsuccess = () => resolve(request.result)
+    request.onerror = () => reject(request.error)
+  })
+}
+
+/**
+ * Load the translation memory from IndexedDB
+ * Returns an empty memory if none was saved yet
+ */
+export async function loadMemory(): Promise<TranslationMemory> {
+  const db = await openDatabase()
+  try {
+    return await new Promise((resolve, reject) => {
+      const request = db.transaction(STORE_NAME, 'readonly').objectStore(STORE_NAME).get(MEMORY_KEY)
+      request.onsuccess = () => resolve(request.result ?? createTranslationMemory())
+      request.onerror = () => reject(request.error)
+    })
+  }
+  finally {
+    db.close()
+  }
+}
+
+/**
+ * Save the translation memory to IndexedDB
+ */
+export async function saveMemory(tm: TranslationMemory): Promise<void> {
+  const db = await openDatabase()
+  try {
+    await new Promise<void>((resolve, reject) => {
+      const transaction = db.transaction(STORE_NAME, 'readwrite')
+      transaction.objectStore(STORE_NAME).put(tm, MEMORY_KEY)
+      transaction.oncomplete = () => resolve()
+      transaction.onerror = () => reject(transaction.error)
+    })
+  }
+  finally {
+    db.close()
+  }
+}
@@ -0,0 +1,80 @@
+import { describe, expect, it } from 'bun:test'
+import { segment } from './test-helpers'
+import { addToMemory, applyMemory, createTranslationMemory, formatTmx, getPairEntries, importTmx } from './tm'
+
+function createMemory() {
+  const tm = createTranslationMemory()
+  addToMemory(tm, 'en-US', 'fr', [
+    { source: 'Press the button to start.', target: 'Appuyez sur le bouton pour commencer.' },
+    { source: 'Annual report', target: 'Rapport annuel' },
+  ])
+  return tm
+}
+
+describe('applyMemory', () => {
+  it('fills exact matches and suggests similar entries', () => {
+    const segments = [
+      segment('p0', 'Annual report'),
+      segment('p1', 'Press the button to stop.'),
+      segment('p2', 'Something else entirely.'),
+    ]
+    expect(applyMemory(segments, createMemory(), 'en', 'fr-FR')).toEqual({ exact: 1, fuzzy: 1 })
+
+    expect(segments[0]!.translation).toBe('Rapport annuel')
+    expect(segments[1]!.translation).toBeUndefined()
+    expect(segments[1]!.suggestions).toEqual([
+      { source: 'Press the button to start.', translation: 'Appuyez sur le bouton pour commencer.', score: 0.88 },
+    ])
+    expect(segments[2]!.suggestions).toBeUndefined()
+  })
+
+  it('keeps translations that are already there', () => {
+    const segments = [segment('p0', 'Annual report', 'Bilan annuel')]
+    expect(applyMemory(segments, createMemory(), 'en', 'fr')).toEqual({ exact: 0, fuzzy: 0 })
+    expect(segments[0]!.translation).toBe('Bilan annuel')
+  })
+
+  it('only uses the entries of the language pair', () => {
+    const segments = [segment('p0', 'Annual report')]
+    expect(applyMemory(segments, createMemory(), 'en', 'de')).toEqual({ exact: 0, fuzzy: 0 })
+  })
+
+  it('does not match texts named like object properties', () => {
+    expect(applyMemory([segment('p0', 'constructor')], createMemory(), 'en', 'fr').exact).toBe(0)
+  })
+})
+
+describe('addToMemory', () => {
+  it('counts new and changed entries and skips empty ones', () => {
+    const tm = createMemory()
+    const changed = addToMemory(tm, 'en', 'fr', [
+      { source: 'Annual report', target: 'Rapport annuel' },
+      { source: 'Annual report', target: 'Bilan annuel' },
+      { source: 'Empty', target: ' ' },
+    ])
+    expect(changed).toBe(1)
+    expect(getPairEntries(tm, 'en', 'fr').map(entry => entry.target)).toContain('Bilan annuel')
+  })
+})
+
+describe('TMX', () => {
+  it('imports what it exports', () => {
+    const tmx = formatTmx(createMemory(), 'en', 'fr')
+    const tm = createTranslationMemory()
+
+    expect(importTmx(tm, tmx)).toBe(2)
+    expect(getPairEntries(tm, 'en', 'fr').map(({ source, target }) => [source, target])).toEqual([
+      ['Press the button to start.', 'Appuyez sur le bouton pour commencer.'],
+      ['Annual report', 'Rapport annuel'],
+    ])
+  })
+
+  it('leaves out native code of inline elements', () => {
+    const tmx = `<tmx version="1.4"><header srclang="en"/><body><tu>`
+      + `<tuv xml:lang="en"><seg>Click <bpt i="1">&lt;b&gt;</bpt>OK<ept i="1">&lt;/b&gt;</ept></seg></tuv>`
+      + `<tuv xml:lang="de"><seg>Klicken Sie auf OK</seg></tuv></tu></body></tmx>`
+    const tm = createTranslationMemory()
+    importTmx(tm, tmx)
+    expect(getPairEntries(tm, 'en', 'de').map(entry => entry.source)).toEqual(['Click OK'])
+  })
+})
@@ -0,0 +1,285 @@
+import type { ParagraphSegment, TranslationSuggestion } from './types'
+import { tokenizeXml } from './xml-tokenizer'
+import { escapeXml, unescapeXml } from './xml-utils'
+
+/**
+ * A translation memory entry
+ */
+export interface TmEntry {
+  /** Source text */
+  source: string
+  /** Translated text */
+  target: string
+  /** When the entry was last added or changed */
+  updatedAt: string
+}
+
+/**
+ * A translation memory, keyed by language pair and then by source text
+ */
+export interface TranslationMemory {
+  /** Entries by language pair (e.g. "en:hu"), then by source text */
+  pairs: Record<string, Record<string, TmEntry>>
+}
+
+export interface FuzzyMatchOptions {
+  /** Minimum similarity to suggest a match, from 0 to 1 (default 0.7) */
+  minScore?: number
+  /** Maximum number of suggestions per segment (default 3) */
+  limit?: number
+}
+
+// Inline elements whose content is native code, not text
+const NATIVE_CODE_ELEMENTS = ['bpt', 'ept', 'it', 'ph', 'ut']
+
+/**
+ * Create an empty translation memory
+ */
+export function createTranslationMemory(): TranslationMemory {
+  return { pairs: {} }
+}
+
+/**
+ * Reduce a language tag to its primary subtag, so "en-US" and "en" share entries
+ */
+function normalizeLanguage(language: string): string {
+  return language.toLowerCase().split(/[-_]/)[0]!
+}
+
+/**
+ * Get the key of a language pair
+ */
+export function getPairKey(sourceLanguage: string, targetLanguage: string): string {
+  return `${normalizeLanguage(sourceLanguage)}:${normalizeLanguage(targetLanguage)}`
+}
+
+/**
+ * Get the entries of a language pair
+ */
+export function getPairEntries(
+  tm: TranslationMemory,
+  sourceLanguage: string,
+  targetLanguage: string,
+): TmEntry[] {
+  return Object.values(tm.pairs[getPairKey(sourceLanguage, targetLanguage)] ?? {})
+}
+
+/**
+ * Add confirmed source/target pairs to the memory, replacing older translations
+ * Returns the number of entries added or changed
+ */
+export function addToMemory(
+  tm: TranslationMemory,
+  sourceLanguage: string,
+  targetLanguage: string,
+  pairs: { source: string, target: string }[],
+): number {
+  const key = getPairKey(sourceLanguage, targetLanguage)
+  const entries = tm.pairs[key] ??= {}
+  const updatedAt = new Date().toISOString()
+  let changed = 0
+
+  for (const { source, target } of pairs) {
+    if (source.trim().length === 0 || target.trim().length === 0) {
+      continue
+    }
+    if (entries[source]?.target !== target) {
+      entries[source] = { source, target, updatedAt }
+      changed++
+    }
+  }
+
+  return changed
+}
+
+/**
+ * Levenshtein similarity of two strings, from 0 to 1
+ */
+export function similarity(a: string, b: string): number {
+  if (a === b)
+    return 1
+  const maxLength = Math.max(a.length, b.length)
+  if (maxLength === 0)
+    return 1
+
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i)
+  let current = Array.from<number>({ length: b.length + 1 })
+
+  for (let i = 1; i <= a.length; i++) {
+    current[0] = i
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1
+      current[j] = Math.min(previous[j]! + 1, current[j - 1]! + 1, previous[j - 1]! + cost)
+    }
+    [previous, current] = [current, previous]
+  }
+
+  return 1 - previous[b.length]! / maxLength
+}
+
+/**
+ * Find memory entries similar to a text, best first
+ */
+export function findFuzzyMatches(
+  entries: TmEntry[],
+  text: string,
+  options: FuzzyMatchOptions = {},
+): TranslationSuggestion[] {
+  const { minScore = 0.7, limit = 3 } = options
+  const suggestions: TranslationSuggestion[] = []
+
+  for (const entry of entries) {
+    // The length difference alone limits the score, so skip hopeless entries early
+    const shorter = Math.min(entry.source.length, text.length)
+    const longer = Math.max(entry.source.length, text.length)
+    if (entry.source === text || longer === 0 || shorter / longer < minScore) {
+      continue
+    }
+
+    const score = similarity(entry.source, text)
+    if (score >= minScore) {
+      suggestions.push({ source: entry.source, translation: entry.target, score: Math.round(score * 100) / 100 })
+    }
+  }
+
+  return suggestions
+    .sort((a, b) => b.score - a.score)
+    .slice(0, limit)
+}
+
+/**
+ * Pre-fill segments from the memory
+ * Exact matches fill `translation` (unless already set), other segments get fuzzy `suggestions`
+ */
+export function applyMemory(
+  segments: ParagraphSegment[],
+  tm: TranslationMemory,
+  sourceLanguage: string,
+  targetLanguage: string,
+  options: FuzzyMatchOptions = {},
+): { exact: number, fuzzy: number } {
+  const pair = tm.pairs[getPairKey(sourceLanguage, targetLanguage)] ?? {}
+  const entries = Object.values(pair)
+  let exact = 0
+  let fuzzy = 0
+
+  for (const segment of segments) {
+    if (segment.translation) {
+      continue
+    }
+
+    const match = Object.hasOwn(pair, segment.text) ? pair[segment.text] : undefined
+    if (match) {
+      segment.translation = match.target
+      exact++
+      continue
+    }
+
+    const suggestions = findFuzzyMatches(entries, segment.text, options)
+    if (suggestions.length > 0) {
+      segment.suggestions = suggestions
+      fuzzy++
+    }
+  }
+
+  return { exact, fuzzy }
+}
+
+/**
+ * Format a language pair of the memory as TMX 1.4
+ */
+export function formatTmx(
+  tm: TranslationMemory,
+  sourceLanguage: string,
+  targetLanguage: string,
+): string {
+  const source = escapeXml(sourceLanguage)
+  const target = escapeXml(targetLanguage)
+  const lines = [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<tmx version="1.4">',
+    `  <header creationtool="translate-docx" creationtoolversion="1.0" segtype="paragraph" o-tmf="translate-docx" adminlang="en" srclang="${source}" datatype="plaintext"/>`,
+    '  <body>',
+  ]
+
+  for (const entry of getPairEntries(tm, sourceLanguage, targetLanguage)) {
+    const changeDate = entry.updatedAt.replace(/[-:]/g, '').replace(/\.\d+/, '')
+    lines.push(
+      `    <tu changedate="${changeDate}">`,
+      `      <tuv xml:lang="${source}"><seg>${escapeXml(entry.source)}</seg></tuv>`,
+      `      <tuv xml:lang="${target}"><seg>${escapeXml(entry.target)}</seg></tuv>`,
+      '    </tu>',
+    )
+  }
+
+  lines.push('  </body>', '</tmx>')
+  return `${lines.join('\n')}\n`
+}
+
+/**
+ * Import a TMX file into the memory
+ * The header's srclang (or each unit's) is the source, every other variant becomes a target
+ * Returns the number of entries added or changed
+ */
+export function importTmx(tm: TranslationMemory, content: string): number {
+  let headerSource: string | undefined
+  let unitSource: string | undefined
+  let variants: { language: string, text: string }[] = []
+  let language: string | undefined
+  let text: string | null = null
+  let nativeDepth = 0
+  let changed = 0
+
+  for (const token of tokenizeXml(content)) {
+    if (token.type === 'open') {
+      const attr = (local: string) => token.attributes.find(a => a.local === local)?.value
+
+      if (text !== null) {
+        if (nativeDepth > 0 || NATIVE_CODE_ELEMENTS.includes(token.local)) {
+          nativeDepth += token.selfClosing ? 0 : 1
+        }
+      }
+      else if (token.local === 'header') {
+        headerSource = attr('srclang')
+      }
+      else if (token.local === 'tu') {
+        unitSource = attr('srclang')
+        variants = []
+      }
+      else if (token.local === 'tuv') {
+        // xml:lang in TMX 1.4, lang in older versions
+        language = attr('lang')
+      }
+      else if (token.local === 'seg' && !token.selfClosing) {
+        text = ''
+      }
+    }
+    else if (token.type === 'close') {
+      if (nativeDepth > 0) {
+        nativeDepth--
+      }
+      else if (token.local === 'seg' && text !== null) {
+        if (language) {
+          variants.push({ language, text })
+        }
+        text = null
+      }
+      else if (token.local === 'tu') {
+        const sourceLanguage = unitSource && unitSource !== '*all*' ? unitSource : headerSource
+        const source = variants.find(v => sourceLanguage && normalizeLanguage(v.language) === normalizeLanguage(sourceLanguage))
+        if (source && sourceLanguage) {
+          for (const variant of variants.filter(v => v !== source)) {
+            changed += addToMemory(tm, sourceLanguage, variant.language, [{ source: source.text, target: variant.text }])
+          }
+        }
+      }
+    }
+    else if (text !== null && nativeDepth === 0) {
+      text += token.type === 'text'
+        ? unescapeXml(content.slice(token.start, token.end))
+        : token.type === 'cdata' ? content.slice(token.contentStart, token.contentEnd) : ''
+    }
+  }
+
+  return changed
+}
@@ -0,0 +1,53 @@
+import { describe, expect, it } from 'bun:test'
+import { segment } from './test-helpers'
+import { getCoverage, getStoreTranslations, mergeTranslations } from './translation-store'
+
+describe('mergeTranslations', () => {
+  const first = mergeTranslations(new Map(), new Map([['p0', 'Bonjour'], ['p1', 'Monde'], ['p2', '  ']]), 'Batch 1').store
+
+  it('adds translations and leaves the old store as it was', () => {
+    const store = new Map()
+    const result = mergeTranslations(store, new Map([['p0', 'Bonjour'], ['p1', ' ']]), 'Batch 1')
+
+    expect(result.added).toEqual(['p0'])
+    expect(getStoreTranslations(result.store)).toEqual(new Map([['p0', 'Bonjour']]))
+    expect(store.size).toBe(0)
+  })
+
+  it('treats a change from the same origin as a correction', () => {
+    const result = mergeTranslations(first, new Map([['p0', 'Salut'], ['p1', 'Monde']]), 'Batch 1')
+    expect(result).toMatchObject({ added: [], updated: ['p0'], conflicts: [] })
+  })
+
+  it('reports changes from another origin as conflicts, the incoming translation wins', () => {
+    const result = mergeTranslations(first, new Map([['p1', 'Univers']]), 'Batch 2')
+
+    expect(result.conflicts).toEqual([{
+      id: 'p1',
+      previous: { translation: 'Monde', origin: 'Batch 1' },
+      incoming: { translation: 'Univers', origin: 'Batch 2' },
+    }])
+    expect(result.store.get('p1')).toEqual({ translation: 'Univers', origin: 'Batch 2' })
+  })
+
+  it('replaces suggestions of weak origins without a conflict', () => {
+    const memory = mergeTranslations(new Map(), new Map([['p0', 'Bonjour']]), 'Translation memory').store
+    const result = mergeTranslations(memory, new Map([['p0', 'Salut']]), 'Batch 1', { weakOrigins: ['Translation memory'] })
+    expect(result).toMatchObject({ updated: ['p0'], conflicts: [] })
+  })
+
+  it('skips IDs that are not segments of the document', () => {
+    const result = mergeTranslations(new Map(), new Map([['p0', 'Bonjour'], ['p9', 'Extra']]), 'Batch 1', {
+      knownIds: new Set(['p0']),
+    })
+    expect(result).toMatchObject({ added: ['p0'], unknown: ['p9'] })
+    expect(result.store.has('p9')).toBe(false)
+  })
+})
+
+describe('getCoverage', () => {
+  it('counts the segments with a translation in the store', () => {
+    const store = mergeTranslations(new Map(), new Map([['p0', 'Bonjour'], ['p5', 'Autre']]), 'Batch 1').store
+    expect(getCoverage([segment('p0', 'Hello'), segment('p1', 'World')], store)).toEqual({ translated: 1, total: 2 })
+  })
+})
@@ -0,0 +1,107 @@
+import type { ParagraphSegment } from './types'
+
+/**
+ * A translation kept in the store, with where it came from
+ */
+export interface StoredTranslation {
+  translation: string
+  /** Where the translation came from, e.g. "Batch 2" or "Translation memory" */
+  origin: string
+}
+
+/**
+ * Translations by segment ID, accumulated over several pastes
+ */
+export type TranslationStore = Map<string, StoredTranslation>
+
+/**
+ * Two different translations of the same segment from different origins
+ */
+export interface TranslationConflict {
+  id: string
+  /** The translation that was replaced */
+  previous: StoredTranslation
+  /** The translation that replaced it */
+  incoming: StoredTranslation
+}
+
+export interface MergeResult {
+  /** The new store, the old one is not changed */
+  store: TranslationStore
+  /** IDs that had no translation before */
+  added: string[]
+  /** IDs whose translation changed */
+  updated: string[]
+  /** Changes that replaced a translation from another origin */
+  conflicts: TranslationConflict[]
+  /** IDs that are not segments of the document */
+  unknown: string[]
+}
+
+export interface MergeOptions {
+  /** IDs of the document's segments, other IDs are ignored */
+  knownIds?: Set<string>
+  /** Origins whose translations are only suggestions, replacing them is not a conflict */
+  weakOrigins?: string[]
+}
+
+/**
+ * Merge a parsed paste into the store, the incoming translations win
+ * A translation from the same origin is a correction, from another origin it is a conflict
+ */
+export function mergeTranslations(
+  store: TranslationStore,
+  incoming: Map<string, string>,
+  origin: string,
+  options: MergeOptions = {},
+): MergeResult {
+  const result: MergeResult = { store: new Map(store), added: [], updated: [], conflicts: [], unknown: [] }
+
+  for (const [id, translation] of incoming) {
+    if (translation.trim().length === 0) {
+      continue
+    }
+    if (options.knownIds && !options.knownIds.has(id)) {
+      result.unknown.push(id)
+      continue
+    }
+
+    const previous = store.get(id)
+    const entry = { translation, origin }
+    if (!previous) {
+      result.added.push(id)
+    }
+    else if (previous.translation !== translation) {
+      result.updated.push(id)
+      if (previous.origin !== origin && !options.weakOrigins?.includes(previous.origin)) {
+        result.conflicts.push({ id, previous, incoming: entry })
+      }
+    }
+    else {
+      continue
+    }
+    result.store.set(id, entry)
+  }
+
+  return result
+}
+
+/**
+ * Get the plain ID→translation map of the store
+ */
+export function getStoreTranslations(store: TranslationStore): Map<string, string> {
+  return new Map([...store].map(([id, entry]) => [id, entry.translation]))
+}
+
+/**
+ * Count the segments that have a translation in the store
+ */
+export function getCoverage(
+  segments: ParagraphSegment[],
+  store: TranslationStore,
+): { translated: number, total: number } {
+  return {
+    translated: segments.filter(seg => store.get(seg.id)?.translation.trim()).length,
+    total: segments.length,
+  }
+}
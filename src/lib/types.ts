@@ -1,23 +1,101 @@
+/**
+ * What a segment was extracted from
+ * - paragraph: a paragraph of text (IDs like p0)
+ * - property: a document property in docProps/core.xml (IDs like d0)
+ * - alt-text: the alternative text of an image or shape (IDs like a0)
+ */
+export type SegmentKind = 'paragraph' | 'property' | 'alt-text'
+
+/**
+ * Where a segment is in the translation workflow, from least to most final
+ * - new: not translated yet
+ * - translated: translated, by a translator, the memory or machine translation
+ * - reviewed: checked by a reviewer
+ * - approved: signed off, ready to deliver
+ */
+export type SegmentStatus = 'new' | 'translated' | 'reviewed' | 'approved'
+
 /**
  * Represents a paragraph extracted from the DOCX
  */
 export interface ParagraphSegment {
   /** Unique identifier for this paragraph */
   id: string
-  /** The combined original text content of the paragraph */
+  /** What the segment was extracted from, paragraph if not set */
+  kind?: SegmentKind
+  /**
+   * The combined original text content of the paragraph
+   * Runs with different formatting are wrapped in inline tags, e.g. `<1>bold</1>`
+   */
   text: string
   /** The translated text (to be filled in) */
   translation?: string
+  /** Workflow status, derived from the translation if not set */
+  status?: SegmentStatus
+  /** Notes from the translator or reviewer, never injected */
+  notes?: string
+  /** When the translation or status last changed (ISO 8601) */
+  updatedAt?: string
   /** Path within the DOCX (e.g., "word/document.xml") */
   source: string
   /** Number of text runs in this paragraph (for reference) */
   runCount: number
+  /** Similar translations found in the translation memory */
+  suggestions?: TranslationSuggestion[]
+  /** How the segment compares to the previous version of the document, set when updating */
+  change?: SegmentChange
+  /** Set on sentence segments: the paragraph they were cut from and how to join them back */
+  sentence?: SentencePosition
+}
+
+/**
+ * Where a sentence segment sits in its paragraph
+ */
+export interface SentencePosition {
+  /** ID the paragraph would have as a single segment, e.g. `p12` for `p12.s3` */
+  paragraphId: string
+  /** Whitespace before the sentence */
+  before: string
+  /** Whitespace after the sentence */
+  after: string
+}
+
+/**
+ * How a segment compares to the previous version of the document
+ * - unchanged: the same text in the same order
+ * - moved: the same text, but somewhere else
+ * - changed: similar text, the previous translation is kept and needs a review
+ * - new: nothing similar in the previous version
+ */
+export interface SegmentChange {
+  status: 'unchanged' | 'moved' | 'changed' | 'new'
+  /** ID of the matching segment in the previous version */
+  previousId?: string
+  /** Text of the previous segment, for changed segments */
+  previousText?: string
+  /** Similarity to the previous text, from 0 to 1, for changed segments */
+  score?: number
+}
+
+/**
+ * A fuzzy match from the translation memory
+ */
+export interface TranslationSuggestion {
+  /** The source text of the memory entry */
+  source: string
+  /** The translation of the memory entry */
+  translation: string
+  /** Similarity to the segment text, from 0 to 1 */
+  score: number
 }
 
 /**
  * The translation file format
+ * Files without a version were written before it was versioned and count as version 1
  */
 export interface TranslationFile {
+  /** Schema version, see TRANSLATION_FILE_VERSION */
+  version?: number
   /** Source language (if known) */
   sourceLanguage?: string
   /** Target language */
@@ -26,6 +104,22 @@ export interface TranslationFile {
   originalFile: string
   /** When the extraction was performed */
   extractedAt: string
+  /** Whether tracked changes in the DOCX were accepted or rejected, injection must do the same */
+  revisions?: 'accept' | 'reject'
+  /** Set when paragraphs were cut into sentences */
+  segmentation?: 'sentence'
+  /** Identifies the DOCX the segments were extracted from */
+  fingerprint?: DocumentFingerprint
   /** All paragraph segments */
   segments: ParagraphSegment[]
 }
+
+/**
+ * Shortened SHA-256 hashes of a DOCX and of the parts text is extracted from
+ */
+export interface DocumentFingerprint {
+  /** The whole file */
+  docx: string
+  /** Each translatable part and docProps/core.xml, by path */
+  parts: Record<string, string>
+}
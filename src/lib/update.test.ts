@@ -0,0 +1,61 @@
+import { describe, expect, it } from 'bun:test'
+import { segment } from './test-helpers'
+import { formatUpdateReport, updateSegments } from './update'
+
+describe('updateSegments', () => {
+  const previous = [
+    { ...segment('p0', 'The introduction of the report.', 'A jelentés bevezetése.'), status: 'approved' as const, notes: 'Checked' },
+    segment('p1', 'Sales grew by ten percent last year.', 'Az eladások tíz százalékkal nőttek tavaly.'),
+    segment('p2', 'A paragraph that was removed.', 'Egy törölt bekezdés.'),
+    { ...segment('p3', 'The closing remarks.', 'A záró megjegyzések.'), status: 'reviewed' as const },
+    segment('p4', 'Thank you for reading.', 'Köszönjük, hogy elolvasta.'),
+  ]
+
+  it('carries translations of unchanged, moved and similar segments', () => {
+    const segments = [
+      segment('p0', 'Thank you for reading.'),
+      segment('p1', 'The introduction of the report.'),
+      segment('p2', 'The closing remarks.'),
+      segment('p3', 'Sales grew by eleven percent last year.'),
+      segment('p4', 'Something entirely new.'),
+    ]
+    const summary = updateSegments(segments, previous)
+
+    expect(segments.map(seg => seg.change?.status)).toEqual(['moved', 'unchanged', 'unchanged', 'changed', 'new'])
+    expect(segments.map(seg => seg.translation)).toEqual([
+      'Köszönjük, hogy elolvasta.',
+      'A jelentés bevezetése.',
+      'A záró megjegyzések.',
+      'Az eladások tíz százalékkal nőttek tavaly.',
+      undefined,
+    ])
+    expect(summary).toMatchObject({ unchanged: 2, moved: 1, changed: 1, new: 1, carried: 4 })
+    expect(summary.removed.map(seg => seg.id)).toEqual(['p2'])
+  })
+
+  it('keeps statuses and notes, except that changed segments need a review again', () => {
+    const segments = [
+      segment('p0', 'The introduction of the report.'),
+      segment('p1', 'The closing remarks!'),
+    ]
+    updateSegments(segments, previous)
+
+    expect(segments[0]).toMatchObject({ status: 'approved', notes: 'Checked' })
+    expect(segments[1]).toMatchObject({ status: 'translated', change: { status: 'changed', previousId: 'p3' } })
+  })
+
+  it('does not match segments below the minimum score', () => {
+    const segments = [segment('p0', 'Sales grew by eleven percent last year.')]
+    updateSegments(segments, previous, { minScore: 0.99 })
+    expect(segments[0]!.change?.status).toBe('new')
+    expect(segments[0]!.translation).toBeUndefined()
+  })
+
+  it('reports the translation kept for a changed segment', () => {
+    const segments = [segment('p0', 'Sales grew by eleven percent last year.')]
+    const report = formatUpdateReport(segments, updateSegments(segments, previous))
+    expect(report).toContain('- Sales grew by ten percent last year.')
+    expect(report).toContain('+ Sales grew by eleven percent last year.')
+    expect(report).toContain('= Az eladások tíz százalékkal nőttek tavaly.')
+  })
+})
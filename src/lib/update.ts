@@ -0,0 +1,191 @@
+import type { ParagraphSegment } from './types'
+import { getSegmentKind, getSegmentStatus } from './segments'
+import { similarity } from './tm'
+
+export interface UpdateOptions {
+  /** Lowest similarity for an edited segment to keep its previous translation, from 0 to 1 (default 0.75) */
+  minScore?: number
+}
+
+/**
+ * What changed between two versions of a document
+ */
+export interface UpdateSummary {
+  unchanged: number
+  moved: number
+  changed: number
+  new: number
+  /** Segments of the previous version without a match in the new one */
+  removed: ParagraphSegment[]
+  /** Translations carried over to the new version */
+  carried: number
+}
+
+/**
+ * Positions (in `values`) of a longest strictly increasing subsequence
+ */
+function longestIncreasing(values: number[]): Set<number> {
+  // tails[k]: position of the smallest last value of an increasing run of length k + 1
+  const tails: number[] = []
+  const previous: number[] = []
+
+  values.forEach((value, index) => {
+    let low = 0
+    let high = tails.length
+    while (low < high) {
+      const middle = (low + high) >> 1
+      if (values[tails[middle]!]! < value) {
+        low = middle + 1
+      }
+      else {
+        high = middle
+      }
+    }
+    previous[index] = low > 0 ? tails[low - 1]! : -1
+    tails[low] = index
+  })
+
+  const result = new Set<number>()
+  for (let index = tails.at(-1) ?? -1; index !== -1; index = previous[index]!) {
+    result.add(index)
+  }
+  return result
+}
+
+/**
+ * Carry the translations of a previous version of a document over to the segments of the new one
+ * Segments with the same text (and kind) match exactly: in the same order they are unchanged, otherwise moved.
+ * The rest are matched by similarity, best pairs first, and keep the previous translation for review.
+ * Sets `change` on every segment and `translation` on matched ones, in place.
+ * Matched segments keep their status, notes and timestamp, except that a changed one goes back to translated
+ */
+export function updateSegments(
+  segments: ParagraphSegment[],
+  previous: ParagraphSegment[],
+  options: UpdateOptions = {},
+): UpdateSummary {
+  const { minScore = 0.75 } = options
+  const summary: UpdateSummary = { unchanged: 0, moved: 0, changed: 0, new: 0, removed: [], carried: 0 }
+  const matched = new Set<ParagraphSegment>()
+
+  const carry = (segment: ParagraphSegment, match: ParagraphSegment) => {
+    matched.add(match)
+    if (match.translation) {
+      segment.translation = match.translation
+      segment.status = segment.change?.status === 'changed' ? 'translated' : getSegmentStatus(match)
+      segment.updatedAt = match.updatedAt
+      summary.carried++
+    }
+    segment.notes = match.notes
+  }
+
+  // Exact matches: the first unused previous segment with the same text
+  const byText = new Map<string, number[]>()
+  previous.forEach((segment, index) => {
+    const key = `${getSegmentKind(segment)}:${segment.text}`
+    if (!byText.has(key)) {
+      byText.set(key, [])
+    }
+    byText.get(key)!.push(index)
+  })
+  const exact: { segment: ParagraphSegment, index: number }[] = []
+  for (const segment of segments) {
+    const index = byText.get(`${getSegmentKind(segment)}:${segment.text}`)?.shift()
+    if (index !== undefined) {
+      exact.push({ segment, index })
+    }
+  }
+
+  // The largest set of exact matches still in their old order is unchanged, the others moved
+  const inOrder = longestIncreasing(exact.map(match => match.index))
+  exact.forEach(({ segment, index }, position) => {
+    const match = previous[index]!
+    const status = inOrder.has(position) ? 'unchanged' : 'moved'
+    segment.change = { status, previousId: match.id }
+    summary[status]++
+    carry(segment, match)
+  })
+
+  // Similar segments, best pairs first
+  const unmatched = segments.filter(segment => !segment.change)
+  const candidates = previous.filter(segment => !matched.has(segment))
+  const pairs: { segment: ParagraphSegment, match: ParagraphSegment, score: number }[] = []
+  for (const segment of unmatched) {
+    for (const match of candidates) {
+      // The length difference alone limits the score, so skip hopeless pairs early
+      const shorter = Math.min(segment.text.length, match.text.length)
+      const longer = Math.max(segment.text.length, match.text.length)
+      if (getSegmentKind(segment) !== getSegmentKind(match) || longer === 0 || shorter / longer < minScore) {
+        continue
+      }
+      const score = similarity(match.text, segment.text)
+      if (score >= minScore) {
+        pairs.push({ segment, match, score })
+      }
+    }
+  }
+  for (const { segment, match, score } of pairs.sort((a, b) => b.score - a.score)) {
+    if (segment.change || matched.has(match)) {
+      continue
+    }
+    segment.change = { status: 'changed', previousId: match.id, previousText: match.text, score: Math.round(score * 100) / 100 }
+    summary.changed++
+    carry(segment, match)
+  }
+
+  for (const segment of unmatched.filter(segment => !segment.change)) {
+    segment.change = { status: 'new' }
+    summary.new++
+  }
+  summary.removed = previous.filter(segment => !matched.has(segment))
+
+  return summary
+}
+
+/**
+ * Format a readable report of an update: the counts, then the changed, new, moved and removed segments
+ * Changed segments show the previous source (-), the new source (+) and the translation kept for review (=)
+ */
+export function formatUpdateReport(segments: ParagraphSegment[], summary: UpdateSummary): string {
+  const lines = [
+    `Unchanged: ${summary.unchanged}, moved: ${summary.moved}, changed: ${summary.changed}, new: ${summary.new}, removed: ${summary.removed.length}`,
+    `Translations carried over: ${summary.carried}`,
+  ]
+
+  const changed = segments.filter(segment => segment.change?.status === 'changed')
+  if (changed.length > 0) {
+    lines.push('', '## Changed (review the translation)')
+    for (const segment of changed) {
+      const { previousId, previousText, score = 0 } = segment.change!
+      lines.push('', `[${segment.id}] was [${previousId}], ${Math.round(score * 100)}% similar`, `- ${previousText}`, `+ ${segment.text}`)
+      if (segment.translation) {
+        lines.push(`= ${segment.translation}`)
+      }
+    }
+  }
+
+  const added = segments.filter(segment => segment.change?.status === 'new')
+  if (added.length > 0) {
+    lines.push('', '## New (translate)')
+    for (const segment of added) {
+      lines.push(`[${segment.id}] ${segment.text}`)
+    }
+  }
+
+  const moved = segments.filter(segment => segment.change?.status === 'moved')
+  if (moved.length > 0) {
+    lines.push('', '## Moved')
+    for (const segment of moved) {
+      lines.push(`[${segment.id}] was [${segment.change!.previousId}] ${segment.text}`)
+    }
+  }
+
+  if (summary.removed.length > 0) {
+    lines.push('', '## Removed')
+    for (const segment of summary.removed) {
+      lines.push(`[${segment.id}] ${segment.text}`)
+    }
+  }
+
+  return `${lines.join('\n')}\n`
+}
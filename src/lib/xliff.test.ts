@@ -0,0 +1,32 @@
+import type { ParagraphSegment } from './types'
+import { describe, expect, it } from 'bun:test'
+import { formatXliff, parseXliff } from './xliff'
+
+const segments: ParagraphSegment[] = [
+  { id: 'p0', text: 'Hello <1>bold</1> world<2/>', translation: 'Bonjour <1>gras</1> monde<2/>', source: 'word/document.xml', runCount: 3, status: 'approved' },
+  { id: 'p1', text: 'Fish & chips', translation: 'Poisson & frites', source: 'word/document.xml', runCount: 1, status: 'reviewed', notes: 'Menu item' },
+  { id: 'p2', text: 'Plain', translation: 'Simple', source: 'word/document.xml', runCount: 1 },
+  { id: 'p3', text: 'Not translated', source: 'word/document.xml', runCount: 1 },
+]
+
+describe('XLIFF round trip', () => {
+  for (const version of ['1.2', '2.0'] as const) {
+    it(`reads back the translations and statuses of XLIFF ${version}`, () => {
+      const xliff = formatXliff(segments, { version, originalFile: 'report.docx', targetLanguage: 'fr' })
+      const parsed = parseXliff(xliff)
+
+      expect([...parsed.translations]).toEqual([
+        ['p0', 'Bonjour <1>gras</1> monde<2/>'],
+        ['p1', 'Poisson & frites'],
+        ['p2', 'Simple'],
+      ])
+      expect([...parsed.statuses]).toEqual([['p0', 'approved'], ['p1', 'reviewed'], ['p2', 'translated']])
+      expect(xliff).toContain('Menu item')
+    })
+  }
+
+  it('lists units that are not translated yet as skipped', () => {
+    const xliff = formatXliff([{ ...segments[2]!, status: 'new' }], { version: '1.2', originalFile: 'report.docx' })
+    expect(parseXliff(xliff)).toMatchObject({ skipped: ['p2'] })
+  })
+})
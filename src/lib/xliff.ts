@@ -0,0 +1,234 @@
+import type { ParagraphSegment, SegmentStatus } from './types'
+import { parseInlineTags } from './inline-tags'
+import { getSegmentKind, getSegmentStatus } from './segments'
+import { tokenizeXml } from './xml-tokenizer'
+import { escapeXml, unescapeXml } from './xml-utils'
+
+export type XliffVersion = '1.2' | '2.0'
+
+export interface XliffOptions {
+  version: XliffVersion
+  /** Original DOCX filename */
+  originalFile: string
+  /** Source language, XLIFF requires one so this defaults to "en" */
+  sourceLanguage?: string
+  /** Target language */
+  targetLanguage?: string
+}
+
+// XLIFF 1.2 target states that mean the target is not usable yet
+const UNTRANSLATED_STATES_12 = ['new', 'needs-translation', 'needs-l10n', 'needs-adaptation']
+
+// XLIFF 2.0 segment states that mean the target is not usable yet
+const UNTRANSLATED_STATES_20 = ['initial']
+
+// XLIFF 1.2 target states and XLIFF 2.0 segment states written for each segment status
+const STATUS_STATES: Record<XliffVersion, Record<SegmentStatus, string>> = {
+  '1.2': { new: 'new', translated: 'translated', reviewed: 'signed-off', approved: 'final' },
+  '2.0': { new: 'initial', translated: 'translated', reviewed: 'reviewed', approved: 'final' },
+}
+
+// States of both versions read back as a status past translated
+const REVIEWED_STATES: Record<string, SegmentStatus> = {
+  'signed-off': 'reviewed',
+  'reviewed': 'reviewed',
+  'final': 'approved',
+}
+
+// Inline elements whose content is native code, not text
+const NATIVE_CODE_ELEMENTS = ['bpt', 'ept', 'it', 'ph', 'sub']
+
+// Standalone codes, read back as placeholders like <2/>
+const PLACEHOLDER_ELEMENTS = ['x', 'ph']
+
+/**
+ * Convert tagged text to XLIFF content, mapping inline tags to <g> (1.2) or <pc> (2.0)
+ * and placeholders to <x/> (1.2) or <ph/> (2.0)
+ */
+function toInlineXml(text: string, version: XliffVersion): string {
+  const spans = parseInlineTags(text)
+  if (!spans) {
+    return escapeXml(text)
+  }
+
+  const element = version === '1.2' ? 'g' : 'pc'
+  const placeholder = version === '1.2' ? 'x' : 'ph'
+  return spans
+    .map(span => span.placeholder
+      ? `<${placeholder} id="${span.tag}"/>`
+      : span.tag === null
+        ? escapeXml(span.text)
+        : `<${element} id="${span.tag}">${escapeXml(span.text)}</${element}>`)
+    .join('')
+}
+
+/**
+ * Format segments as an XLIFF 1.2 or 2.0 document, one unit per segment
+ */
+export function formatXliff(segments: ParagraphSegment[], options: XliffOptions): string {
+  const { version, originalFile } = options
+  const sourceLanguage = escapeXml(options.sourceLanguage ?? 'en')
+  const targetLanguage = options.targetLanguage ? escapeXml(options.targetLanguage) : undefined
+  const lines: string[] = ['<?xml version="1.0" encoding="UTF-8"?>']
+
+  if (version === '1.2') {
+    lines.push(
+      '<xliff version="1.2" xmlns="urn:oasis:names:tc:xliff:document:1.2">',
+      `  <file original="${escapeXml(originalFile)}" source-language="${sourceLanguage}"${targetLanguage ? ` target-language="${targetLanguage}"` : ''} datatype="x-docx">`,
+      '    <body>',
+    )
+    for (const seg of segments) {
+      lines.push(
+        `      <trans-unit id="${escapeXml(seg.id)}" resname="${escapeXml(seg.source)}">`,
+        `        <source>${toInlineXml(seg.text, version)}</source>`,
+      )
+      if (seg.translation) {
+        lines.push(`        <target state="${STATUS_STATES[version][getSegmentStatus(seg)]}">${toInlineXml(seg.translation, version)}</target>`)
+      }
+      lines.push(`        <note from="translate-docx">${escapeXml(`${getSegmentKind(seg)} in ${seg.source}`)}</note>`)
+      if (seg.notes) {
+        lines.push(`        <note from="translator">${escapeXml(seg.notes)}</note>`)
+      }
+      lines.push('      </trans-unit>')
+    }
+    lines.push('    </body>', '  </file>', '</xliff>')
+  }
+  else {
+    lines.push(
+      `<xliff version="2.0" xmlns="urn:oasis:names:tc:xliff:document:2.0" srcLang="${sourceLanguage}"${targetLanguage ? ` trgLang="${targetLanguage}"` : ''}>`,
+      `  <file id="f1" original="${escapeXml(originalFile)}">`,
+    )
+    for (const seg of segments) {
+      lines.push(
+        `    <unit id="${escapeXml(seg.id)}" name="${escapeXml(seg.source)}">`,
+        '      <notes>',
+        `        <note category="source">${escapeXml(seg.source)}</note>`,
+        `        <note category="kind">${getSegmentKind(seg)}</note>`,
+      )
+      if (seg.notes) {
+        lines.push(`        <note category="translator">${escapeXml(seg.notes)}</note>`)
+      }
+      lines.push(
+        '      </notes>',
+        `      <segment state="${seg.translation ? STATUS_STATES[version][getSegmentStatus(seg)] : 'initial'}">`,
+        `        <source>${toInlineXml(seg.text, version)}</source>`,
+      )
+      if (seg.translation) {
+        lines.push(`        <target>${toInlineXml(seg.translation, version)}</target>`)
+      }
+      lines.push('      </segment>', '    </unit>')
+    }
+    lines.push('  </file>', '</xliff>')
+  }
+
+  return `${lines.join('\n')}\n`
+}
+
+/**
+ * Check whether text looks like an XLIFF document
+ */
+export function isXliff(content: string): boolean {
+  return /<xliff\b/.test(content.slice(0, 1000))
+}
+
+/**
+ * Parse the targets of an XLIFF 1.2 or 2.0 document
+ * Returns a map of segment ID to translated text; inline <g>/<pc> become inline tags again
+ * and <x>/<ph> placeholders
+ * Units whose target state means "not translated yet" are listed in `skipped`
+ * An XLIFF 2.0 segment without a state counts as translated if it has a target
+ * Units signed off, reviewed or final get their status in `statuses`, the others are translated
+ */
+export function parseXliff(content: string): {
+  translations: Map<string, string>
+  skipped: string[]
+  statuses: Map<string, SegmentStatus>
+} {
+  const translations = new Map<string, string>()
+  const skipped: string[] = []
+  const statuses = new Map<string, SegmentStatus>()
+
+  let unitId: string | null = null
+  let unitText = ''
+  let unitSkipped = false
+  let unitState: string | undefined
+  let segmentState: string | undefined
+  let inTarget = false
+  let nativeDepth = 0
+  // IDs of the open inline elements in the target, undefined for ones without a tag
+  const inlineStack: (string | undefined)[] = []
+
+  for (const token of tokenizeXml(content)) {
+    if (token.type === 'open') {
+      const attr = (name: string) => token.attributes.find(a => a.local === name && !a.ns)?.value
+
+      if (inTarget) {
+        if (nativeDepth === 0 && PLACEHOLDER_ELEMENTS.includes(token.local) && attr('id') !== undefined) {
+          // The native code of a 1.2 <ph> is dropped, the placeholder stands for it
+          unitText += `<${attr('id')}/>`
+          nativeDepth += token.selfClosing ? 0 : 1
+        }
+        else if (nativeDepth > 0 || NATIVE_CODE_ELEMENTS.includes(token.local)) {
+          nativeDepth += token.selfClosing ? 0 : 1
+        }
+        else if (!token.selfClosing) {
+          const id = token.local === 'g' || token.local === 'pc' ? attr('id') : undefined
+          inlineStack.push(id)
+          unitText += id !== undefined ? `<${id}>` : ''
+        }
+      }
+      else if (token.local === 'trans-unit' || token.local === 'unit') {
+        unitId = attr('id') ?? null
+        unitText = ''
+        unitSkipped = false
+        unitState = undefined
+      }
+      else if (token.local === 'segment') {
+        segmentState = attr('state')
+      }
+      else if (token.local === 'target' && unitId !== null && !token.selfClosing) {
+        const state = attr('state') ?? segmentState
+        const untranslated = attr('state') !== undefined
+          ? UNTRANSLATED_STATES_12.includes(state!)
+          : state !== undefined && UNTRANSLATED_STATES_20.includes(state)
+        unitSkipped ||= untranslated
+        unitState = state
+        inTarget = true
+      }
+    }
+    else if (token.type === 'close') {
+      if (inTarget) {
+        if (nativeDepth > 0) {
+          nativeDepth--
+        }
+        else if (inlineStack.length === 0) {
+          inTarget = false
+        }
+        else {
+          const id = inlineStack.pop()
+          unitText += id !== undefined ? `</${id}>` : ''
+        }
+      }
+      else if (token.local === 'segment') {
+        segmentState = undefined
+      }
+      else if ((token.local === 'trans-unit' || token.local === 'unit') && unitId !== null) {
+        if (unitSkipped) {
+          skipped.push(unitId)
+        }
+        else if (unitText.trim().length > 0) {
+          translations.set(unitId, unitText.trim())
+          statuses.set(unitId, REVIEWED_STATES[unitState ?? ''] ?? 'translated')
+        }
+        unitId = null
+      }
+    }
+    else if (inTarget && nativeDepth === 0) {
+      unitText += token.type === 'text'
+        ? unescapeXml(content.slice(token.start, token.end))
+        : token.type === 'cdata' ? content.slice(token.contentStart, token.contentEnd) : ''
+    }
+  }
+
+  return { translations, skipped, statuses }
+}
@@ -0,0 +1,78 @@
+import type { XmlElementToken } from './xml-tokenizer'
+import { describe, expect, it } from 'bun:test'
+import { applyXmlEdits, tokenizeXml } from './xml-tokenizer'
+
+const W_NAMESPACE = 'http://schemas.openxmlformats.org/wordprocessingml/2006/main'
+
+describe('tokenizeXml', () => {
+  const xml = `<?xml version="1.0"?><w:p xmlns:w="${W_NAMESPACE}"><!-- note --><w:r><w:t xml:space="preserve">Fish &amp; chips</w:t><w:br/></w:r><w:r><w:t><![CDATA[a < b]]></w:t></w:r></w:p>`
+  const tokens = [...tokenizeXml(xml)]
+
+  it('gives every token the offsets of its source text', () => {
+    expect(tokens.map(token => xml.slice(token.start, token.end))).toEqual([
+      '<?xml version="1.0"?>',
+      `<w:p xmlns:w="${W_NAMESPACE}">`,
+      '<!-- note -->',
+      '<w:r>',
+      '<w:t xml:space="preserve">',
+      'Fish &amp; chips',
+      '</w:t>',
+      '<w:br/>',
+      '</w:r>',
+      '<w:r>',
+      '<w:t>',
+      '<![CDATA[a < b]]>',
+      '</w:t>',
+      '</w:r>',
+      '</w:p>',
+    ])
+    expect(tokens.map(token => token.type)).toEqual([
+      'instruction',
+      'open',
+      'comment',
+      'open',
+      'open',
+      'text',
+      'close',
+      'open',
+      'close',
+      'open',
+      'open',
+      'cdata',
+      'close',
+      'close',
+      'close',
+    ])
+  })
+
+  it('keeps text escaped and gives the content of CDATA sections', () => {
+    const cdata = tokens.find(token => token.type === 'cdata')!
+    expect(xml.slice(cdata.contentStart, cdata.contentEnd)).toBe('a < b')
+  })
+
+  it('resolves namespaces of elements and attributes', () => {
+    const text = tokens[4] as XmlElementToken
+    expect(text).toMatchObject({ name: 'w:t', prefix: 'w', local: 't', ns: W_NAMESPACE, selfClosing: false })
+    const space = text.attributes[0]!
+    expect(space).toMatchObject({ local: 'space', ns: 'http://www.w3.org/XML/1998/namespace', value: 'preserve' })
+    expect(xml.slice(space.valueStart, space.valueEnd)).toBe('preserve')
+    expect((tokens[7] as XmlElementToken).selfClosing).toBe(true)
+  })
+
+  it('throws on malformed markup', () => {
+    expect(() => [...tokenizeXml('<a><b></a>')]).toThrow('Malformed XML')
+    expect(() => [...tokenizeXml('<a attr="x></a>')]).toThrow('Malformed XML')
+  })
+})
+
+describe('applyXmlEdits', () => {
+  it('splices edits into the XML and leaves the rest as it is', () => {
+    const xml = '<a>one</a><b>two</b>'
+    const edits = [{ start: 13, end: 16, text: 'deux' }, { start: 3, end: 3, text: '!' }, { start: 3, end: 6, text: 'un' }]
+    expect(applyXmlEdits(xml, edits)).toBe('<a>!un</a><b>deux</b>')
+  })
+
+  it('refuses overlapping edits', () => {
+    expect(() => applyXmlEdits('<a>one</a>', [{ start: 0, end: 5, text: '' }, { start: 3, end: 6, text: '' }])).toThrow('Overlapping')
+  })
+})
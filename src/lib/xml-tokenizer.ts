@@ -0,0 +1,301 @@
+/**
+ * A small streaming XML tokenizer
+ * Tokens carry the offsets of their source text, so callers can edit the XML
+ * by splicing ranges and leave everything else byte-for-byte unchanged
+ */
+
+const XML_NAMESPACE = 'http://www.w3.org/XML/1998/namespace'
+const XMLNS_NAMESPACE = 'http://www.w3.org/2000/xmlns/'
+
+/**
+ * An attribute of a start tag
+ */
+export interface XmlAttribute {
+  /** Qualified name, e.g. "w:val" */
+  name: string
+  /** Local name, e.g. "val" */
+  local: string
+  /** Namespace URI, undefined for unprefixed attributes */
+  ns?: string
+  /** Raw value, still escaped */
+  value: string
+  /** Offset of the first character of the value (inside the quotes) */
+  valueStart: number
+  /** Offset just after the last character of the value */
+  valueEnd: number
+}
+
+/**
+ * A start tag, self-closing tag or end tag
+ */
+export interface XmlElementToken {
+  type: 'open' | 'close'
+  /** Qualified name, e.g. "w:p" */
+  name: string
+  /** Prefix, or an empty string */
+  prefix: string
+  /** Local name, e.g. "p" */
+  local: string
+  /** Namespace URI the prefix resolves to */
+  ns?: string
+  /** Attributes (always empty for end tags) */
+  attributes: XmlAttribute[]
+  /** Whether this is a self-closing tag like <w:t/> */
+  selfClosing: boolean
+  start: number
+  end: number
+}
+
+/**
+ * Character data; `start`/`end` cover the raw (escaped) text
+ */
+export interface XmlTextToken {
+  type: 'text'
+  start: number
+  end: number
+}
+
+/**
+ * A CDATA section; `contentStart`/`contentEnd` cover the unescaped content
+ */
+export interface XmlCDataToken {
+  type: 'cdata'
+  start: number
+  end: number
+  contentStart: number
+  contentEnd: number
+}
+
+/**
+ * Comments, processing instructions and doctypes
+ */
+export interface XmlOtherToken {
+  type: 'comment' | 'instruction' | 'doctype'
+  start: number
+  end: number
+}
+
+export type XmlToken = XmlElementToken | XmlTextToken | XmlCDataToken | XmlOtherToken
+
+/**
+ * A replacement of the range [start, end) with new text
+ */
+export interface XmlEdit {
+  start: number
+  end: number
+  text: string
+}
+
+function isWhitespace(char: string | undefined): boolean {
+  return char === ' ' || char === '\n' || char === '\r' || char === '\t'
+}
+
+function splitName(name: string): { prefix: string, local: string } {
+  const colon = name.indexOf(':')
+  return colon === -1
+    ? { prefix: '', local: name }
+    : { prefix: name.slice(0, colon), local: name.slice(colon + 1) }
+}
+
+/**
+ * Tokenize an XML string
+ * Element and attribute names are resolved against the xmlns declarations in scope
+ * Throws on malformed markup
+ */
+export function* tokenizeXml(xml: string): Generator<XmlToken> {
+  const scopes: Map<string, string>[] = [new Map([['xml', XML_NAMESPACE]])]
+  const openNames: string[] = []
+  let pos = 0
+
+  const fail = (message: string): never => {
+    throw new Error(`Malformed XML at offset ${pos}: ${message}`)
+  }
+
+  const find = (search: string, from: number): number => {
+    const index = xml.indexOf(search, from)
+    if (index === -1) {
+      fail(`expected "${search}"`)
+    }
+    return index
+  }
+
+  const readName = (): string => {
+    const start = pos
+    while (pos < xml.length && !isWhitespace(xml[pos]) && !'/>='.includes(xml[pos]!)) {
+      pos++
+    }
+    if (pos === start) {
+      fail('expected a name')
+    }
+    return xml.slice(start, pos)
+  }
+
+  const skipWhitespace = () => {
+    while (isWhitespace(xml[pos])) {
+      pos++
+    }
+  }
+
+  while (pos < xml.length) {
+    const start = pos
+
+    if (xml[pos] !== '<') {
+      const next = xml.indexOf('<', pos)
+      pos = next === -1 ? xml.length : next
+      yield { type: 'text', start, end: pos }
+      continue
+    }
+
+    if (xml.startsWith('<!--', pos)) {
+      pos = find('-->', pos + 4) + 3
+      yield { type: 'comment', start, end: pos }
+    }
+    else if (xml.startsWith('<![CDATA[', pos)) {
+      const contentEnd = find(']]>', pos + 9)
+      pos = contentEnd + 3
+      yield { type: 'cdata', start, end: pos, contentStart: start + 9, contentEnd }
+    }
+    else if (xml.startsWith('<!', pos)) {
+      pos = find('>', pos + 2) + 1
+      yield { type: 'doctype', start, end: pos }
+    }
+    else if (xml.startsWith('<?', pos)) {
+      pos = find('?>', pos + 2) + 2
+      yield { type: 'instruction', start, end: pos }
+    }
+    else if (xml.startsWith('</', pos)) {
+      pos += 2
+      const name = readName()
+      skipWhitespace()
+      if (xml[pos] !== '>') {
+        fail('expected ">"')
+      }
+      pos++
+
+      if (openNames.pop() !== name) {
+        fail(`unexpected </${name}>`)
+      }
+      const scope = scopes.pop()!
+      const { prefix, local } = splitName(name)
+      yield {
+        type: 'close',
+        name,
+        prefix,
+        local,
+        ns: scope.get(prefix),
+        attributes: [],
+        selfClosing: false,
+        start,
+        end: pos,
+      }
+    }
+    else {
+      pos++
+      const name = readName()
+      const attributes: (XmlAttribute & { prefix: string })[] = []
+      let selfClosing = false
+
+      while (true) {
+        skipWhitespace()
+        if (xml[pos] === '>') {
+          pos++
+          break
+        }
+        if (xml.startsWith('/>', pos)) {
+          pos += 2
+          selfClosing = true
+          break
+        }
+
+        const attrName = readName()
+        skipWhitespace()
+        if (xml[pos] !== '=') {
+          fail('expected "="')
+        }
+        pos++
+        skipWhitespace()
+        const quote = xml[pos]
+        if (quote !== '"' && quote !== '\'') {
+          fail('expected a quoted attribute value')
+        }
+        const valueStart = pos + 1
+        const valueEnd = find(quote!, valueStart)
+        pos = valueEnd + 1
+
+        const { prefix, local } = splitName(attrName)
+        attributes.push({
+          name: attrName,
+          prefix,
+          local,
+          value: xml.slice(valueStart, valueEnd),
+          valueStart,
+          valueEnd,
+        })
+      }
+
+      // Open a new namespace scope if this element declares any prefixes
+      let scope = scopes.at(-1)!
+      for (const attr of attributes) {
+        if (attr.name === 'xmlns' || attr.prefix === 'xmlns') {
+          if (scope === scopes.at(-1)) {
+            scope = new Map(scope)
+          }
+          scope.set(attr.prefix === 'xmlns' ? attr.local : '', attr.value)
+        }
+      }
+
+      const resolved: XmlAttribute[] = attributes.map(({ prefix, ...attr }) => ({
+        ...attr,
+        ns: attr.name === 'xmlns' || prefix === 'xmlns'
+          ? XMLNS_NAMESPACE
+          : prefix ? scope.get(prefix) : undefined,
+      }))
+
+      const { prefix, local } = splitName(name)
+      yield {
+        type: 'open',
+        name,
+        prefix,
+        local,
+        ns: scope.get(prefix),
+        attributes: resolved,
+        selfClosing,
+        start,
+        end: pos,
+      }
+
+      if (!selfClosing) {
+        openNames.push(name)
+        scopes.push(scope)
+      }
+    }
+  }
+
+  if (openNames.length > 0) {
+    fail(`unclosed <${openNames.at(-1)}>`)
+  }
+}
+
+/**
+ * Apply non-overlapping edits to an XML string
+ * Edits at the same offset are applied in the order given
+ */
+export function applyXmlEdits(xml: string, edits: XmlEdit[]): string {
+  const sorted = edits
+    .map((edit, index) => ({ edit, index }))
+    .sort((a, b) => a.edit.start - b.edit.start || a.index - b.index)
+    .map(({ edit }) => edit)
+
+  const parts: string[] = []
+  let pos = 0
+  for (const edit of sorted) {
+    if (edit.start < pos) {
+      throw new Error(`Overlapping XML edits at offset ${edit.start}`)
+    }
+    parts.push(xml.slice(pos, edit.start), edit.text)
+    pos = edit.end
+  }
+  parts.push(xml.slice(pos))
+
+  return parts.join('')
+}
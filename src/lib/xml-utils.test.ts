@@ -0,0 +1,121 @@
+import { describe, expect, it } from 'bun:test'
+import { extractParagraphSegments, replaceParagraphsById, unescapeXml } from './xml-utils'
+
+const W = 'xmlns:w="http://schemas.openxmlformats.org/wordprocessingml/2006/main"'
+
+function documentXml(...paragraphs: string[]): string {
+  return `<w:document ${W}><w:body>${paragraphs.join('')}</w:body></w:document>`
+}
+
+function paragraph(...runs: string[]): string {
+  return `<w:p>${runs.join('')}</w:p>`
+}
+
+function run(text: string, bold = false): string {
+  return `<w:r>${bold ? '<w:rPr><w:b/></w:rPr>' : ''}<w:t xml:space="preserve">${text}</w:t></w:r>`
+}
+
+describe('replaceParagraphsById', () => {
+  const xml = documentXml(
+    paragraph(run('First paragraph')),
+    paragraph(),
+    paragraph(run('Second '), run('bold', true), run(' paragraph')),
+  )
+  const { segments } = extractParagraphSegments(xml, 'word/document.xml')
+
+  it('extracts non-empty paragraphs in order, with inline tags', () => {
+    expect(segments.map(segment => [segment.id, segment.text])).toEqual([
+      ['p0', 'First paragraph'],
+      ['p1', 'Second <1>bold</1> paragraph'],
+    ])
+  })
+
+  it('replaces paragraphs by position, skipping empty ones', () => {
+    const translations = new Map([['p0', 'Premier paragraphe'], ['p1', 'Deuxième paragraphe <1>gras</1>']])
+    const result = replaceParagraphsById(xml, segments, translations)
+
+    expect(result.mismatched).toEqual([])
+    const { segments: translated } = extractParagraphSegments(result.xml, 'word/document.xml')
+    expect(translated.map(segment => segment.text)).toEqual(['Premier paragraphe', 'Deuxième paragraphe <1>gras</1>'])
+    expect(result.xml).toContain('<w:b/>')
+  })
+
+  it('keeps paragraphs without a translation', () => {
+    const result = replaceParagraphsById(xml, segments, new Map([['p1', 'Deuxième <1>gras</1>']]))
+    const { segments: translated } = extractParagraphSegments(result.xml, 'word/document.xml')
+    expect(translated.map(segment => segment.text)).toEqual(['First paragraph', 'Deuxième <1>gras</1>'])
+  })
+
+  it('leaves paragraphs whose text changed since the extraction untouched', () => {
+    const edited = xml.replace('First paragraph', 'First paragraph, edited')
+    const result = replaceParagraphsById(edited, segments, new Map([['p0', 'Premier'], ['p1', 'Deuxième <1>gras</1>']]))
+
+    expect(result.mismatched).toEqual(['p0'])
+    expect(result.xml).toContain('First paragraph, edited')
+    expect(result.xml).not.toContain('Premier')
+  })
+})
+
+describe('replaceParagraphsById with tracked changes', () => {
+  const revisions = () => ({ author: 'Translator', date: '2026-01-15T10:00:00Z', nextId: 100 })
+
+  it('deletes the source runs and inserts the translation', () => {
+    const xml = documentXml(paragraph(run('Hello '), run('world', true)))
+    const { segments } = extractParagraphSegments(xml, 'word/document.xml')
+    const result = replaceParagraphsById(xml, segments, new Map([['p0', 'Bonjour <1>monde</1>']]), { revisions: revisions() })
+
+    expect(result.xml).toContain('<w:del w:id="100" w:author="Translator" w:date="2026-01-15T10:00:00Z"><w:r><w:delText xml:space="preserve">Hello </w:delText></w:r></w:del>')
+    expect(result.xml).toContain('<w:ins w:id="102"')
+    expect(result.xml).toContain('<w:t xml:space="preserve">Bonjour </w:t>')
+  })
+
+  it('only reopens a run when content follows its deleted text', () => {
+    const xml = documentXml(paragraph('<w:r><w:rPr><w:b/></w:rPr><w:tab/><w:t>Total</w:t></w:r>'))
+    const { segments } = extractParagraphSegments(xml, 'word/document.xml')
+    const result = replaceParagraphsById(xml, segments, new Map([['p0', '<1/>Somme']]), { revisions: revisions() })
+
+    expect(result.xml).toContain('<w:r><w:rPr><w:b/></w:rPr><w:tab/></w:r><w:del')
+    expect(result.xml).not.toContain('<w:r><w:rPr><w:b/></w:rPr></w:r>')
+  })
+})
+
+describe('unescapeXml', () => {
+  it('decodes named and numeric entities', () => {
+    expect(unescapeXml('Fish &amp; chips &lt;b&gt; &#233;t&#xE9; &#x1F600;')).toBe('Fish & chips <b> été 😀')
+  })
+
+  it('keeps unknown entities and code points out of range as they are', () => {
+    expect(unescapeXml('&nbsp; &#x110000; &#99999999999;')).toBe('&nbsp; &#x110000; &#99999999999;')
+  })
+})
+
+describe('placeholders', () => {
+  const field = (code: string, result: string) => '<w:r><w:fldChar w:fldCharType="begin"/></w:r>'
+    + `<w:r><w:instrText xml:space="preserve"> ${code} </w:instrText></w:r><w:r><w:fldChar w:fldCharType="separate"/></w:r>`
+    + `${run(result)}<w:r><w:fldChar w:fldCharType="end"/></w:r>`
+  const xml = documentXml(
+    paragraph('<w:r><w:t>Name:</w:t><w:tab/><w:t>value</w:t></w:r>'),
+    paragraph(run('Page '), field('PAGE', '3'), run(' of '), field('NUMPAGES', '9')),
+  )
+  const { segments } = extractParagraphSegments(xml, 'word/document.xml')
+
+  it('shows tabs and fields as numbered placeholders', () => {
+    expect(segments.map(segment => segment.text)).toEqual(['Name:<1/>value', 'Page <1/> of <2/>'])
+  })
+
+  it('puts placeholders back where the translation has them', () => {
+    const translations = new Map([['p0', 'Nom :<1/>valeur'], ['p1', '<2/> pages, page <1/>']])
+    const result = replaceParagraphsById(xml, segments, translations)
+    const { segments: translated } = extractParagraphSegments(result.xml, 'word/document.xml')
+
+    expect(translated.map(segment => segment.text)).toEqual(['Nom :<1/>valeur', '<1/> pages, page <2/>'])
+    expect(result.xml.indexOf('NUMPAGES')).toBeLessThan(result.xml.indexOf(' PAGE '))
+    expect(result.xml).toContain('<w:tab/>')
+  })
+
+  it('keeps the placeholders a translation leaves out at the end of the paragraph', () => {
+    const result = replaceParagraphsById(xml, segments, new Map([['p1', 'Page <1/> sur neuf']]))
+    const { segments: translated } = extractParagraphSegments(result.xml, 'word/document.xml')
+    expect(translated[1]!.text).toBe('Page <1/> sur neuf<2/>')
+  })
+})
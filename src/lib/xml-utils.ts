@@ -1,53 +1,505 @@
+import type { SourceSpan, TextPart } from './inline-tags'
+import type { SegmentationOptions } from './sentences'
+import type { TargetFormatting } from './target-language'
 import type { ParagraphSegment } from './types'
+import type { XmlEdit } from './xml-tokenizer'
+import { parseInlineTags, stripInlineTags, tagTextParts } from './inline-tags'
+import { getPrefix } from './properties'
+import { segmentSentences } from './sentences'
+import { formatParagraphProperties, formatRunProperties } from './target-language'
+import { applyXmlEdits, tokenizeXml } from './xml-tokenizer'
 
-// Regex to find paragraph elements
-const PARAGRAPH_REGEX = /<w:p\b[^>]*>(.*?)<\/w:p>/gs
+// WordprocessingML main namespace
+export const W_NAMESPACE = 'http://schemas.openxmlformats.org/wordprocessingml/2006/main'
 
-// Regex to find all <w:t> elements within content
-const TEXT_ELEMENT_REGEX = /<w:t(\s[^>]*)?>([^<]*)<\/w:t>/g
+// DrawingML main namespace (text in charts, SmartArt and shapes)
+export const A_NAMESPACE = 'http://schemas.openxmlformats.org/drawingml/2006/main'
+
+// DrawingML chart namespace
+export const C_NAMESPACE = 'http://schemas.openxmlformats.org/drawingml/2006/chart'
+
+// Markup compatibility namespace (mc:AlternateContent, mc:Fallback)
+export const MC_NAMESPACE = 'http://schemas.openxmlformats.org/markup-compatibility/2006'
+
+// Namespaces whose <p>/<r>/<t> elements hold translatable paragraphs
+const PARAGRAPH_NAMESPACES = [W_NAMESPACE, A_NAMESPACE]
+
+// Chart elements whose <c:pt><c:v> children are cached strings
+const CHART_STRING_CACHES = ['strCache', 'strLit']
+
+// Run properties that do not change how text looks
+const IGNORED_PROPERTIES_REGEX = /<(?:[\w-]+:)?(?:lang|noProof)\b[^>]*\/>/g
+
+// DrawingML run property attributes that do not change how text looks
+const IGNORED_ATTRIBUTES_REGEX = /\s(?:lang|altLang|dirty|err|noProof|smtClean)="[^"]*"/g
+
+// Run children shown as placeholders: tabs, breaks, symbols and note references
+const RUN_INLINE_ELEMENTS = ['tab', 'ptab', 'br', 'cr', 'sym', 'footnoteReference', 'endnoteReference']
+
+// Paragraph children shown as placeholders, by namespace: simple fields and DrawingML fields and line breaks
+const PARAGRAPH_INLINE_ELEMENTS: Record<string, string[]> = {
+  [W_NAMESPACE]: ['fldSimple'],
+  [A_NAMESPACE]: ['fld', 'br'],
+}
+
+/**
+ * A <w:t> element of a run
+ */
+interface TextElement {
+  /** Qualified element name, e.g. "w:t" */
+  name: string
+  start: number
+  end: number
+  /** Offsets of the content, equal to `end` for a self-closing <w:t/> */
+  contentStart: number
+  contentEnd: number
+  selfClosing: boolean
+  /** Decoded text content */
+  text: string
+}
+
+/**
+ * A run of a paragraph that contains text or placeholder elements
+ */
+interface TextRun {
+  /** Qualified element name, e.g. "w:r" */
+  name: string
+  /** Namespace of the run, WordprocessingML or DrawingML */
+  ns: string
+  start: number
+  end: number
+  /** Offset of the end tag */
+  contentEnd: number
+  /** The <w:rPr> element, or an empty string */
+  properties: string
+  /** Offsets of the <w:rPr> element, both at the end of the start tag if there is none */
+  propertiesStart: number
+  propertiesEnd: number
+  /** The <w:t> elements of the run */
+  texts: TextElement[]
+  /** Whether the run has children other than <w:rPr>, <w:t> and placeholder elements (drawings, comments...) */
+  hasOtherContent: boolean
+  /** The hyperlink holding the run */
+  hyperlink?: Hyperlink
+  /** Whether the run is part of a field; its text is the field's result, which Word computes */
+  inField: boolean
+}
+
+/**
+ * A <w:hyperlink> of a paragraph, its text gets tags of its own
+ */
+interface Hyperlink {
+  start: number
+  end: number
+  /** The start tag, to open a copy of the hyperlink */
+  startTag: string
+  /** Qualified element name */
+  name: string
+  /** Whether it holds anything besides runs of text and placeholders (bookmarks...), then it stays in place */
+  hasOtherContent: boolean
+}
+
+/**
+ * A piece of paragraph content in document order: a text element of a run, or an element
+ * shown as a placeholder like `<1/>`
+ */
+interface Piece {
+  text?: TextElement
+  /** The placeholder element, or the runs of a complex field */
+  inline?: {
+    start: number
+    end: number
+    /** The element as it is written when it is moved, wrapped in a copy of its run */
+    xml: string
+  }
+  /** The run holding the text or element, undefined for placeholders outside runs */
+  run?: TextRun
+  hyperlink?: Hyperlink
+}
+
+/**
+ * A paragraph with its own text runs (runs of nested paragraphs are not included)
+ * A cached chart string (<c:v>) is treated as a paragraph with a single run
+ */
+interface Paragraph {
+  /** Qualified element name, e.g. "w:p" */
+  name: string
+  ns: string
+  start: number
+  end: number
+  /** The <w:pPr> element, or an empty string */
+  properties: string
+  /** Offsets of the <w:pPr> element, both at the end of the start tag if there is none */
+  propertiesStart: number
+  propertiesEnd: number
+  /** Runs with text, fields excluded */
+  runs: TextRun[]
+  /** The text and placeholders of the paragraph, in order */
+  pieces: Piece[]
+  /**
+   * Whether the paragraph repeats text found elsewhere in the file: mc:Fallback
+   * content or a repeated chart cache value. It gets the same translation.
+   */
+  isCopy: boolean
+}
+
+/**
+ * Find all paragraphs of an XML string, in document order
+ * Nested paragraphs (text boxes, shapes) are listed separately after their parent
+ * Fields become one placeholder each: a complex field (<w:fldChar> begin to end) covers all its runs,
+ * a field that spans paragraphs gets a placeholder in each
+ */
+function scanParagraphs(xml: string): Paragraph[] {
+  interface Frame {
+    local: string
+    ns?: string
+    paragraph?: Paragraph
+    run?: TextRun
+    text?: TextElement
+    hyperlink?: Hyperlink
+    /** A placeholder element whose end is set when it closes */
+    inline?: Piece['inline']
+    /** The placeholder is a paragraph child that holds runs */
+    isInlineRange?: boolean
+    propertiesStart?: number
+  }
+
+  const paragraphs: Paragraph[] = []
+  const stack: Frame[] = []
+  const cachedValues = new Set<string>()
+  let fallbackDepth = 0
+  // Open complex fields, and the placeholder of the outermost one in the current paragraph
+  let fieldDepth = 0
+  let field: Piece | null = null
+  // Depth inside simple fields and other placeholder elements that hold runs
+  let inlineRangeDepth = 0
+
+  const currentParagraph = () => {
+    for (let i = stack.length - 1; i >= 0; i--) {
+      const paragraph = stack[i]!.paragraph
+      if (paragraph) {
+        return paragraph
+      }
+    }
+    return undefined
+  }
+
+  const currentHyperlink = () => {
+    for (let i = stack.length - 1; i >= 0 && !stack[i]!.paragraph; i--) {
+      const hyperlink = stack[i]!.hyperlink
+      if (hyperlink) {
+        return hyperlink
+      }
+    }
+    return undefined
+  }
+
+  const setProperties = (owner: TextRun | Paragraph, start: number, end: number) => {
+    owner.properties = xml.slice(start, end)
+    owner.propertiesStart = start
+    owner.propertiesEnd = end
+  }
+
+  const isCacheValue = (local: string, ns?: string) => {
+    const parent = stack.at(-1)
+    const grandparent = stack.at(-2)
+    return ns === C_NAMESPACE && local === 'v'
+      && parent?.ns === C_NAMESPACE && parent.local === 'pt'
+      && grandparent?.ns === C_NAMESPACE && CHART_STRING_CACHES.includes(grandparent.local)
+  }
+
+  for (const token of tokenizeXml(xml)) {
+    const top = stack.at(-1)
+
+    if (token.type === 'text' || token.type === 'cdata') {
+      if (top?.text) {
+        top.text.text += token.type === 'text'
+          ? unescapeXml(xml.slice(token.start, token.end))
+          : xml.slice(token.contentStart, token.contentEnd)
+      }
+      continue
+    }
+
+    if (token.type === 'open') {
+      const frame: Frame = { local: token.local, ns: token.ns }
+      const inRun = top?.run && token.ns === top.run.ns
+      const isRunInline = inRun && token.ns === W_NAMESPACE && RUN_INLINE_ELEMENTS.includes(token.local)
+
+      if (top?.run && !(inRun && (token.local === 'rPr' || token.local === 't' || isRunInline))) {
+        top.run.hasOtherContent = true
+      }
+      if (top?.hyperlink && !(token.ns === W_NAMESPACE && token.local === 'r')) {
+        top.hyperlink.hasOtherContent = true
+      }
+
+      if (token.local === 'p' && token.ns && PARAGRAPH_NAMESPACES.includes(token.ns)) {
+        const paragraph: Paragraph = {
+          name: token.name,
+          ns: token.ns,
+          start: token.start,
+          end: token.end,
+          properties: '',
+          propertiesStart: token.end,
+          propertiesEnd: token.end,
+          runs: [],
+          pieces: [],
+          isCopy: fallbackDepth > 0,
+        }
+        paragraphs.push(paragraph)
+        frame.paragraph = paragraph
+      }
+      else if (token.local === 'r' && token.ns && token.ns === currentParagraph()?.ns) {
+        frame.run = {
+          name: token.name,
+          ns: token.ns,
+          start: token.start,
+          end: token.end,
+          contentEnd: token.end,
+          properties: '',
+          propertiesStart: token.end,
+          propertiesEnd: token.end,
+          texts: [],
+          hasOtherContent: false,
+          hyperlink: currentHyperlink(),
+          inField: fieldDepth > 0 || inlineRangeDepth > 0,
+        }
+      }
+      else if (token.ns === W_NAMESPACE && token.local === 'hyperlink' && !token.selfClosing
+        && currentParagraph()?.ns === W_NAMESPACE) {
+        frame.hyperlink = {
+          start: token.start,
+          end: token.end,
+          startTag: xml.slice(token.start, token.end),
+          name: token.name,
+          hasOtherContent: false,
+        }
+      }
+      else if (inRun && token.ns === W_NAMESPACE && token.local === 'fldChar' && inlineRangeDepth === 0) {
+        const run = top!.run!
+        const type = token.attributes.find(attribute => attribute.local === 'fldCharType')?.value
+        if (type === 'begin') {
+          fieldDepth++
+        }
+        else if (type === 'end') {
+          fieldDepth = Math.max(0, fieldDepth - 1)
+        }
+        // The whole run goes into the field's placeholder, also text before the field character
+        if (!run.inField) {
+          run.inField = true
+          const paragraph = currentParagraph()!
+          paragraph.pieces = paragraph.pieces.filter(piece => piece.run !== run)
+        }
+      }
+      else if (isRunInline && !top!.run!.inField) {
+        const run = top!.run!
+        frame.inline = { start: token.start, end: token.end, xml: '' }
+        currentParagraph()!.pieces.push({ inline: frame.inline, run, hyperlink: run.hyperlink })
+      }
+      else if (token.ns && token.ns === currentParagraph()?.ns && PARAGRAPH_INLINE_ELEMENTS[token.ns]?.includes(token.local)
+        && !top?.run && fieldDepth === 0 && inlineRangeDepth === 0) {
+        frame.inline = { start: token.start, end: token.end, xml: '' }
+        frame.isInlineRange = !token.selfClosing
+        inlineRangeDepth += frame.isInlineRange ? 1 : 0
+        currentParagraph()!.pieces.push({ inline: frame.inline, hyperlink: currentHyperlink() })
+      }
+      else if (inRun && token.local === 'rPr') {
+        frame.propertiesStart = token.start
+        if (token.selfClosing) {
+          setProperties(top!.run!, token.start, token.end)
+        }
+      }
+      else if (top?.paragraph && token.ns === top.paragraph.ns && token.local === 'pPr') {
+        frame.propertiesStart = token.start
+        if (token.selfClosing) {
+          setProperties(top.paragraph, token.start, token.end)
+        }
+      }
+      else if ((inRun && token.local === 't' && !top!.run!.inField) || isCacheValue(token.local, token.ns)) {
+        const text: TextElement = {
+          name: token.name,
+          start: token.start,
+          end: token.end,
+          contentStart: token.end,
+          contentEnd: token.end,
+          selfClosing: token.selfClosing,
+          text: '',
+        }
+        frame.text = text
+
+        if (inRun) {
+          const run = top!.run!
+          run.texts.push(text)
+          currentParagraph()!.pieces.push({ text, run, hyperlink: run.hyperlink })
+        }
+        else {
+          // A cached chart string becomes a paragraph of its own
+          const run: TextRun = { name: '', ns: C_NAMESPACE, start: token.start, end: token.end, contentEnd: token.end, properties: '', propertiesStart: token.start, propertiesEnd: token.start, texts: [text], hasOtherContent: false, inField: false }
+          paragraphs.push({
+            name: token.name,
+            ns: C_NAMESPACE,
+            start: token.start,
+            end: token.end,
+            properties: '',
+            propertiesStart: token.start,
+            propertiesEnd: token.start,
+            runs: [run],
+            pieces: [{ text, run }],
+            isCopy: false,
+          })
+        }
+      }
+      else if (token.ns === MC_NAMESPACE && token.local === 'Fallback') {
+        fallbackDepth++
+      }
+
+      if (!token.selfClosing) {
+        stack.push(frame)
+      }
+      continue
+    }
+
+    if (token.type === 'close' && top) {
+      stack.pop()
+      const parent = stack.at(-1)
+
+      if (top.paragraph) {
+        top.paragraph.end = token.end
+        // A field that goes on in the next paragraph gets a placeholder there too
+        field = null
+      }
+      else if (top.run) {
+        const run = top.run
+        run.end = token.end
+        run.contentEnd = token.start
+        if (run.inField && inlineRangeDepth === 0) {
+          if (!field) {
+            field = { inline: { start: run.start, end: run.end, xml: '' }, hyperlink: run.hyperlink }
+            currentParagraph()?.pieces.push(field)
+          }
+          field.inline!.end = token.end
+          if (fieldDepth === 0) {
+            field = null
+          }
+        }
+        else if (!run.inField && run.texts.length > 0) {
+          currentParagraph()?.runs.push(run)
+        }
+        if (run.hasOtherContent && run.hyperlink) {
+          run.hyperlink.hasOtherContent = true
+        }
+      }
+      else if (top.hyperlink) {
+        top.hyperlink.end = token.end
+      }
+      else if (top.inline) {
+        top.inline.end = token.end
+        inlineRangeDepth -= top.isInlineRange ? 1 : 0
+      }
+      else if (top.propertiesStart !== undefined && (parent?.run ?? parent?.paragraph)) {
+        setProperties((parent.run ?? parent.paragraph)!, top.propertiesStart, token.end)
+      }
+      else if (top.text) {
+        top.text.contentEnd = token.start
+        top.text.end = token.end
+      }
+      else if (top.ns === MC_NAMESPACE && top.local === 'Fallback') {
+        fallbackDepth--
+      }
+    }
+  }
+
+  // Copies of the placeholder elements, in a run of their own if they were in one
+  for (const paragraph of paragraphs) {
+    for (const { inline, run } of paragraph.pieces) {
+      if (inline) {
+        const element = xml.slice(inline.start, inline.end)
+        inline.xml = run ? `<${run.name}>${run.properties}${element}</${run.name}>` : element
+      }
+    }
+  }
+
+  // Repeated cache values (e.g. the same category in several series) share one translation
+  for (const paragraph of paragraphs) {
+    if (paragraph.ns === C_NAMESPACE) {
+      const run = paragraph.runs[0]!
+      const text = run.texts[0]!.text
+      paragraph.end = run.end = run.texts[0]!.end
+      paragraph.isCopy = cachedValues.has(text)
+      cachedValues.add(text)
+    }
+  }
+
+  return paragraphs
+}
+
+/**
+ * Reduce run properties to what affects how the text looks
+ */
+function normalizeProperties(properties: string): string {
+  return properties
+    .replace(IGNORED_PROPERTIES_REGEX, '')
+    .replace(IGNORED_ATTRIBUTES_REGEX, '')
+    .replace(/^<[\w:-]+\s*\/>$|^<[\w:-]+\s*>|<\/[\w:-]+>$/g, '')
+}
+
+/**
+ * Turn paragraph pieces into formatted text parts
+ * Link text is keyed by its link as well, so every link gets a tag of its own
+ */
+function getTextParts(pieces: Piece[]): TextPart[] {
+  return pieces.map(piece => piece.text
+    ? {
+        key: `${piece.hyperlink?.start ?? ''}:${normalizeProperties(piece.run!.properties)}`,
+        text: piece.text.text,
+        alwaysTagged: piece.hyperlink !== undefined,
+      }
+    : { key: '', text: '', placeholder: true })
+}
+
+/**
+ * Get the text of a paragraph, with inline tags around differently formatted runs and links
+ * and placeholders for tabs, breaks, fields...
+ */
+function getTaggedText(paragraph: Paragraph): { text: string, spans: SourceSpan[] } {
+  return tagTextParts(getTextParts(paragraph.pieces))
+}
 
 /**
  * Extract all paragraph segments from an XML string
- * Each paragraph becomes one translation unit with all its text combined
+ * Each paragraph becomes one translation unit with all its text combined,
+ * or with sentence segmentation one unit per sentence
  */
 export function extractParagraphSegments(
   xml: string,
   source: string,
   startId: number = 0,
+  options: SegmentationOptions = {},
 ): { segments: ParagraphSegment[], nextId: number } {
   const segments: ParagraphSegment[] = []
   let id = startId
-  let match: RegExpExecArray | null
-
-  // Reset regex state
-  PARAGRAPH_REGEX.lastIndex = 0
-
-  while ((match = PARAGRAPH_REGEX.exec(xml)) !== null) {
-    const paragraphContent = match[1] || ''
 
-    // Extract all text from this paragraph
-    const texts: string[] = []
-    let textMatch: RegExpExecArray | null
-    TEXT_ELEMENT_REGEX.lastIndex = 0
-
-    while ((textMatch = TEXT_ELEMENT_REGEX.exec(paragraphContent)) !== null) {
-      texts.push(textMatch[2] || '')
+  for (const paragraph of scanParagraphs(xml)) {
+    // Copies are translated along with the paragraph they repeat
+    if (paragraph.isCopy) {
+      continue
     }
 
-    // Combine all text from the paragraph
-    const combinedText = texts.join('')
+    const { text } = getTaggedText(paragraph)
 
     // Skip empty paragraphs
-    if (combinedText.trim().length === 0) {
+    if (stripInlineTags(text).trim().length === 0) {
       continue
     }
 
-    segments.push({
+    const segment: ParagraphSegment = {
       id: `p${id}`,
-      text: combinedText,
+      text,
       source,
-      runCount: texts.length,
-    })
+      runCount: paragraph.runs.reduce((count, run) => count + run.texts.length, 0),
+    }
+    segments.push(...options.segmentation === 'sentence'
+      ? segmentSentences(segment, options.sourceLanguage)
+      : [segment])
 
     id++
   }
@@ -55,57 +507,357 @@ export function extractParagraphSegments(
   return { segments, nextId: id }
 }
 
+/**
+ * WordprocessingML text needs xml:space to keep leading and trailing spaces,
+ * DrawingML text keeps them anyway and does not allow the attribute
+ */
+function preserveSpace(ns: string): string {
+  return ns === W_NAMESPACE ? ' xml:space="preserve"' : ''
+}
+
+/**
+ * Put the whole translation into the first <w:t> outside a link and clear the rest
+ * Placeholder elements stay where they are
+ */
+function replaceFlat(paragraph: Paragraph, translation: string, formatting?: TargetFormatting): XmlEdit[] {
+  const textPieces = paragraph.pieces.filter(piece => piece.text)
+  // A link should not end up holding the whole paragraph
+  const first = Math.max(0, textPieces.findIndex(piece => !piece.hyperlink))
+  const texts = [textPieces[first]!, ...textPieces.filter((_, index) => index !== first)].map(piece => piece.text!)
+  const space = preserveSpace(paragraph.ns)
+
+  const propertyEdits: XmlEdit[] = formatting && paragraph.ns !== C_NAMESPACE
+    ? paragraph.runs.map(run => ({
+        start: run.propertiesStart,
+        end: run.propertiesEnd,
+        text: formatRunProperties(run.properties, run.name, formatting),
+      }))
+    : []
+
+  return propertyEdits.concat(texts.flatMap((text, index) => {
+    const content = index === 0 ? escapeXml(translation) : ''
+    if (!text.selfClosing) {
+      return [{ start: text.contentStart, end: text.contentEnd, text: content }]
+    }
+    // A self-closing <w:t/> has to be expanded to hold the translation
+    return index === 0
+      ? [{ start: text.start, end: text.end, text: `<${text.name}${space}>${content}</${text.name}>` }]
+      : []
+  }))
+}
+
+/**
+ * Tracked change settings for `replaceParagraphsById` and `replaceParagraphText`
+ */
+export interface RevisionOptions {
+  author: string
+  /** ISO 8601 date of the revisions */
+  date: string
+  /** Next free w:id, advanced for every revision written; IDs must be unique in the document */
+  nextId: number
+}
+
+export interface ReplaceOptions {
+  /** Set the paragraphs and runs up for the target language */
+  formatting?: TargetFormatting
+  /** Write WordprocessingML translations as tracked changes (DrawingML has none) */
+  revisions?: RevisionOptions
+}
+
+/**
+ * Build a run of the paragraph's kind holding plain text
+ */
+function buildRun(paragraph: Paragraph, properties: string, text: string): string {
+  const runName = paragraph.runs[0]!.name
+  const textName = paragraph.runs[0]!.texts[0]!.name
+  return `<${runName}>${properties}<${textName}${preserveSpace(paragraph.ns)}>${escapeXml(text)}</${textName}></${runName}>`
+}
+
+/**
+ * Build the content of a tagged translation: runs with the formatting of their tag's original run,
+ * link text inside a copy of its link and placeholders as the elements they stand for
+ * Placeholders the translation leaves out are added at the end, so no field or note reference is lost
+ * With `moveInline` off (tracked changes) link text becomes plain runs and placeholders are left out,
+ * the original elements stay in place
+ * Returns null if the tags do not match the original paragraph
+ */
+function buildTaggedContent(
+  paragraph: Paragraph,
+  spans: SourceSpan[],
+  translation: string,
+  formatting?: TargetFormatting,
+  moveInline = true,
+): string | null {
+  const { runs, pieces } = paragraph
+  const translatedSpans = parseInlineTags(translation)
+  if (!translatedSpans) {
+    return null
+  }
+
+  // Pieces to take the formatting and link of each tag from, the first of its span
+  const baseSpan = spans.find(span => span.tag === null)
+  const textPieces = new Map<number | null, Piece>()
+  const placeholders = new Map<number, Piece>()
+  textPieces.set(null, baseSpan ? pieces[baseSpan.parts[0]!]! : { run: runs.find(run => !run.hyperlink) ?? runs[0] })
+  for (const span of spans) {
+    if (span.placeholder) {
+      placeholders.set(span.tag!, pieces[span.parts[0]!]!)
+    }
+    else if (span.tag !== null) {
+      textPieces.set(span.tag, pieces[span.parts[0]!]!)
+    }
+  }
+
+  if (translatedSpans.some(span => span.placeholder ? !placeholders.has(span.tag!) : !textPieces.has(span.tag))) {
+    return null
+  }
+
+  const propertiesByTag = new Map<number | null, string>()
+  for (const [tag, piece] of textPieces) {
+    const properties = piece.run?.properties ?? ''
+    propertiesByTag.set(tag, formatting ? formatRunProperties(properties, runs[0]!.name, formatting) : properties)
+  }
+
+  const placed = new Set<number>()
+  const content = translatedSpans.map((span) => {
+    if (span.placeholder) {
+      placed.add(span.tag!)
+      return moveInline ? placeholders.get(span.tag!)!.inline!.xml : ''
+    }
+    const run = buildRun(paragraph, propertiesByTag.get(span.tag)!, span.text)
+    const hyperlink = textPieces.get(span.tag)!.hyperlink
+    return moveInline && hyperlink ? `${hyperlink.startTag}${run}</${hyperlink.name}>` : run
+  })
+  if (moveInline) {
+    for (const [tag, piece] of placeholders) {
+      if (!placed.has(tag)) {
+        content.push(piece.inline!.xml)
+      }
+    }
+  }
+  return content.join('')
+}
+
+/**
+ * Rebuild the text runs, links and placeholder elements of a paragraph from a tagged translation
+ * Returns null if the tags do not match the original paragraph
+ */
+function replaceTagged(
+  paragraph: Paragraph,
+  spans: SourceSpan[],
+  translation: string,
+  formatting?: TargetFormatting,
+): XmlEdit[] | null {
+  const { pieces } = paragraph
+  const content = buildTaggedContent(paragraph, spans, translation, formatting)
+  if (content === null) {
+    return null
+  }
+
+  // Links with nothing else in them are rebuilt whole, others keep what is not text
+  const removedLinks = new Set(pieces
+    .map(piece => piece.hyperlink)
+    .filter(hyperlink => hyperlink && !hyperlink.hasOtherContent))
+
+  // Insert the new content before the first piece, and remove the old pieces
+  const first = pieces[0]!
+  const start = first.hyperlink?.start ?? first.run?.start ?? first.inline!.start
+  const edits: XmlEdit[] = [{ start, end: start, text: content }]
+  for (const hyperlink of removedLinks) {
+    edits.push({ start: hyperlink!.start, end: hyperlink!.end, text: '' })
+  }
+  const removedRuns = new Set<TextRun>()
+  for (const piece of pieces) {
+    if (piece.hyperlink && removedLinks.has(piece.hyperlink)) {
+      continue
+    }
+    if (piece.run && !piece.run.hasOtherContent) {
+      removedRuns.add(piece.run)
+      continue
+    }
+    const { start, end } = piece.text ?? piece.inline!
+    edits.push({ start, end, text: '' })
+  }
+  for (const run of removedRuns) {
+    edits.push({ start: run.start, end: run.end, text: '' })
+  }
+
+  return edits
+}
+
+/**
+ * Mark the text runs of a paragraph as deleted and add the translation as inserted runs after them
+ * Runs that also hold tabs, drawings or fields are split, so only their text is deleted;
+ * placeholder elements and links stay where they are
+ */
+function replaceTracked(
+  paragraph: Paragraph,
+  spans: SourceSpan[],
+  translation: string,
+  revisions: RevisionOptions,
+  formatting?: TargetFormatting,
+): XmlEdit[] {
+  const { runs } = paragraph
+  const prefix = getPrefix(paragraph.name)
+  const revision = (type: 'ins' | 'del') =>
+    `<${prefix}${type} ${prefix}id="${revisions.nextId++}" ${prefix}author="${escapeXml(revisions.author)}" ${prefix}date="${escapeXml(revisions.date)}">`
+
+  const firstProperties = formatting
+    ? formatRunProperties(runs[0]!.properties, runs[0]!.name, formatting)
+    : runs[0]!.properties
+  const hasTags = spans.some(span => span.tag !== null)
+  const newRuns = (hasTags ? buildTaggedContent(paragraph, spans, translation, formatting, false) : null)
+    ?? buildRun(paragraph, firstProperties, stripInlineTags(translation))
+
+  const edits: XmlEdit[] = []
+  for (const run of runs) {
+    if (run.hasOtherContent || paragraph.pieces.some(piece => piece.inline && piece.run === run)) {
+      // Close the run before the text and reopen it after if more content follows, with the deleted text in between
+      edits.push(...run.texts.map((text) => {
+        const isLast = text.end === run.contentEnd
+        return {
+          start: text.start,
+          end: isLast ? run.end : text.end,
+          text: `</${run.name}>${revision('del')}<${run.name}>${run.properties}<${prefix}delText xml:space="preserve">${escapeXml(text.text)}</${prefix}delText></${run.name}></${prefix}del>${isLast ? '' : `<${run.name}>${run.properties}`}`,
+        }
+      }))
+      continue
+    }
+    edits.push({ start: run.start, end: run.start, text: revision('del') })
+    for (const text of run.texts) {
+      if (text.selfClosing) {
+        edits.push({ start: text.start, end: text.end, text: `<${prefix}delText/>` })
+      }
+      else {
+        edits.push(
+          { start: text.start, end: text.contentStart, text: `<${prefix}delText xml:space="preserve">` },
+          { start: text.contentEnd, end: text.end, text: `</${prefix}delText>` },
+        )
+      }
+    }
+    edits.push({ start: run.end, end: run.end, text: `</${prefix}del>` })
+  }
+
+  // After the link of the last run, the inserted text does not belong to it
+  const lastRun = runs.at(-1)!
+  const end = lastRun.hyperlink?.end ?? lastRun.end
+  edits.push({ start: end, end, text: `${revision('ins')}${newRuns}</${prefix}ins>` })
+  return edits
+}
+
+/**
+ * Replace the text of one paragraph with its translation
+ * Inline tags in the translation are turned back into formatted runs;
+ * if they are broken, the whole translation goes into the first run
+ */
+function translateParagraph(
+  paragraph: Paragraph,
+  spans: SourceSpan[],
+  translation: string,
+  options: ReplaceOptions,
+): XmlEdit[] {
+  const { formatting, revisions } = options
+  const hasTags = spans.some(span => span.tag !== null)
+  const edits = revisions && paragraph.ns === W_NAMESPACE
+    ? replaceTracked(paragraph, spans, translation, revisions, formatting)
+    : (hasTags ? replaceTagged(paragraph, spans, translation, formatting) : null)
+      ?? replaceFlat(paragraph, stripInlineTags(translation), formatting)
+
+  // Paragraph properties are changed directly, also with tracked changes
+  if (formatting && paragraph.ns !== C_NAMESPACE) {
+    // Goes first, a new run may be inserted at the same offset
+    edits.unshift({
+      start: paragraph.propertiesStart,
+      end: paragraph.propertiesEnd,
+      text: formatParagraphProperties(paragraph.properties, paragraph.name, formatting),
+    })
+  }
+  return edits
+}
+
 /**
  * Replace paragraph text in an XML string with translations
- * Uses a map of original paragraph text -> translated text
+ * Finds each paragraph by its position among the non-empty paragraphs of the file,
+ * the same order `extractParagraphSegments` assigns IDs in
+ * `segments` must be the segments extracted from this file, in order
+ * Paragraphs whose text no longer matches their segment are left untouched
  */
-export function replaceParagraphText(
+export function replaceParagraphsById(
   xml: string,
+  segments: ParagraphSegment[],
   translations: Map<string, string>,
-): string {
-  // Reset regex state
-  PARAGRAPH_REGEX.lastIndex = 0
+  options: ReplaceOptions = {},
+): { xml: string, mismatched: string[] } {
+  const mismatched: string[] = []
+  const edits: XmlEdit[] = []
+  const copyTranslations = new Map<string, string>()
+  const paragraphs = scanParagraphs(xml)
+  let index = 0
+
+  for (const paragraph of paragraphs.filter(p => !p.isCopy)) {
+    const { text, spans } = getTaggedText(paragraph)
+
+    // Empty paragraphs were skipped during extraction
+    if (stripInlineTags(text).trim().length === 0) {
+      continue
+    }
+
+    const segment = segments[index++]
+    if (!segment) {
+      continue
+    }
+
+    const translation = translations.get(segment.id)
+    if (translation === undefined || translation.trim().length === 0) {
+      continue // No translation, keep original
+    }
 
-  return xml.replace(PARAGRAPH_REGEX, (fullMatch, paragraphContent) => {
-    // Extract all text from this paragraph to get the key
-    const texts: string[] = []
-    let textMatch: RegExpExecArray | null
-    TEXT_ELEMENT_REGEX.lastIndex = 0
+    if (segment.text !== text) {
+      mismatched.push(segment.id)
+      continue
+    }
+
+    edits.push(...translateParagraph(paragraph, spans, translation, options))
+    copyTranslations.set(text, translation)
+  }
 
-    while ((textMatch = TEXT_ELEMENT_REGEX.exec(paragraphContent)) !== null) {
-      texts.push(textMatch[2] || '')
+  // Keep copies in sync with the paragraphs they repeat
+  for (const paragraph of paragraphs.filter(p => p.isCopy)) {
+    const { text, spans } = getTaggedText(paragraph)
+    const translation = copyTranslations.get(text)
+    if (translation !== undefined) {
+      edits.push(...translateParagraph(paragraph, spans, translation, options))
     }
+  }
+
+  return { xml: applyXmlEdits(xml, edits), mismatched }
+}
+
+/**
+ * Replace paragraph text in an XML string with translations
+ * Uses a map of original paragraph text -> translated text, so every paragraph
+ * with the same text gets the same translation
+ * Prefer `replaceParagraphsById`; this is kept as a fallback
+ */
+export function replaceParagraphText(
+  xml: string,
+  translations: Map<string, string>,
+  options: ReplaceOptions = {},
+): string {
+  const edits: XmlEdit[] = []
 
-    const originalText = texts.join('')
+  for (const paragraph of scanParagraphs(xml)) {
+    // Get the tagged text of this paragraph to use as the key
+    const { text, spans } = getTaggedText(paragraph)
 
     // Check if we have a translation for this paragraph
-    const translation = translations.get(originalText)
-    if (translation === undefined) {
-      return fullMatch // No translation, keep original
-    }
-
-    // Replace the text: put all translation in first <w:t>, clear the rest
-    let isFirst = true
-    TEXT_ELEMENT_REGEX.lastIndex = 0
-
-    const newParagraphContent = paragraphContent.replace(
-      TEXT_ELEMENT_REGEX,
-      (textMatch: string, attrs: string) => {
-        if (isFirst) {
-          isFirst = false
-          const attributes = attrs || ''
-          return `<w:t${attributes}>${escapeXml(translation)}</w:t>`
-        }
-        else {
-          // Clear subsequent text runs (keep the element but empty)
-          const attributes = attrs || ''
-          return `<w:t${attributes}></w:t>`
-        }
-      },
-    )
+    const translation = translations.get(text)
+    if (translation !== undefined) {
+      edits.push(...translateParagraph(paragraph, spans, translation, options))
+    }
+  }
 
-    return `<w:p${fullMatch.match(/<w:p(\s[^>]*)?>/)?.[1] || ''}>${newParagraphContent}</w:p>`
-  })
+  return applyXmlEdits(xml, edits)
 }
 
 /**
@@ -120,14 +872,26 @@ export function escapeXml(text: string): string {
     .replace(/'/g, '&apos;')
 }
 
+const NAMED_ENTITIES: Record<string, string> = {
+  amp: '&',
+  lt: '<',
+  gt: '>',
+  quot: '"',
+  apos: '\'',
+}
+
 /**
  * Unescape XML entities back to normal characters
  */
 export function unescapeXml(text: string): string {
-  return text
-    .replace(/&amp;/g, '&')
-    .replace(/&lt;/g, '<')
-    .replace(/&gt;/g, '>')
-    .replace(/&quot;/g, '"')
-    .replace(/&apos;/g, "'")
+  return text.replace(/&(#x[\da-f]+|#\d+|\w+);/gi, (entity, name: string) => {
+    if (name[0] === '#') {
+      const code = name[1] === 'x' || name[1] === 'X'
+        ? Number.parseInt(name.slice(2), 16)
+        : Number.parseInt(name.slice(1), 10)
+      // Out of range in malformed XML, keep the entity as it is
+      return code <= 0x10FFFF ? String.fromCodePoint(code) : entity
+    }
+    return NAMED_ENTITIES[name] ?? entity
+  })
 }
@@ -0,0 +1,80 @@
+import type { Server } from 'bun'
+import process from 'node:process'
+import { parseArgs } from 'node:util'
+import { formatTxt, parseTxtTranslations } from './lib/formats'
+
+/**
+ * A stand-in for an OpenAI-compatible chat completions endpoint, for trying the translate flow offline
+ * Every [pN] block comes back prefixed with "[MT] ", a share of the requests fails with 503
+ */
+export interface MockMtOptions {
+  /** Port to listen on, 0 picks a free one (default 8787) */
+  port?: number
+  /** Share of requests answered with 503, to exercise the retries */
+  failRate?: number
+  /** Delay of every reply in milliseconds */
+  delay?: number
+  /** Retry-After in seconds sent with the 503 replies */
+  retryAfter?: number
+}
+
+// The web app calls the endpoint from another origin
+const CORS_HEADERS = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'Content-Type, Authorization',
+  'Access-Control-Allow-Methods': 'POST, OPTIONS',
+}
+
+/**
+ * Start the mock endpoint, its base URL is http://localhost:<server.port>/v1
+ */
+export function serveMockMt(options: MockMtOptions = {}): Server<undefined> {
+  const { port = 8787, failRate = 0, delay = 0, retryAfter } = options
+
+  return Bun.serve({
+    port,
+    async fetch(request) {
+      const url = new URL(request.url)
+      if (request.method === 'OPTIONS') {
+        return new Response(null, { status: 204, headers: CORS_HEADERS })
+      }
+      if (request.method !== 'POST' || !url.pathname.endsWith('/chat/completions')) {
+        return new Response('Not found', { status: 404, headers: CORS_HEADERS })
+      }
+
+      await Bun.sleep(delay)
+      if (Math.random() < failRate) {
+        const headers = retryAfter ? { ...CORS_HEADERS, 'Retry-After': String(retryAfter) } : CORS_HEADERS
+        return new Response('Service unavailable', { status: 503, headers })
+      }
+
+      const body = await request.json() as { messages: { role: string, content: string }[] }
+      const text = body.messages.findLast(message => message.role === 'user')?.content ?? ''
+      const segments = [...parseTxtTranslations(text)]
+        .map(([id, source]) => ({ id, text: `[MT] ${source}`, source: '', runCount: 1 }))
+
+      return Response.json({
+        object: 'chat.completion',
+        choices: [{ index: 0, message: { role: 'assistant', content: formatTxt(segments) }, finish_reason: 'stop' }],
+      }, { headers: CORS_HEADERS })
+    },
+  })
+}
+
+if (import.meta.main) {
+  const { values } = parseArgs({
+    args: process.argv.slice(2),
+    options: {
+      'port': { type: 'string', default: '8787' },
+      'fail-rate': { type: 'string', default: '0' },
+      'delay': { type: 'string', default: '0' },
+    },
+  })
+
+  const server = serveMockMt({
+    port: Number(values.port),
+    failRate: Number(values['fail-rate']),
+    delay: Number(values.delay),
+  })
+  console.log(`🤖 Mock translation endpoint: http://localhost:${server.port}/v1`)
+}
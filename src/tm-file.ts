@@ -0,0 +1,20 @@
+import type { TranslationMemory } from './lib/tm'
+import { createTranslationMemory } from './lib/tm'
+
+/**
+ * Load a translation memory file, or an empty memory if it does not exist yet
+ */
+export async function loadMemoryFile(path: string): Promise<TranslationMemory> {
+  const file = Bun.file(path)
+  if (!(await file.exists())) {
+    return createTranslationMemory()
+  }
+  return await file.json()
+}
+
+/**
+ * Save a translation memory file
+ */
+export async function saveMemoryFile(path: string, tm: TranslationMemory): Promise<void> {
+  await Bun.write(path, JSON.stringify(tm, null, 2))
+}
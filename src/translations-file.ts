@@ -0,0 +1,131 @@
+import type { TranslationFileHeader } from './lib/formats'
+import type { SegmentStatus, TranslationFile } from './lib/types'
+import { extname } from 'node:path'
+import { extractDocx } from './docx-utils'
+import { parseBilingualDocx } from './lib/bilingual'
+import { parseTxtHeader, parseTxtTranslations } from './lib/formats'
+import { parsePo } from './lib/po'
+import { parseTranslationFile, parseTranslationFileHeader, TranslationFileError } from './lib/schema'
+import { getSegmentStatus, restoreOuterWhitespace } from './lib/segments'
+import { parseXliff } from './lib/xliff'
+
+export interface LoadedTranslations {
+  /** Segment ID -> translated text */
+  translations: Map<string, string>
+  /** Name of the format, for messages */
+  format: string
+  /** IDs of units that are not translated yet (XLIFF) or fuzzy (PO) */
+  skipped: string[]
+  /** Status of the translations that record one (JSON, XLIFF), the others count as translated */
+  statuses: Map<string, SegmentStatus>
+  /** Whether the format records statuses at all (JSON, XLIFF) */
+  hasStatuses: boolean
+}
+
+/**
+ * Read an extraction JSON, validated and upgraded to the current version
+ * Throws a TranslationFileError naming the file if it is not valid
+ */
+export async function readTranslationFile(path: string): Promise<TranslationFile> {
+  try {
+    return parseTranslationFile(JSON.parse(await Bun.file(path).text()))
+  }
+  catch (err) {
+    if (err instanceof SyntaxError) {
+      throw new TranslationFileError(`${path} is not valid JSON: ${err.message}`)
+    }
+    if (err instanceof TranslationFileError) {
+      throw new TranslationFileError(`${path}: ${err.message}`, err.problems)
+    }
+    throw err
+  }
+}
+
+/**
+ * Load translations from a .txt, .xlf/.xliff, .po, bilingual .docx or .json file, by extension
+ * Translations in `original` (e.g. pre-filled from the memory) fill the gaps of a .txt file,
+ * and every translation gets the outer whitespace of its source segment back
+ */
+export async function loadTranslationsFile(
+  path: string,
+  original: TranslationFile,
+  options: { includeFuzzy?: boolean } = {},
+): Promise<LoadedTranslations> {
+  const loaded = await readTranslations(path, original, options)
+  return { ...loaded, translations: restoreOuterWhitespace(original.segments, loaded.translations) }
+}
+
+/**
+ * Read the translations of a file as they are written in it
+ */
+async function readTranslations(
+  path: string,
+  original: TranslationFile,
+  options: { includeFuzzy?: boolean },
+): Promise<LoadedTranslations> {
+  const ext = extname(path).toLowerCase()
+
+  if (ext === '.txt') {
+    const translations = parseTxtTranslations(await Bun.file(path).text())
+    const statuses = new Map<string, SegmentStatus>()
+    // Segments pre-filled from the translation memory are not in the TXT, and keep their status
+    for (const segment of original.segments) {
+      if (segment.translation && !translations.has(segment.id)) {
+        translations.set(segment.id, segment.translation)
+        statuses.set(segment.id, getSegmentStatus(segment))
+      }
+    }
+    return { translations, format: 'TXT', skipped: [], statuses, hasStatuses: false }
+  }
+  if (ext === '.xlf' || ext === '.xliff') {
+    return { ...parseXliff(await Bun.file(path).text()), format: 'XLIFF', hasStatuses: true }
+  }
+  if (ext === '.po') {
+    const { translations, skipped } = parsePo(await Bun.file(path).text(), {
+      includeFuzzy: options.includeFuzzy,
+    })
+    return { translations, format: 'PO', skipped, statuses: new Map(), hasStatuses: false }
+  }
+  if (ext === '.docx') {
+    return {
+      translations: parseBilingualDocx(await extractDocx(path)),
+      format: 'the bilingual DOCX',
+      skipped: [],
+      statuses: new Map(),
+      hasStatuses: false,
+    }
+  }
+
+  const file = await readTranslationFile(path)
+  const translations = new Map<string, string>()
+  const statuses = new Map<string, SegmentStatus>()
+  for (const segment of file.segments) {
+    if (segment.translation) {
+      translations.set(segment.id, segment.translation)
+      statuses.set(segment.id, getSegmentStatus(segment))
+    }
+  }
+  return { translations, format: 'JSON', skipped: [], statuses, hasStatuses: true }
+}
+
+/**
+ * Read what a translations file records about its extraction: the header of a .txt file,
+ * or everything but the segments of an extraction JSON
+ */
+export async function readTranslationsHeader(path: string): Promise<TranslationFileHeader | undefined> {
+  const ext = extname(path).toLowerCase()
+  if (ext === '.txt') {
+    const header = parseTxtHeader(await Bun.file(path).text())
+    try {
+      return header && parseTranslationFileHeader(header)
+    }
+    catch (err) {
+      throw err instanceof TranslationFileError ? new TranslationFileError(`${path}: ${err.message}`, err.problems) : err
+    }
+  }
+  if (ext === '.json') {
+    const { segments: _segments, ...header } = await readTranslationFile(path)
+    return header
+  }
+  return undefined
+}